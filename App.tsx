@@ -1,65 +1,172 @@
 
 import { GoogleGenAI } from "@google/genai";
 import React, { useState, useMemo, useRef, useEffect } from 'react';
-import { HubSlot, Region, MarketSegment, FlightInfo, WorkspaceSnapshot, AirportDataset } from './types';
-import { AIRPORT_REGIONS, TIME_SLOTS, REGION_COLORS, INDIAN_AIRPORTS } from './constants';
+import { Region, MarketSegment, FlightInfo, WorkspaceSnapshot, AirportDataset, ImportReport, ColumnMapping, MappingProfile, TimeMode, AirportRecord, RegionDefinition, WorkspaceBundle, BundleConflictAction, MctRule, ConnectivityMode, CarrierAgreements } from './types';
+import { DEFAULT_REGIONS, WEEKDAY_LABELS } from './constants';
 import HubBankChart from './components/HubBankChart';
+import OdMatrixView from './components/OdMatrixView';
 import DataTable from './components/DataTable';
+import ImportReportPanel from './components/ImportReportPanel';
+import ColumnMappingModal from './components/ColumnMappingModal';
+import SsimImportModal from './components/SsimImportModal';
+import SeasonTimeline from './components/SeasonTimeline';
+import AirportDatabaseModal from './components/AirportDatabaseModal';
+import UnresolvedAirportsPanel from './components/UnresolvedAirportsPanel';
+import RegionManagerModal from './components/RegionManagerModal';
+import HubSettingsModal from './components/HubSettingsModal';
+import WorkspaceImportModal from './components/WorkspaceImportModal';
+import SnapshotRestoreModal from './components/SnapshotRestoreModal';
+import ScenarioDiffModal from './components/ScenarioDiffModal';
+import BlockHistoryPanel from './components/BlockHistoryPanel';
+import HubLinksModal from './components/HubLinksModal';
+import MctRulesModal from './components/MctRulesModal';
+import CarrierAgreementsModal from './components/CarrierAgreementsModal';
+import ItinerarySearchModal from './components/ItinerarySearchModal';
+import { CSVRecord, parseCSV, parseCSVData, countDataRows, guessColumnMapping, findMatchingProfile, normalizeHeaders } from './utils/csv';
+import { SsimSchedule, isSsimFile, parseSsim, buildSsimHubDataset } from './utils/ssim';
+import { addDays, startOfWeek, todayISO } from './utils/season';
+import { buildAirportIndex, findUnresolvedAirports } from './utils/airports';
+import { getHubProfile } from './utils/hub';
+import { buildHubBank } from './utils/bank';
+import { ConnectivityOptions } from './utils/connectivity';
+import { History, emptyHistory, pushHistory, travelHistory } from './utils/history';
+import { HubLinkRecord, LinkContext, breakLink, setLink, syncLinkedBlocks } from './utils/links';
+import { CONNECTIVITY_MODES, EMPTY_AGREEMENTS } from './utils/carriers';
+import { ManualBlocks, StorageUsage, StoredWorkspace, formatBytes, getStorageUsage, loadWorkspace, saveListChanges, saveManualBlockChanges } from './utils/storage';
+import { SCHEMA_VERSION, migrateSnapshot } from './utils/schema';
+import { SnapshotSourceCheck, checkSnapshotSources, dropOrphanedBlocks, fingerprintDatasets } from './utils/snapshot';
+import { buildScenarioTree, computeChangeSet, countChanges, getChangeSet, isInBranch, rebaseScenario, removeScenario } from './utils/scenarioTree';
+import { createWorkspaceBundle, mergeWorkspaceBundle, parseWorkspaceBundle } from './utils/bundle';
+import { buildRegionIndex, getRegionStyle, getSubRegions, getTopLevelRegions, normalizeRegions, restoreSelectedRegions } from './utils/regions';
+import { formatUtcOffset, getAirportUtcOffset, localizeUtcRows, shiftClock, shiftFlightClock } from './utils/timezone';
+import { buildEffectiveSchedule, exportScheduleCSV, exportScheduleSSIM, downloadFile } from './utils/export';
 
 const STORAGE_KEY_SETTINGS = 'aerohub_workspace_settings';
-const STORAGE_KEY_BLOCKS = 'aerohub_manual_blocks_v2';
-const STORAGE_KEY_SNAPSHOTS = 'aerohub_snapshots_v2';
-const STORAGE_KEY_DATASETS = 'aerohub_datasets_v2';
-
-// Helper to calculate time deltas and new times
-const getMins = (timeStr: string) => {
-  if (!timeStr || !timeStr.includes(':')) return 0;
-  const [h, m] = timeStr.split(':').map(Number);
-  return h * 60 + m;
-};
+const STORAGE_KEY_PROFILES = 'aerohub_mapping_profiles_v1';
+const STORAGE_KEY_AIRPORTS = 'aerohub_airports_v1';
+const STORAGE_KEY_REGIONS = 'aerohub_regions_v1';
 
-const minsToTime = (mins: number) => {
-  const normalized = ((mins % 1440) + 1440) % 1440;
-  const h = Math.floor(normalized / 60);
-  const m = Math.round(normalized % 60);
-  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
-};
+const DEFAULT_SELECTED_REGIONS = getTopLevelRegions(DEFAULT_REGIONS).map(r => r.id);
+const CIRCUITY_LIMITS = [1.2, 1.3, 1.5, 1.75, 2, 2.5, 3];
+
+interface PendingImport {
+  fileName: string;
+  records: CSVRecord[];
+}
+
+interface PendingSsimImport {
+  fileName: string;
+  schedule: SsimSchedule;
+}
+
+interface PendingBundleImport {
+  fileName: string;
+  bundle: WorkspaceBundle;
+}
 
 const App: React.FC = () => {
   const [datasets, setDatasets] = useState<AirportDataset[]>([]);
   const [activeAirportId, setActiveAirportId] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<'raw' | 'hub'>('hub');
+  const [activeTab, setActiveTab] = useState<'raw' | 'hub' | 'matrix'>('hub');
   const [loading, setLoading] = useState(false);
   
-  const [selectedRegions, setSelectedRegions] = useState<Region[]>([Region.Africa, Region.AsiaPacific, Region.Europe, Region.MiddleEast, Region.Americas]);
+  const [selectedRegions, setSelectedRegions] = useState<string[]>(DEFAULT_SELECTED_REGIONS); // Top-level region ids
+  const [hiddenSubRegions, setHiddenSubRegions] = useState<string[]>([]);
   const [selectedAirlines, setSelectedAirlines] = useState<string[]>([]);
   const [marketFilter, setMarketFilter] = useState<MarketSegment>(MarketSegment.All);
-  const [alwaysFocusBLR, setAlwaysFocusBLR] = useState(true);
+  const [alwaysShowFocus, setAlwaysShowFocus] = useState(true);
   const [highlightCatchment, setHighlightCatchment] = useState(false);
   const [airlineDropdownOpen, setAirlineDropdownOpen] = useState(false);
   const [airlineSearchQuery, setAirlineSearchQuery] = useState('');
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [freqMode, setFreqMode] = useState<'weekly' | 'daily'>('weekly');
+  const [selectedDay, setSelectedDay] = useState<number | null>(null); // ISO weekday, null = whole week
+  const [selectedWeek, setSelectedWeek] = useState<string | null>(null); // Monday ISO date, null = all validity periods
+  const [seasonTimelineOpen, setSeasonTimelineOpen] = useState(false);
+  const [timeDisplay, setTimeDisplay] = useState<TimeMode>('local'); // Chart clock: hub-local or UTC
+  const [userAirports, setUserAirports] = useState<AirportRecord[]>([]);
+  const [airportDbOpen, setAirportDbOpen] = useState(false);
+  const [airportDbCode, setAirportDbCode] = useState<string | undefined>(undefined); // Record to open in the editor
+  const [unresolvedOpen, setUnresolvedOpen] = useState(false);
+  const [regions, setRegions] = useState<RegionDefinition[]>(DEFAULT_REGIONS);
+  const [regionManagerOpen, setRegionManagerOpen] = useState(false);
+  const [hubSettingsOpen, setHubSettingsOpen] = useState(false);
   
   const [manualBlocks, setManualBlocks] = useState<Record<string, Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }>>>({});
+  const [blockHistory, setBlockHistory] = useState<History<ManualBlocks>>(emptyHistory);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [linksOpen, setLinksOpen] = useState(false);
+  const manualBlocksRef = useRef(manualBlocks); // Latest blocks, including commits not yet rendered
+  manualBlocksRef.current = manualBlocks;
   
   const [isDraggingOverTrash, setIsDraggingOverTrash] = useState(false);
   const [highlightConnections, setHighlightConnections] = useState(true);
   const [maxConnectionWindow, setMaxConnectionWindow] = useState(6);
   const [mct, setMct] = useState(1.5); 
+  const [mctRules, setMctRules] = useState<MctRule[]>([]);
+  const [mctRulesOpen, setMctRulesOpen] = useState(false);
+  const [connectivityMode, setConnectivityMode] = useState<ConnectivityMode>('all');
+  const [carrierAgreements, setCarrierAgreements] = useState<CarrierAgreements>(EMPTY_AGREEMENTS);
+  const [agreementsOpen, setAgreementsOpen] = useState(false);
+  const [maxCircuity, setMaxCircuity] = useState<number | null>(null);
+  const [itineraryOpen, setItineraryOpen] = useState(false);
 
   const [hoveredManualFlight, setHoveredManualFlight] = useState<{ slotIndex: number, type: 'arr' | 'dep', flightId?: string } | null>(null);
   const [snapshots, setSnapshots] = useState<WorkspaceSnapshot[]>([]);
   const [snapshotMenuOpen, setSnapshotMenuOpen] = useState(false);
+  const [exportMenuOpen, setExportMenuOpen] = useState(false);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+  const [mappingProfiles, setMappingProfiles] = useState<MappingProfile[]>([]);
+  const [pendingImports, setPendingImports] = useState<PendingImport[]>([]);
+  const [pendingSsimImports, setPendingSsimImports] = useState<PendingSsimImport[]>([]);
+  const [pendingBundle, setPendingBundle] = useState<PendingBundleImport | null>(null);
+  const [diffLive, setDiffLive] = useState<WorkspaceSnapshot | null>(null); // Live workspace as of opening the comparison
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null); // Parent of the next capture
+  const [rebaseSourceId, setRebaseSourceId] = useState<string | null>(null); // Branch waiting for a new parent
+  const [pendingRestore, setPendingRestore] = useState<{ snapshot: WorkspaceSnapshot, check: SnapshotSourceCheck } | null>(null);
+
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const persistedRef = useRef<StoredWorkspace | null>(null); // Last saved workspace; null until loaded
+  const unsavedStoresRef = useRef<Set<keyof StoredWorkspace>>(new Set()); // Stores whose last save failed
 
   const dropdownRef = useRef<HTMLDivElement>(null);
   const snapshotRef = useRef<HTMLDivElement>(null);
+  const exportRef = useRef<HTMLDivElement>(null);
+  const historyRef = useRef<HTMLDivElement>(null);
   const appRef = useRef<HTMLDivElement>(null);
 
   const activeDataset = useMemo(() => 
     datasets.find(d => d.id === activeAirportId) || datasets[0] || null
   , [datasets, activeAirportId]);
 
+  const airportIndex = useMemo(() => buildAirportIndex(userAirports), [userAirports]);
+  const hubProfile = useMemo(() => activeDataset ? getHubProfile(activeDataset, airportIndex) : null, [activeDataset, airportIndex]);
+  const homeCountry = hubProfile?.homeCountry;
+  const regionIndex = useMemo(() => buildRegionIndex(regions), [regions]);
+  const hubCountries = useMemo(() => Object.fromEntries(datasets.map(d => [d.code, getHubProfile(d, airportIndex).homeCountry])), [datasets, airportIndex]);
+  const unresolvedAirports = useMemo(() => findUnresolvedAirports(datasets, airportIndex), [datasets, airportIndex]);
+
+  const resolveAirports = (records: AirportRecord[]) => {
+    const codes = new Set(records.map(a => a.code));
+    setUserAirports(prev => [...prev.filter(a => !codes.has(a.code)), ...records]);
+  };
+
+  // New top-level regions start visible
+  const updateRegions = (next: RegionDefinition[]) => {
+    const known = new Set(regions.map(r => r.id));
+    const added = getTopLevelRegions(next).filter(r => !known.has(r.id)).map(r => r.id);
+    if (added.length > 0) setSelectedRegions(prev => [...prev, ...added]);
+    setRegions(normalizeRegions(next));
+  };
+
+  const openAirportEditor = (code?: string) => {
+    setAirportDbCode(code);
+    setAirportDbOpen(true);
+  };
+
+  const refreshStorageUsage = () => { getStorageUsage().then(setStorageUsage).catch(() => setStorageUsage(null)); };
+
   useEffect(() => {
     if (datasets.length > 0 && (!activeAirportId || !datasets.find(d => d.id === activeAirportId))) {
       setActiveAirportId(datasets[0].id);
@@ -68,47 +175,99 @@ const App: React.FC = () => {
 
   useEffect(() => {
     const savedSettings = localStorage.getItem(STORAGE_KEY_SETTINGS);
-    const savedBlocks = localStorage.getItem(STORAGE_KEY_BLOCKS);
-    const savedSnapshots = localStorage.getItem(STORAGE_KEY_SNAPSHOTS);
-    const savedDatasets = localStorage.getItem(STORAGE_KEY_DATASETS);
+    const savedProfiles = localStorage.getItem(STORAGE_KEY_PROFILES);
+    const savedAirports = localStorage.getItem(STORAGE_KEY_AIRPORTS);
+    const savedRegions = localStorage.getItem(STORAGE_KEY_REGIONS);
+    const restoredRegions: RegionDefinition[] = savedRegions ? normalizeRegions(JSON.parse(savedRegions)) : DEFAULT_REGIONS;
 
     if (savedSettings) {
       const settings = JSON.parse(savedSettings);
       setMct(settings.mct || 1.5);
+      setMctRules(settings.mctRules || []);
+      setConnectivityMode(settings.connectivityMode || 'all');
+      setCarrierAgreements(settings.carrierAgreements || EMPTY_AGREEMENTS);
+      setMaxCircuity(settings.maxCircuity ?? null);
       setMaxConnectionWindow(settings.maxConnectionWindow || 6);
-      setSelectedRegions(settings.selectedRegions || [Region.Africa, Region.AsiaPacific, Region.Europe, Region.MiddleEast, Region.Americas]);
+      setSelectedRegions(settings.selectedRegions ? restoreSelectedRegions(settings.selectedRegions, settings.knownRegions, restoredRegions) : DEFAULT_SELECTED_REGIONS);
+      setHiddenSubRegions(settings.hiddenSubRegions || []);
       setMarketFilter(settings.marketFilter || MarketSegment.All);
+      setTimeDisplay(settings.timeDisplay || 'local');
     }
-    if (savedBlocks) setManualBlocks(JSON.parse(savedBlocks));
-    if (savedSnapshots) setSnapshots(JSON.parse(savedSnapshots));
-    if (savedDatasets) {
-      const ds = JSON.parse(savedDatasets);
-      setDatasets(ds);
-      if (ds.length > 0) setActiveAirportId(ds[0].id);
-    }
+    if (savedProfiles) setMappingProfiles(JSON.parse(savedProfiles));
+    if (savedAirports) setUserAirports(JSON.parse(savedAirports));
+    if (savedRegions) setRegions(restoredRegions);
+
+    // Anything imported or created before the load resolved is kept and then saved as a change
+    loadWorkspace().then(stored => {
+      persistedRef.current = stored;
+      const notIn = <T extends { id: string }>(list: T[]) => (item: T) => !list.some(x => x.id === item.id);
+      setDatasets(prev => [...stored.datasets, ...prev.filter(notIn(stored.datasets))]);
+      setManualBlocks(prev => ({ ...stored.manualBlocks, ...prev }));
+      setSnapshots((prev: WorkspaceSnapshot[]) => [...prev, ...stored.snapshots.filter(notIn(prev))].sort((a, b) => b.timestamp - a.timestamp));
+      if (stored.datasets.length > 0) setActiveAirportId(prev => prev ?? stored.datasets[0].id);
+      refreshStorageUsage();
+    }).catch(err => {
+      console.error('Workspace load failed:', err);
+      setStorageError(err instanceof Error ? err.message : 'Saved workspace could not be loaded');
+      if (err instanceof Error) alert(err.message);
+    });
   }, []);
 
   useEffect(() => {
-    const settings = { mct, maxConnectionWindow, selectedRegions, marketFilter };
+    const knownRegions = getTopLevelRegions(regions).map(r => r.id);
+    const settings = { mct, mctRules, connectivityMode, carrierAgreements, maxCircuity, maxConnectionWindow, selectedRegions, knownRegions, hiddenSubRegions, marketFilter, timeDisplay };
     localStorage.setItem(STORAGE_KEY_SETTINGS, JSON.stringify(settings));
-  }, [mct, maxConnectionWindow, selectedRegions, marketFilter]);
+  }, [mct, mctRules, connectivityMode, carrierAgreements, maxCircuity, maxConnectionWindow, selectedRegions, regions, hiddenSubRegions, marketFilter, timeDisplay]);
+
+  // Workspace saves start once the stored workspace has loaded, so the empty initial state never overwrites it.
+  // Each save diffs against what was last written successfully, so a failed write is retried with the next change
+  const persistWorkspace = <K extends keyof StoredWorkspace>(key: K, next: StoredWorkspace[K], save: (prev: StoredWorkspace[K]) => Promise<void>) => {
+    const persisted = persistedRef.current;
+    if (!persisted) return;
+    save(persisted[key])
+      .then(() => {
+        persisted[key] = next;
+        unsavedStoresRef.current.delete(key);
+        if (unsavedStoresRef.current.size === 0) setStorageError(null);
+        refreshStorageUsage();
+      })
+      .catch(err => {
+        console.error('Workspace save failed:', err);
+        unsavedStoresRef.current.add(key);
+        setStorageError('Last change could not be saved');
+      });
+  };
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_BLOCKS, JSON.stringify(manualBlocks));
+    persistWorkspace('manualBlocks', manualBlocks, prev => saveManualBlockChanges(prev, manualBlocks));
   }, [manualBlocks]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_SNAPSHOTS, JSON.stringify(snapshots));
+    persistWorkspace('snapshots', snapshots, prev => saveListChanges('snapshots', prev, snapshots));
   }, [snapshots]);
 
   useEffect(() => {
-    localStorage.setItem(STORAGE_KEY_DATASETS, JSON.stringify(datasets));
+    persistWorkspace('datasets', datasets, prev => saveListChanges('datasets', prev, datasets));
   }, [datasets]);
 
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_PROFILES, JSON.stringify(mappingProfiles));
+  }, [mappingProfiles]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_AIRPORTS, JSON.stringify(userAirports));
+  }, [userAirports]);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY_REGIONS, JSON.stringify(regions));
+  }, [regions]);
+
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) setAirlineDropdownOpen(false);
       if (snapshotRef.current && !snapshotRef.current.contains(event.target as Node)) setSnapshotMenuOpen(false);
+      if (exportRef.current && !exportRef.current.contains(event.target as Node)) setExportMenuOpen(false);
+      if (historyRef.current && !historyRef.current.contains(event.target as Node)) setHistoryOpen(false);
     };
     const handleFullscreenChange = () => setIsFullscreen(!!document.fullscreenElement);
     document.addEventListener('mousedown', handleClickOutside);
@@ -119,45 +278,192 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Current workspace as a scenario; dataset fingerprints are added only when it is saved
+  const captureScenario = (id: string, name: string): WorkspaceSnapshot => ({
+    id,
+    name,
+    timestamp: Date.now(),
+    schemaVersion: SCHEMA_VERSION,
+    manualBlocks,
+    mct,
+    mctRules,
+    connectivityMode,
+    carrierAgreements,
+    maxCircuity,
+    maxConnectionWindow,
+    selectedRegions,
+    hiddenSubRegions,
+    marketFilter,
+    selectedAirlines,
+    freqMode,
+    selectedDay,
+    selectedWeek,
+    timeDisplay,
+    highlightCatchment,
+    alwaysShowFocus,
+    activeDatasetId: activeDataset?.id
+  });
+
+  // New scenarios branch from the one last restored or captured
   const createSnapshot = () => {
     const name = prompt("Enter Scenario Name:", `Analysis ${new Date().toLocaleTimeString()}`);
     if (!name) return;
-    const newSnapshot: WorkspaceSnapshot = {
-      id: Math.random().toString(36).substr(2, 9),
-      name,
-      timestamp: Date.now(),
-      manualBlocks,
-      mct,
-      maxConnectionWindow,
-      selectedRegions,
-      marketFilter
-    };
+    const parent = snapshots.find(s => s.id === activeScenarioId);
+    const captured: WorkspaceSnapshot = { ...captureScenario(Math.random().toString(36).substr(2, 9), name), datasets: fingerprintDatasets(datasets), parentId: parent?.id };
+    const newSnapshot: WorkspaceSnapshot = { ...captured, changes: computeChangeSet(parent, captured, datasets) };
     setSnapshots(prev => [newSnapshot, ...prev]);
+    setActiveScenarioId(newSnapshot.id);
+    setSnapshotMenuOpen(false);
+  };
+
+  // Starts an empty branch under `s` and restores it
+  const forkSnapshot = (s: WorkspaceSnapshot, e: React.MouseEvent) => {
+    e.stopPropagation();
+    const name = prompt("Branch Name:", `${s.name} (branch)`);
+    if (!name) return;
+    const fork: WorkspaceSnapshot = { ...s, id: Math.random().toString(36).substr(2, 9), name, timestamp: Date.now(), parentId: s.id, changes: {} };
+    setSnapshots(prev => [fork, ...prev]);
+    loadSnapshot(fork);
+  };
+
+  const rebaseSnapshot = (ontoId: string) => {
+    if (!rebaseSourceId) return;
+    const result = rebaseScenario(snapshots, rebaseSourceId, ontoId, datasets);
+    setRebaseSourceId(null);
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+    setSnapshots(result.snapshots);
+    if (result.conflicts.length > 0) {
+      const lines = result.conflicts.slice(0, 10).map(c => `• ${c.scenario} · ${c.code} ${c.change.op} ${c.change.flight.code}: ${c.reason}`);
+      const more = result.conflicts.length > 10 ? `\n…and ${result.conflicts.length - 10} more` : '';
+      alert(`Rebased with ${result.conflicts.length} conflict(s):\n${lines.join('\n')}${more}`);
+    }
+  };
+
+  const loadSnapshot = (saved: WorkspaceSnapshot) => {
+    const result = migrateSnapshot(saved);
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+    const check = checkSnapshotSources(result.snapshot, datasets);
     setSnapshotMenuOpen(false);
+    if (check.issues.length > 0) setPendingRestore({ snapshot: result.snapshot, check });
+    else applySnapshot(result.snapshot, check.manualBlocks);
   };
 
-  const loadSnapshot = (s: WorkspaceSnapshot) => {
-    setManualBlocks(s.manualBlocks);
+  // View state missing from older snapshots is left as it is
+  const applySnapshot = (s: WorkspaceSnapshot, blocks: WorkspaceSnapshot['manualBlocks']) => {
+    commitBlocks(`Restore scenario "${s.name}"`, () => blocks);
+    setActiveScenarioId(s.id);
     setMct(s.mct);
+    if (s.mctRules) setMctRules(s.mctRules);
+    if (s.connectivityMode) setConnectivityMode(s.connectivityMode);
+    if (s.carrierAgreements) setCarrierAgreements(s.carrierAgreements);
+    if (s.maxCircuity !== undefined) setMaxCircuity(s.maxCircuity);
     setMaxConnectionWindow(s.maxConnectionWindow);
     setSelectedRegions(s.selectedRegions);
+    setHiddenSubRegions(s.hiddenSubRegions || []);
     setMarketFilter(s.marketFilter);
-    setSnapshotMenuOpen(false);
+    if (s.selectedAirlines) setSelectedAirlines(s.selectedAirlines);
+    if (s.freqMode) setFreqMode(s.freqMode);
+    if (s.selectedDay !== undefined) setSelectedDay(s.selectedDay);
+    if (s.selectedWeek !== undefined) setSelectedWeek(s.selectedWeek);
+    if (s.timeDisplay) setTimeDisplay(s.timeDisplay);
+    if (s.highlightCatchment !== undefined) setHighlightCatchment(s.highlightCatchment);
+    if (s.alwaysShowFocus !== undefined) setAlwaysShowFocus(s.alwaysShowFocus);
+    if (s.activeDatasetId) {
+      const code = s.datasets?.[s.activeDatasetId]?.code;
+      const active = datasets.find(d => d.id === s.activeDatasetId) || datasets.find(d => d.code === code);
+      if (active) setActiveAirportId(active.id);
+    }
   };
 
   const deleteSnapshot = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    setSnapshots(prev => prev.filter(s => s.id !== id));
+    setSnapshots(prev => removeScenario(prev, id, datasets));
+    if (activeScenarioId === id) setActiveScenarioId(null);
   };
 
   const clearWorkspace = () => {
     if (confirm("Reset current workspace? This will remove all manual blocks for all airports.")) {
-      setManualBlocks({});
+      commitBlocks('Reset workspace', () => ({}));
+      setActiveScenarioId(null);
       setMct(1.5);
       setMaxConnectionWindow(6);
     }
   };
 
+  const exportWorkspace = () => {
+    const bundle = createWorkspaceBundle(
+      { datasets, manualBlocks, snapshots, userAirports, regions },
+      { mct, mctRules, connectivityMode, carrierAgreements, maxCircuity, maxConnectionWindow, selectedRegions, knownRegions: getTopLevelRegions(regions).map(r => r.id), hiddenSubRegions, marketFilter, timeDisplay }
+    );
+    downloadFile(`aerohub_workspace_${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(bundle), 'application/json');
+    setSnapshotMenuOpen(false);
+  };
+
+  const handleWorkspaceFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const result = parseWorkspaceBundle(await file.text());
+    if ('error' in result) {
+      alert(result.error);
+      return;
+    }
+    setPendingBundle({ fileName: file.name, bundle: result.bundle });
+    setSnapshotMenuOpen(false);
+  };
+
+  // Dataset ids change on import, so earlier block history no longer applies
+  const importWorkspace = (bundle: WorkspaceBundle, mode: 'merge' | 'replace', actions: Record<string, BundleConflictAction>) => {
+    setBlockHistory(emptyHistory());
+    if (mode === 'merge') {
+      const merged = mergeWorkspaceBundle({ datasets, manualBlocks, snapshots, userAirports, regions }, bundle, actions);
+      setDatasets(merged.datasets);
+      setManualBlocks(merged.manualBlocks);
+      setSnapshots(merged.snapshots);
+      setUserAirports(merged.userAirports);
+      updateRegions(merged.regions);
+      return;
+    }
+    const { settings } = bundle;
+    setActiveScenarioId(null);
+    setDatasets(bundle.datasets);
+    setManualBlocks(bundle.manualBlocks);
+    setSnapshots([...bundle.snapshots].sort((a, b) => b.timestamp - a.timestamp));
+    setUserAirports(bundle.userAirports);
+    setRegions(bundle.regions);
+    setMct(settings.mct ?? 1.5);
+    setMctRules(settings.mctRules ?? []);
+    setConnectivityMode(settings.connectivityMode ?? 'all');
+    setCarrierAgreements(settings.carrierAgreements ?? EMPTY_AGREEMENTS);
+    setMaxCircuity(settings.maxCircuity ?? null);
+    setMaxConnectionWindow(settings.maxConnectionWindow ?? 6);
+    setSelectedRegions(settings.selectedRegions ? restoreSelectedRegions(settings.selectedRegions, settings.knownRegions, bundle.regions) : getTopLevelRegions(bundle.regions).map(r => r.id));
+    setHiddenSubRegions(settings.hiddenSubRegions ?? []);
+    setMarketFilter(settings.marketFilter ?? MarketSegment.All);
+    setTimeDisplay(settings.timeDisplay ?? 'local');
+    setActiveAirportId(bundle.datasets[0]?.id ?? null);
+  };
+
+  const exportSchedule = (format: 'csv' | 'ssim') => {
+    if (!activeDataset) return;
+    const rows = buildEffectiveSchedule(activeDataset, manualBlocks[activeDataset.id]);
+    const baseName = `${activeDataset.code}_effective_${new Date().toISOString().slice(0, 10)}`;
+    if (format === 'csv') {
+      downloadFile(`${baseName}.csv`, exportScheduleCSV(activeDataset, rows), 'text/csv');
+    } else {
+      const { text, skipped } = exportScheduleSSIM(activeDataset, rows, airportIndex);
+      downloadFile(`${baseName}.ssim`, text, 'text/plain');
+      if (skipped > 0) alert(`${skipped} flight side(s) had no station or far-end time and were left out of the SSIM file.`);
+    }
+    setExportMenuOpen(false);
+  };
+
   const toggleFullscreen = () => {
     if (!document.fullscreenElement) {
       document.documentElement.requestFullscreen().catch(err => console.error(err));
@@ -166,111 +472,61 @@ const App: React.FC = () => {
     }
   };
 
-  /**
-   * syncReciprocalUpdate: ABSOLUTE HUB RECIPROCITY ENGINE
-   * 
-   * logic: 
-   * 1. Calculate the 'Total Delta' between the focal block's current time and its original CSV base time.
-   * 2. Find the target hub (Dataset) corresponding to the focal block's destination/origin.
-   * 3. Apply that same delta to the target flight's original CSV base time to get its new sync time.
-   * 4. Update the target hub's manual block list, replacing existing sync blocks if they exist.
-   */
-  const syncReciprocalUpdate = (newBlocks: any, sourceHubCode: string, focalBlock: FlightInfo, type: 'arr' | 'dep') => {
-    // 1. Identify Target Hub and Airline
-    const airportPart = focalBlock.code.split(' ')[0].toUpperCase();
-    const airline = focalBlock.airline || (focalBlock.code.split(' ').length > 1 ? focalBlock.code.split(' ')[1] : undefined);
-    
-    const targetDataset = datasets.find(d => d.code === airportPart);
-    if (!targetDataset) return; 
-
-    // 2. Calculate Absolute Delta from Anchor
-    if (!focalBlock.originalHubTime || !focalBlock.exactTime) return;
-    const absoluteDelta = getMins(focalBlock.exactTime) - getMins(focalBlock.originalHubTime);
-    
-    const reciprocalType = type === 'arr' ? 'dep' : 'arr';
-    
-    // 3. Extract all manual flights for target to avoid duplication/orphans
-    const currentTargetBlocks = newBlocks[targetDataset.id] || {};
-    const allManualFlights: { type: 'arr' | 'dep', flight: FlightInfo }[] = [];
-    Object.keys(currentTargetBlocks).forEach(k => {
-      const slot = currentTargetBlocks[parseInt(k)];
-      (slot.arrivals || []).forEach((f: any) => allManualFlights.push({ type: 'arr', flight: f }));
-      (slot.departures || []).forEach((f: any) => allManualFlights.push({ type: 'dep', flight: f }));
-    });
-
-    // Determine if we already have a manual block for this connection
-    const matchingFIDs: string[] = [];
-    allManualFlights.forEach(({ type: fType, flight: f }) => {
-      if (fType === reciprocalType) {
-        const isPortMatch = f.code.toUpperCase().startsWith(sourceHubCode);
-        const isAirlineMatch = !airline || f.airline === airline || f.code.toUpperCase().includes(airline.toUpperCase());
-        if (isPortMatch && isAirlineMatch) {
-          matchingFIDs.push(f.id!);
-        }
-      }
-    });
+  const linkContext: LinkContext = { datasets, regions, airports: airportIndex };
 
-    let updatedTargetBlocks: Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }> = {};
-
-    if (matchingFIDs.length > 0) {
-      // SCENARIO: Link exists. Update all existing ones using their own original anchors + source delta
-      allManualFlights.forEach(({ type: fType, flight: f }) => {
-        let finalF = { ...f };
-        if (matchingFIDs.includes(f.id!)) {
-          // Recalculate based on original anchor
-          const anchor = f.originalHubTime || f.exactTime || "00:00";
-          finalF.exactTime = minsToTime(getMins(anchor) + absoluteDelta);
-        }
-        
-        const hour = parseInt(finalF.exactTime!.split(':')[0]);
-        if (!updatedTargetBlocks[hour]) updatedTargetBlocks[hour] = { arrivals: [], departures: [] };
-        if (fType === 'arr') updatedTargetBlocks[hour].arrivals.push(finalF);
-        else updatedTargetBlocks[hour].departures.push(finalF);
-      });
-    } else {
-      // SCENARIO: No link. Create new from CSV data
-      const typeKey = reciprocalType === 'arr' ? 'arrival' : 'departure';
-      const matchInCSV = targetDataset.data.find(row => 
-        row[`${typeKey}Code`]?.toUpperCase() === sourceHubCode && 
-        (!airline || row[`${typeKey}Airline`]?.toUpperCase().includes(airline?.toUpperCase()))
-      );
-
-      // Carry over existing unrelated manual blocks
-      allManualFlights.forEach(({ type: fType, flight: f }) => {
-        const hour = parseInt(f.exactTime!.split(':')[0]);
-        if (!updatedTargetBlocks[hour]) updatedTargetBlocks[hour] = { arrivals: [], departures: [] };
-        if (fType === 'arr') updatedTargetBlocks[hour].arrivals.push(f);
-        else updatedTargetBlocks[hour].departures.push(f);
-      });
+  const linkLabel = (r: HubLinkRecord) => `${r.a.hub} ${r.a.flight.code} ⇄ ${r.a.flight.link?.hub}`;
+  const confirmHubLink = (r: HubLinkRecord) => {
+    if (!r.b) return;
+    commitBlocks(`Confirm link ${linkLabel(r)}`, prev => setLink(prev, datasets, { datasetId: r.a.datasetId, blockId: r.a.flight.id! }, { datasetId: r.b!.datasetId, blockId: r.b!.flight.id! }, true));
+  };
+  const breakHubLink = (r: HubLinkRecord) => commitBlocks(`Break link ${linkLabel(r)}`, prev => breakLink(prev, datasets, r.a.datasetId, r.a.flight.id!));
+  const createHubLink = (a: { datasetId: string, blockId: string }, b: { datasetId: string, blockId: string }) => {
+    const hub = datasets.find(d => d.id === b.datasetId)?.code;
+    commitBlocks(`Link block to ${hub}`, prev => setLink(prev, datasets, a, b, true));
+  };
 
-      if (matchInCSV) {
-        const anchorTime = matchInCSV.hub_time;
-        const newSyncTime = minsToTime(getMins(anchorTime) + absoluteDelta);
-        const newHour = parseInt(newSyncTime.split(':')[0]);
-        
-        const syncFlight: FlightInfo = {
-          id: Math.random().toString(36).substr(2, 9),
-          code: `${sourceHubCode}${airline ? ' ' + airline : ''} SYNC`,
-          airline: airline,
-          freq: focalBlock.freq,
-          region: AIRPORT_REGIONS[sourceHubCode] || Region.Unknown,
-          isManual: true,
-          exactTime: newSyncTime,
-          originalHubTime: anchorTime // Seal the anchor for Hub B
-        };
-
-        if (!updatedTargetBlocks[newHour]) updatedTargetBlocks[newHour] = { arrivals: [], departures: [] };
-        if (reciprocalType === 'arr') updatedTargetBlocks[newHour].arrivals.push(syncFlight);
-        else updatedTargetBlocks[newHour].departures.push(syncFlight);
-      }
-    }
+  /**
+   * commitBlocks: Applies a manual block change and records it for undo. With `reciprocal`, other
+   * hubs rewritten by syncLinkedBlocks are named in the label.
+   */
+  const commitBlocks = (label: string, update: (prev: ManualBlocks) => ManualBlocks, reciprocal = false) => {
+    const before = manualBlocksRef.current;
+    const after = update(before);
+    const synced = reciprocal ? datasets.filter(d =>
+      d.id !== activeDataset?.id && before[d.id] !== after[d.id] && JSON.stringify(before[d.id] || {}) !== JSON.stringify(after[d.id] || {})
+    ).map(d => d.code) : [];
+    manualBlocksRef.current = after;
+    setManualBlocks(after);
+    setBlockHistory(h => pushHistory(h, synced.length > 0 ? `${label} · sync ${synced.join(', ')}` : label, before, after));
+  };
 
-    newBlocks[targetDataset.id] = updatedTargetBlocks;
+  const travelBlocks = (steps: number) => {
+    const result = travelHistory(blockHistory, steps);
+    if (!result) return;
+    manualBlocksRef.current = result.state;
+    setManualBlocks(result.state);
+    setBlockHistory(result.history);
   };
 
+  // Ctrl+Z undoes and Ctrl+Shift+Z redoes block edits, unless a form field has focus
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      e.preventDefault();
+      travelBlocks(e.shiftKey ? 1 : -1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [blockHistory]);
+
   const handleManualDrop = (slotIndex: number, type: 'arr' | 'dep', block: FlightInfo, fromSlot?: number) => {
     if (!activeDataset) return;
-    setManualBlocks(prev => {
+    const time = block.exactTime || `${slotIndex.toString().padStart(2, '0')}:00`;
+    const label = block.code === 'NEW' ? `Add ${type === 'arr' ? 'arrival' : 'departure'} block at ${time}`
+      : block.isManual ? `Move ${block.code} to ${time}` : `Retime ${block.code} to ${time}`;
+    commitBlocks(label, prev => {
       const newBlocks = { ...prev };
       const airportBlocks = { ...(newBlocks[activeDataset.id] || {}) };
       
@@ -284,15 +540,16 @@ const App: React.FC = () => {
       if (!block.isManual) {
         const autoMatch = activeDataset.data.find(row => 
           row[`${typeKey}Code`]?.toUpperCase() === airportCode && 
-          (!airline || row[`${typeKey}Airline`]?.toUpperCase().includes(airline?.toUpperCase()))
+          (!airline || row[`${typeKey}Airline`]?.toUpperCase().includes(airline?.toUpperCase())) &&
+          (!block.flightNo || row[`${typeKey}FlightNo`] === block.flightNo)
         );
         originalAnchor = autoMatch ? autoMatch.hub_time : `${(fromSlot ?? slotIndex).toString().padStart(2, '0')}:00`;
       }
       
       // Remove from old slot
       if (block.isManual && fromSlot !== undefined && airportBlocks[fromSlot]) {
-        if (type === 'arr') airportBlocks[fromSlot].arrivals = (airportBlocks[fromSlot].arrivals || []).filter(b => b.id !== block.id);
-        else airportBlocks[fromSlot].departures = (airportBlocks[fromSlot].departures || []).filter(b => b.id !== block.id);
+        if (type === 'arr') airportBlocks[fromSlot] = { ...airportBlocks[fromSlot], arrivals: (airportBlocks[fromSlot].arrivals || []).filter(b => b.id !== block.id) };
+        else airportBlocks[fromSlot] = { ...airportBlocks[fromSlot], departures: (airportBlocks[fromSlot].departures || []).filter(b => b.id !== block.id) };
       }
 
       const targetHour = block.exactTime ? parseInt(block.exactTime.split(':')[0]) : slotIndex;
@@ -328,21 +585,19 @@ const App: React.FC = () => {
         originalHubTime: originalAnchor // Persistent Anchor
       };
 
-      if (type === 'arr') airportBlocks[safeSlot].arrivals = [...(airportBlocks[safeSlot].arrivals || []), newBlock];
-      else airportBlocks[safeSlot].departures = [...(airportBlocks[safeSlot].departures || []), newBlock];
+      if (type === 'arr') airportBlocks[safeSlot] = { ...airportBlocks[safeSlot], arrivals: [...(airportBlocks[safeSlot].arrivals || []), newBlock] };
+      else airportBlocks[safeSlot] = { ...airportBlocks[safeSlot], departures: [...(airportBlocks[safeSlot].departures || []), newBlock] };
       
       newBlocks[activeDataset.id] = airportBlocks;
       
-      // Propagate change to reciprocal hub
-      syncReciprocalUpdate(newBlocks, activeDataset.code, newBlock, type);
-      
-      return newBlocks;
-    });
+      // Propagate change to the linked flight at the other hub
+      return syncLinkedBlocks(newBlocks, activeDataset, newBlock, type, linkContext);
+    }, true);
   };
 
   const updateManualFlight = (slotIndex: number, type: 'arr' | 'dep', updatedFlight: FlightInfo) => {
     if (!activeDataset) return;
-    setManualBlocks(prev => {
+    commitBlocks(`Edit ${updatedFlight.code}${updatedFlight.exactTime ? ` at ${updatedFlight.exactTime}` : ''}`, prev => {
       const newBlocks = { ...prev };
       const airportBlocks = { ...(newBlocks[activeDataset.id] || {}) };
       
@@ -361,31 +616,32 @@ const App: React.FC = () => {
       }
 
       if (airportBlocks[slotIndex]) {
-        if (type === 'arr') airportBlocks[slotIndex].arrivals = (airportBlocks[slotIndex].arrivals || []).filter(f => f.id !== finalUpdated.id);
-        else airportBlocks[slotIndex].departures = (airportBlocks[slotIndex].departures || []).filter(f => f.id !== finalUpdated.id);
+        if (type === 'arr') airportBlocks[slotIndex] = { ...airportBlocks[slotIndex], arrivals: (airportBlocks[slotIndex].arrivals || []).filter(f => f.id !== finalUpdated.id) };
+        else airportBlocks[slotIndex] = { ...airportBlocks[slotIndex], departures: (airportBlocks[slotIndex].departures || []).filter(f => f.id !== finalUpdated.id) };
       }
 
       if (!airportBlocks[targetSlot]) airportBlocks[targetSlot] = { arrivals: [], departures: [] };
-      if (type === 'arr') airportBlocks[targetSlot].arrivals = [...(airportBlocks[targetSlot].arrivals || []), finalUpdated];
-      else airportBlocks[targetSlot].departures = [...(airportBlocks[targetSlot].departures || []), finalUpdated];
+      if (type === 'arr') airportBlocks[targetSlot] = { ...airportBlocks[targetSlot], arrivals: [...(airportBlocks[targetSlot].arrivals || []), finalUpdated] };
+      else airportBlocks[targetSlot] = { ...airportBlocks[targetSlot], departures: [...(airportBlocks[targetSlot].departures || []), finalUpdated] };
 
       newBlocks[activeDataset.id] = airportBlocks;
       
       // Bidirectional Push
-      syncReciprocalUpdate(newBlocks, activeDataset.code, finalUpdated, type);
-      
-      return newBlocks;
-    });
+      return syncLinkedBlocks(newBlocks, activeDataset, finalUpdated, type, linkContext);
+    }, true);
   };
 
   const handleTrashDrop = (blockId: string, fromSlot: number, type: 'arr' | 'dep') => {
     if (!activeDataset) return;
-    setManualBlocks(prev => {
-      const newBlocks = { ...prev };
+    const slot = manualBlocksRef.current[activeDataset.id]?.[fromSlot];
+    const trashed = (type === 'arr' ? slot?.arrivals : slot?.departures)?.find(b => b.id === blockId);
+    commitBlocks(`Delete ${trashed?.code || 'block'}`, prev => {
+      // The counterpart stays, unlinked
+      const newBlocks = breakLink(prev, datasets, activeDataset.id, blockId);
       const airportBlocks = { ...(newBlocks[activeDataset.id] || {}) };
       if (airportBlocks[fromSlot]) {
-        if (type === 'arr') airportBlocks[fromSlot].arrivals = (airportBlocks[fromSlot].arrivals || []).filter(b => b.id !== blockId);
-        else airportBlocks[fromSlot].departures = (airportBlocks[fromSlot].departures || []).filter(b => b.id !== blockId);
+        if (type === 'arr') airportBlocks[fromSlot] = { ...airportBlocks[fromSlot], arrivals: (airportBlocks[fromSlot].arrivals || []).filter(b => b.id !== blockId) };
+        else airportBlocks[fromSlot] = { ...airportBlocks[fromSlot], departures: (airportBlocks[fromSlot].departures || []).filter(b => b.id !== blockId) };
       }
       newBlocks[activeDataset.id] = airportBlocks;
       return newBlocks;
@@ -393,61 +649,54 @@ const App: React.FC = () => {
     setIsDraggingOverTrash(false);
   };
 
+  const displayDate = selectedWeek || todayISO();
+
+  // Hub offset for the displayed date; falls back to offsets stored on SSIM/UTC-imported rows
+  const hubLocalOffset = useMemo(() => {
+    if (!activeDataset) return null;
+    const zoneOffset = getAirportUtcOffset(activeDataset.code, displayDate, airportIndex);
+    if (zoneOffset !== null) return zoneOffset;
+    const stored = activeDataset.data.find((r: any) => typeof r.hubUtcOffset === 'number');
+    return stored ? stored.hubUtcOffset as number : null;
+  }, [activeDataset, displayDate, airportIndex]);
+
+  // Minutes added to a displayed time to get the stored hub-local time
+  const hubDisplayOffset = timeDisplay === 'utc' ? (hubLocalOffset ?? 0) : 0;
+
+  const findStoredSlot = (id: string | undefined, type: 'arr' | 'dep') => {
+    if (!activeDataset || !id) return undefined;
+    const slots = manualBlocks[activeDataset.id] || {};
+    const key = Object.keys(slots).find(k => ((type === 'arr' ? slots[parseInt(k)].arrivals : slots[parseInt(k)].departures) || []).some(f => f.id === id));
+    return key === undefined ? undefined : parseInt(key);
+  };
+
+  const toStoredSlot = (displaySlot: number) => parseInt(shiftClock(`${displaySlot.toString().padStart(2, '0')}:00`, hubDisplayOffset).time);
+
+  // Chart callbacks arrive in display time; manual blocks are always stored in hub-local time
+  const handleChartDrop = (slotIndex: number, type: 'arr' | 'dep', block: FlightInfo, fromSlot?: number) => {
+    if (!hubDisplayOffset) return handleManualDrop(slotIndex, type, block, fromSlot);
+    const stored = shiftFlightClock(block, hubDisplayOffset);
+    const storedFrom = fromSlot === undefined ? undefined : (block.isManual ? findStoredSlot(block.id, type) : undefined) ?? toStoredSlot(fromSlot);
+    handleManualDrop(toStoredSlot(slotIndex), type, stored, storedFrom);
+  };
+
+  const handleChartUpdate = (slotIndex: number, type: 'arr' | 'dep', flight: FlightInfo) => {
+    if (!hubDisplayOffset) return updateManualFlight(slotIndex, type, flight);
+    updateManualFlight(findStoredSlot(flight.id, type) ?? toStoredSlot(slotIndex), type, shiftFlightClock(flight, hubDisplayOffset));
+  };
+
   const processedHubData = useMemo(() => {
     if (!activeDataset) return [];
-    const slots: HubSlot[] = TIME_SLOTS.map(time => ({ label: time, arrivals: [], departures: [] }));
-    const aggregation: Record<number, { arrivals: any, departures: any }> = {};
-    TIME_SLOTS.forEach((_, i) => aggregation[i] = { arrivals: {}, departures: {} });
-
-    activeDataset.data.forEach((row: any) => {
-      if (!row.hub_time || !row.hub_time.includes(':')) return;
-      const slotIndex = parseInt(row.hub_time.split(':')[0]);
-      if (isNaN(slotIndex) || slotIndex < 0 || slotIndex > 23) return;
-
-      const processDirection = (dir: 'arrival' | 'departure') => {
-        const prefix = dir === 'arrival' ? 'arrival' : 'departure';
-        const code = row[`${prefix}Code`]?.toUpperCase();
-        if (!code || code.length < 3) return;
-        const region = AIRPORT_REGIONS[code] || Region.Unknown;
-        const airline = row[`${prefix}Airline`];
-        const market = INDIAN_AIRPORTS.has(code) ? MarketSegment.Domestic : MarketSegment.International;
-        
-        const passesRegion = selectedRegions.includes(region) || (alwaysFocusBLR && code === activeDataset.code);
-        const passesAirline = !!airline && (selectedAirlines.length === 0 || selectedAirlines.includes(airline));
-        const passesMarket = marketFilter === MarketSegment.All || market === marketFilter;
-        
-        if (passesRegion && passesAirline && passesMarket) {
-          const key = `${code}-${row.hub_time}-${row[`${prefix}FlightNo`] || 'XX'}`;
-          const target = aggregation[slotIndex][`${prefix}s`];
-          if (!target[key]) {
-            target[key] = { freq: 0, seats: 0, pax: 0, airline, flightNo: row[`${prefix}FlightNo`], exactTime: row.hub_time, id: Math.random().toString(36).substr(2, 9) };
-          }
-          target[key].freq += (row[`${prefix}Freq`] || 0);
-          target[key].seats += (row[`${prefix}Seats`] || 0);
-          target[key].pax += (row[`${prefix}Pax`] || 0);
-        }
-      };
-      processDirection('arrival');
-      processDirection('departure');
+    return buildHubBank(activeDataset, manualBlocks[activeDataset.id], {
+      regions, airports: airportIndex, homeCountry, focusCode: hubProfile?.focusCode,
+      selectedRegions, hiddenSubRegions, selectedAirlines, marketFilter, alwaysShowFocus,
+      selectedDay, selectedWeek, timeDisplay, displayOffset: hubDisplayOffset, displayDate
     });
+  }, [activeDataset, selectedRegions, hiddenSubRegions, regions, selectedAirlines, marketFilter, alwaysShowFocus, manualBlocks, selectedDay, selectedWeek, timeDisplay, hubDisplayOffset, displayDate, airportIndex, homeCountry, hubProfile]);
 
-    Object.keys(aggregation).forEach((key) => {
-      const idx = parseInt(key);
-      const manual = (manualBlocks[activeDataset.id] || {})[idx] || { arrivals: [], departures: [] };
-      
-      const mapEntries = (obj: any) => Object.entries(obj).map(([keyStr, val]: [string, any]) => {
-        const code = keyStr.split('-')[0];
-        return {
-          code, freq: val.freq, seats: val.seats, pax: val.pax, region: AIRPORT_REGIONS[code] || Region.Unknown, 
-          airline: val.airline, flightNo: val.flightNo, exactTime: val.exactTime, id: val.id, isManual: false
-        } as FlightInfo;
-      });
-
-      slots[idx].arrivals = [...mapEntries(aggregation[idx].arrivals), ...manual.arrivals];
-      slots[idx].departures = [...mapEntries(aggregation[idx].departures), ...manual.departures];
-    });
-    return slots;
-  }, [activeDataset, selectedRegions, selectedAirlines, marketFilter, alwaysFocusBLR, manualBlocks]);
+  const matrixOptions: ConnectivityOptions = useMemo(() => ({
+    mct, mctRules, hubCode: activeDataset?.code, connectivityMode, carrierAgreements, maxCircuity, maxConnectionWindow, selectedDay, homeCountry, airports: airportIndex
+  }), [mct, mctRules, activeDataset, connectivityMode, carrierAgreements, maxCircuity, maxConnectionWindow, selectedDay, homeCountry, airportIndex]);
 
   const uniqueAirlinesFound = useMemo(() => {
     if (!activeDataset) return [];
@@ -464,55 +713,31 @@ const App: React.FC = () => {
     setSelectedAirlines(prev => prev.includes(airline) ? prev.filter(a => a !== airline) : [...prev, airline]);
   };
 
-  const parseCSVData = (text: string): any[] => {
-    const rows = text.split('\n').filter(row => row.trim().length > 0);
-    if (rows.length < 2) return [];
-    const headers = rows[0].split(',').map(h => h.trim().toLowerCase());
-    
-    const findIdx = (keywords: string[]) => {
-      let idx = headers.findIndex(h => keywords.some(k => h === k.toLowerCase()));
-      if (idx !== -1) return idx;
-      return headers.findIndex(h => keywords.some(k => h.includes(k.toLowerCase())));
-    };
-    
-    const seatIndices = headers.reduce((acc: number[], h, i) => h.includes('seats') ? [...acc, i] : acc, []);
-    const arrSeatsIdx = seatIndices.length > 1 ? seatIndices[0] : (seatIndices[0] || -1);
-    const depSeatsIdx = seatIndices.length > 1 ? seatIndices[1] : -1;
-
-    const paxIndices = headers.reduce((acc: number[], h, i) => h.includes('pax') ? [...acc, i] : acc, []);
-    const arrPaxIdx = paxIndices.length > 1 ? paxIndices[0] : (paxIndices[0] || -1);
-    const depPaxIdx = paxIndices.length > 1 ? paxIndices[1] : -1;
-
-    const headerMap = {
-      airline: headers.findIndex(h => h.includes('airline')),
-      origin: findIdx(['origin', 'origin airport', 'from']),
-      depTime: headers.findIndex(h => h.includes('departure time')),
-      hubTime: headers.findIndex(h => h.includes('hub time')),
-      arrTime: headers.findIndex(h => h.includes('arrival time')),
-      arrival: findIdx(['arrival', 'arrival airport', 'destination', 'to']),
-    };
+  const hubCodeFromFileName = (fileName: string) => {
+    const match = fileName.toUpperCase().match(/[A-Z]{3}/);
+    return match ? match[0] : "UNK";
+  };
 
-    return rows.slice(1).map(row => {
-      const cols = row.split(',').map(c => c.trim());
-      return {
-        arrivalAirline: cols[headerMap.airline] || "",
-        arrivalFlightNo: cols[1] || "", 
-        arrivalCode: cols[headerMap.origin] || "",
-        arrivalFreq: (cols[3]?.match(/[1-7]/g) || []).length,
-        arrivalSeats: parseInt(cols[arrSeatsIdx]) || 0,
-        arrivalPax: parseInt(cols[arrPaxIdx]) || 0,
-        arrivalTime: cols[headerMap.depTime] || "",
-        hub_time: cols[headerMap.hubTime] || "",
-        departureCode: cols[headerMap.arrival] || "", 
-        departureTime: cols[headerMap.arrTime] || "",
-        departureFreq: (cols[13]?.match(/[1-7]/g) || []).length,
-        departureSeats: parseInt(cols[depSeatsIdx]) || 0,
-        departurePax: parseInt(cols[depPaxIdx]) || 0,
-        departureFlightNo: cols[cols.length - 2] || "", 
-        departureAirline: cols[16] || cols[cols.length - 1] || "",
-        _raw: cols 
-      };
-    }).filter(r => !!r.hub_time);
+  const ingestRecords = (fileName: string, records: CSVRecord[], mapping: ColumnMapping, code: string, timeMode: TimeMode = 'local') => {
+    const parsed = parseCSVData(records, mapping, fileName, airportIndex);
+    let rows = parsed.rows;
+    const report: ImportReport = { ...parsed.report, timeMode };
+    if (timeMode === 'utc') {
+      const localized = localizeUtcRows(rows, code, airportIndex);
+      rows = localized.rows;
+      report.missingTimeZones = localized.missingZones;
+    }
+    const dataset: AirportDataset | null = rows.length > 0 ? {
+      id: Math.random().toString(36).substr(2, 9),
+      code,
+      fileName,
+      data: rows,
+      source: 'csv',
+      sourceHeaders: records[0]?.fields,
+      columnMapping: mapping,
+      timeMode
+    } : null;
+    return { dataset, report };
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -521,23 +746,57 @@ const App: React.FC = () => {
     setLoading(true);
     
     const newDatasets: AirportDataset[] = [];
+    const reports: ImportReport[] = [];
+    const unmapped: PendingImport[] = [];
+    const ssimFiles: PendingSsimImport[] = [];
     for (const file of files) {
       const text = await file.text();
-      const parsed = parseCSVData(text);
-      if (parsed.length > 0) {
-        const match = file.name.toUpperCase().match(/[A-Z]{3}/);
-        const code = match ? match[0] : "UNK";
-        newDatasets.push({
-          id: Math.random().toString(36).substr(2, 9),
-          code,
-          fileName: file.name,
-          data: parsed
-        });
+      if (isSsimFile(text)) {
+        ssimFiles.push({ fileName: file.name, schedule: parseSsim(text) });
+        continue;
+      }
+      const records = parseCSV(text);
+      const profile = records.length > 0 ? findMatchingProfile(records[0].fields, mappingProfiles) : null;
+      if (!profile && countDataRows(records) > 0) {
+        unmapped.push({ fileName: file.name, records });
+        continue;
       }
+      const { dataset, report } = ingestRecords(file.name, records, profile?.mapping || {}, hubCodeFromFileName(file.name), profile?.timeMode);
+      reports.push(report);
+      if (dataset) newDatasets.push(dataset);
     }
     
     setDatasets(prev => [...prev, ...newDatasets]);
+    setImportReports(reports);
+    setPendingImports(unmapped);
+    setPendingSsimImports(ssimFiles);
     setLoading(false);
+    e.target.value = '';
+  };
+
+  const confirmPendingImport = ({ mapping, hubCode, timeMode, profileName }: { mapping: ColumnMapping, hubCode: string, timeMode: TimeMode, profileName?: string }) => {
+    const pending = pendingImports[0];
+    if (!pending) return;
+    const { dataset, report } = ingestRecords(pending.fileName, pending.records, mapping, hubCode, timeMode);
+    if (profileName) {
+      const headers = normalizeHeaders(pending.records[0].fields);
+      setMappingProfiles(prev => [
+        { id: Math.random().toString(36).substr(2, 9), name: profileName, headers, mapping, timeMode },
+        ...prev.filter(p => p.headers.join('|') !== headers.join('|'))
+      ]);
+    }
+    if (dataset) setDatasets(prev => [...prev, dataset]);
+    setImportReports(prev => [...prev, report]);
+    setPendingImports(prev => prev.slice(1));
+  };
+
+  const confirmSsimImport = (hubCode: string) => {
+    const pending = pendingSsimImports[0];
+    if (!pending) return;
+    const { dataset, report } = buildSsimHubDataset(pending.schedule, hubCode, pending.fileName, airportIndex);
+    if (dataset) setDatasets(prev => [...prev, dataset]);
+    setImportReports(prev => [...prev, report]);
+    setPendingSsimImports(prev => prev.slice(1));
   };
 
   const removeDataset = (id: string, e: React.MouseEvent) => {
@@ -545,8 +804,132 @@ const App: React.FC = () => {
     setDatasets(prev => prev.filter(d => d.id !== id));
   };
 
+  const rebasingScenario = snapshots.find(s => s.id === rebaseSourceId);
+  const captureParent = snapshots.find(s => s.id === activeScenarioId);
+
   return (
     <div ref={appRef} className="flex flex-col h-screen overflow-hidden bg-slate-50">
+      {pendingImports.length > 0 && (
+        <ColumnMappingModal
+          key={pendingImports[0].fileName}
+          fileName={pendingImports[0].fileName}
+          headers={pendingImports[0].records[0].fields}
+          sampleRows={pendingImports[0].records.slice(1, 4).map(r => r.fields)}
+          initialMapping={guessColumnMapping(pendingImports[0].records[0].fields)}
+          initialHubCode={hubCodeFromFileName(pendingImports[0].fileName)}
+          profiles={mappingProfiles}
+          queueLength={pendingImports.length}
+          onConfirm={confirmPendingImport}
+          onSkip={() => setPendingImports(prev => prev.slice(1))}
+        />
+      )}
+      {pendingImports.length === 0 && pendingSsimImports.length > 0 && (
+        <SsimImportModal
+          key={pendingSsimImports[0].fileName}
+          fileName={pendingSsimImports[0].fileName}
+          schedule={pendingSsimImports[0].schedule}
+          suggestedHub={hubCodeFromFileName(pendingSsimImports[0].fileName)}
+          onConfirm={confirmSsimImport}
+          onSkip={() => setPendingSsimImports(prev => prev.slice(1))}
+        />
+      )}
+      {seasonTimelineOpen && activeDataset && (
+        <SeasonTimeline
+          dataset={activeDataset}
+          selectedWeek={selectedWeek}
+          onSelectWeek={week => { setSelectedWeek(week); setSeasonTimelineOpen(false); }}
+          onClose={() => setSeasonTimelineOpen(false)}
+        />
+      )}
+      {unresolvedOpen && (
+        <UnresolvedAirportsPanel
+          unresolved={unresolvedAirports}
+          homeCountries={hubCountries}
+          onResolve={resolveAirports}
+          onOpenEditor={openAirportEditor}
+          onClose={() => setUnresolvedOpen(false)}
+        />
+      )}
+      {hubSettingsOpen && activeDataset && (
+        <HubSettingsModal
+          dataset={activeDataset}
+          airports={airportIndex}
+          onSave={patch => setDatasets(prev => prev.map(d => d.id === activeDataset.id ? { ...d, ...patch } : d))}
+          onClose={() => setHubSettingsOpen(false)}
+        />
+      )}
+      {diffLive && (
+        <ScenarioDiffModal
+          snapshots={snapshots}
+          live={diffLive}
+          datasets={datasets}
+          regions={regions}
+          airports={airportIndex}
+          onClose={() => setDiffLive(null)}
+        />
+      )}
+      {linksOpen && activeDataset && (
+        <HubLinksModal
+          manualBlocks={manualBlocks}
+          datasets={datasets}
+          activeDataset={activeDataset}
+          onConfirm={confirmHubLink}
+          onBreak={breakHubLink}
+          onLink={createHubLink}
+          onClose={() => setLinksOpen(false)}
+        />
+      )}
+      {mctRulesOpen && (
+        <MctRulesModal
+          rules={mctRules}
+          defaultMct={mct}
+          hubCodes={datasets.map(d => d.code)}
+          onChange={setMctRules}
+          onClose={() => setMctRulesOpen(false)}
+        />
+      )}
+      {agreementsOpen && (
+        <CarrierAgreementsModal
+          agreements={carrierAgreements}
+          onChange={setCarrierAgreements}
+          onClose={() => setAgreementsOpen(false)}
+        />
+      )}
+      {itineraryOpen && (
+        <ItinerarySearchModal
+          datasets={datasets}
+          manualBlocks={manualBlocks}
+          options={{ mct, mctRules, maxConnectionWindow, connectivityMode, carrierAgreements, maxCircuity, airports: airportIndex, week: startOfWeek(displayDate) }}
+          initialDay={selectedDay}
+          onClose={() => setItineraryOpen(false)}
+        />
+      )}
+      {pendingRestore && (
+        <SnapshotRestoreModal
+          snapshot={pendingRestore.snapshot}
+          check={pendingRestore.check}
+          onRestore={dropOrphans => applySnapshot(pendingRestore.snapshot, dropOrphans ? dropOrphanedBlocks(pendingRestore.check, datasets) : pendingRestore.check.manualBlocks)}
+          onClose={() => setPendingRestore(null)}
+        />
+      )}
+      {pendingBundle && (
+        <WorkspaceImportModal
+          fileName={pendingBundle.fileName}
+          bundle={pendingBundle.bundle}
+          datasets={datasets}
+          onImport={(mode, actions) => importWorkspace(pendingBundle.bundle, mode, actions)}
+          onClose={() => setPendingBundle(null)}
+        />
+      )}
+      {regionManagerOpen && (
+        <RegionManagerModal
+          regions={regions}
+          onChange={updateRegions}
+          onClose={() => setRegionManagerOpen(false)}
+        />
+      )}
+      {airportDbOpen && <AirportDatabaseModal key={airportDbCode || ''} userAirports={userAirports} initialCode={airportDbCode} onChange={setUserAirports} onClose={() => setAirportDbOpen(false)} />}
+      {pendingImports.length === 0 && pendingSsimImports.length === 0 && importReports.length > 0 && <ImportReportPanel reports={importReports} onClose={() => setImportReports([])} />}
       <header className="bg-white border-b border-slate-200 px-6 py-2 flex items-center justify-between shrink-0">
         <div className="flex items-center gap-3">
           <div className="w-8 h-8 bg-[#006a4e] rounded-lg flex items-center justify-center text-white shadow-md">
@@ -558,7 +941,7 @@ const App: React.FC = () => {
           </div>
         </div>
         
-        {activeTab === 'hub' && activeDataset && (
+        {(activeTab === 'hub' || activeTab === 'matrix') && activeDataset && (
           <div className="flex items-center gap-4 bg-slate-900 px-3 py-1.5 rounded-xl border border-slate-700 shadow-xl">
               <span className="text-[8px] font-black text-slate-500 uppercase tracking-widest">MCT Simulator</span>
               <div className="flex items-center gap-2">
@@ -569,47 +952,148 @@ const App: React.FC = () => {
               </div>
               <div className="h-4 w-px bg-slate-700"></div>
               <div className="flex flex-col gap-0.5 min-w-[100px]">
-                <div className="flex justify-between items-center text-[7px] font-black text-slate-400 uppercase"><span>MCT Offset: {mct}h</span></div>
+                <div className="flex justify-between items-center text-[7px] font-black text-slate-400 uppercase">
+                  <span>MCT Offset: {mct}h</span>
+                  <button onClick={() => setMctRulesOpen(true)} title="MCT rules by connection status, carrier and terminal" className="text-[#00ff9d] hover:underline uppercase">Rules ({mctRules.length})</button>
+                </div>
                 <input type="range" min="0" max="6" step="0.25" value={mct} onChange={(e) => setMct(parseFloat(e.target.value))} className="w-full accent-[#00ff9d] h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
               </div>
               <div className="flex flex-col gap-0.5 min-w-[100px]">
                 <div className="flex justify-between items-center text-[7px] font-black text-slate-400 uppercase"><span>Window: {maxConnectionWindow}h</span></div>
                 <input type="range" min="1" max="12" step="0.5" value={maxConnectionWindow} onChange={(e) => setMaxConnectionWindow(parseFloat(e.target.value))} className="w-full accent-[#6366f1] h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer" />
               </div>
+              <div className="flex flex-col gap-0.5">
+                <div className="flex justify-between items-center gap-2 text-[7px] font-black text-slate-400 uppercase">
+                  <span>Eligibility</span>
+                  <button onClick={() => setAgreementsOpen(true)} title="Alliances and interline partners" className="text-[#00ff9d] hover:underline uppercase">Agreements</button>
+                </div>
+                <select value={connectivityMode} onChange={(e) => setConnectivityMode(e.target.value as ConnectivityMode)} className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[9px] font-black text-white uppercase cursor-pointer">
+                  {CONNECTIVITY_MODES.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+              </div>
+              <div className="flex flex-col gap-0.5">
+                <div className="text-[7px] font-black text-slate-400 uppercase" title="Routed distance via the hub over the direct distance">Circuity</div>
+                <select value={maxCircuity ?? ''} onChange={(e) => setMaxCircuity(e.target.value ? parseFloat(e.target.value) : null)} className="bg-slate-800 border border-slate-600 rounded px-1 py-0.5 text-[9px] font-black text-white uppercase cursor-pointer">
+                  <option value="">No Limit</option>
+                  {CIRCUITY_LIMITS.map(limit => <option key={limit} value={limit}>≤ {limit}×</option>)}
+                </select>
+              </div>
               <div onDragOver={(e) => { e.preventDefault(); setIsDraggingOverTrash(true); }} onDragLeave={() => setIsDraggingOverTrash(false)} onDrop={(e) => {
                    const blockId = e.dataTransfer.getData('blockId');
                    const fromSlot = parseInt(e.dataTransfer.getData('fromSlot'));
                    const type = e.dataTransfer.getData('type') as 'arr' | 'dep';
-                   if (blockId && !isNaN(fromSlot)) handleTrashDrop(blockId, fromSlot, type);
+                   if (blockId && !isNaN(fromSlot)) handleTrashDrop(blockId, findStoredSlot(blockId, type) ?? fromSlot, type);
                  }}
                  className={`flex items-center justify-center w-7 h-7 rounded border transition-all ${isDraggingOverTrash ? 'bg-red-500 border-red-400 text-white scale-110' : 'bg-slate-800 border-slate-600 text-slate-500'}`}><i className="fas fa-trash text-[10px]"></i></div>
+              <div className="relative flex items-center gap-1" ref={historyRef}>
+                <button onClick={() => travelBlocks(-1)} disabled={blockHistory.past.length === 0} title={blockHistory.past.length > 0 ? `Undo: ${blockHistory.past[blockHistory.past.length - 1].label}` : 'Nothing to undo'}
+                  className="flex items-center justify-center w-7 h-7 rounded border bg-slate-800 border-slate-600 text-slate-400 hover:text-white disabled:opacity-30 disabled:hover:text-slate-400"><i className="fas fa-undo text-[10px]"></i></button>
+                <button onClick={() => travelBlocks(1)} disabled={blockHistory.future.length === 0} title={blockHistory.future.length > 0 ? `Redo: ${blockHistory.future[0].label}` : 'Nothing to redo'}
+                  className="flex items-center justify-center w-7 h-7 rounded border bg-slate-800 border-slate-600 text-slate-400 hover:text-white disabled:opacity-30 disabled:hover:text-slate-400"><i className="fas fa-redo text-[10px]"></i></button>
+                <button onClick={() => setHistoryOpen(!historyOpen)} title="Edit history"
+                  className={`flex items-center justify-center w-7 h-7 rounded border transition-all ${historyOpen ? 'bg-indigo-600 border-indigo-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400 hover:text-white'}`}><i className="fas fa-history text-[10px]"></i></button>
+                {historyOpen && <BlockHistoryPanel history={blockHistory} onTravel={travelBlocks} />}
+              </div>
+              <button onClick={() => setLinksOpen(true)} title="Cross-hub links"
+                className="flex items-center justify-center w-7 h-7 rounded border bg-slate-800 border-slate-600 text-slate-400 hover:text-white"><i className="fas fa-link text-[10px]"></i></button>
           </div>
         )}
 
         <div className="flex items-center gap-3">
+          {activeDataset && (
+            <div className="relative" ref={exportRef}>
+              <button onClick={() => setExportMenuOpen(!exportMenuOpen)} className="flex items-center gap-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded-lg shadow-sm">
+                <i className="fas fa-file-export text-xs text-[#006a4e]"></i><span className="text-[10px] font-black uppercase tracking-wider">Export</span>
+              </button>
+              {exportMenuOpen && (
+                <div className="absolute top-full right-0 w-60 mt-2 bg-white border border-slate-200 rounded-xl shadow-2xl z-[200] overflow-hidden">
+                  <div className="px-3 py-2 bg-slate-50 border-b border-slate-200 text-[8px] font-black text-slate-400 uppercase tracking-widest">{activeDataset.code} Effective Schedule</div>
+                  <button onClick={() => exportSchedule('csv')} className="w-full text-left px-3 py-2 hover:bg-slate-50 flex items-center gap-2 text-[10px] font-black text-slate-700 uppercase">
+                    <i className="fas fa-file-csv text-[#006a4e]"></i>CSV (import layout)
+                  </button>
+                  <button onClick={() => exportSchedule('ssim')} className="w-full text-left px-3 py-2 hover:bg-slate-50 flex items-center gap-2 text-[10px] font-black text-slate-700 uppercase">
+                    <i className="fas fa-file-lines text-indigo-500"></i>IATA SSIM
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+          {(storageUsage || storageError) && (
+            <div title={storageError || (storageUsage && storageUsage.quota ? `${formatBytes(storageUsage.usage)} of ${formatBytes(storageUsage.quota)} browser storage used` : undefined)}
+              className={`flex items-center gap-1.5 px-2 py-1 rounded-lg text-[8px] font-black uppercase tracking-wider ${storageError ? 'bg-red-50 text-red-500' : 'text-slate-400'}`}>
+              <i className={`fas ${storageError ? 'fa-triangle-exclamation' : 'fa-database'} text-[9px]`}></i>
+              {storageError ? 'Not Saved' : storageUsage && formatBytes(storageUsage.usage)}
+              {!storageError && storageUsage && storageUsage.quota > 0 && (
+                <div className="w-10 h-1 bg-slate-200 rounded-full overflow-hidden">
+                  <div className={`h-full ${storageUsage.usage / storageUsage.quota > 0.8 ? 'bg-red-500' : 'bg-[#006a4e]'}`} style={{ width: `${Math.max(2, Math.min(100, (storageUsage.usage / storageUsage.quota) * 100))}%` }} />
+                </div>
+              )}
+            </div>
+          )}
+          <button onClick={() => openAirportEditor()} className="flex items-center gap-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded-lg shadow-sm">
+            <i className="fas fa-map-location-dot text-xs text-[#006a4e]"></i><span className="text-[10px] font-black uppercase tracking-wider">Airports</span>
+          </button>
+          <button onClick={() => setItineraryOpen(true)} disabled={datasets.length === 0} className="flex items-center gap-2 bg-white border border-slate-200 hover:bg-slate-50 text-slate-700 px-3 py-1.5 rounded-lg shadow-sm disabled:opacity-40">
+            <i className="fas fa-route text-xs text-[#006a4e]"></i><span className="text-[10px] font-black uppercase tracking-wider">Itineraries</span>
+          </button>
           <div className="relative" ref={snapshotRef}>
-            <button onClick={() => setSnapshotMenuOpen(!snapshotMenuOpen)} className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-white px-3 py-1.5 rounded-lg shadow-sm">
+            <button onClick={() => { setSnapshotMenuOpen(!snapshotMenuOpen); setRebaseSourceId(null); }} className="flex items-center gap-2 bg-slate-800 hover:bg-slate-700 text-white px-3 py-1.5 rounded-lg shadow-sm">
               <i className="fas fa-history text-xs text-indigo-400"></i><span className="text-[10px] font-black uppercase tracking-wider">Scenarios</span>
             </button>
             {snapshotMenuOpen && (
-              <div className="absolute top-full right-0 w-72 mt-2 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-[200] overflow-hidden flex flex-col max-h-[400px]">
+              <div className="absolute top-full right-0 w-80 mt-2 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-[200] overflow-hidden flex flex-col max-h-[480px]">
                 <div className="p-3 bg-slate-800 border-b border-slate-700 flex items-center justify-between">
                   <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Snapshot Manager</span>
-                  <button onClick={createSnapshot} className="text-[8px] font-black bg-indigo-600 text-white px-2 py-1 rounded hover:bg-indigo-500 uppercase">Capture</button>
+                  <div className="flex gap-1.5">
+                    <button onClick={() => { setDiffLive(captureScenario('live', 'Live Workspace')); setSnapshotMenuOpen(false); }} disabled={snapshots.length === 0}
+                      className="text-[8px] font-black bg-slate-700 text-white px-2 py-1 rounded hover:bg-slate-600 uppercase disabled:opacity-30">Compare</button>
+                    <button onClick={createSnapshot} className="text-[8px] font-black bg-indigo-600 text-white px-2 py-1 rounded hover:bg-indigo-500 uppercase">Capture</button>
+                  </div>
                 </div>
-                <div className="overflow-y-auto flex-1 p-2 space-y-2 no-scrollbar">
+                {rebasingScenario ? (
+                  <div className="px-3 py-2 bg-amber-500/10 border-b border-amber-500/30 flex items-center justify-between gap-2">
+                    <span className="text-[8px] font-black text-amber-400 uppercase truncate">Pick a new parent for {rebasingScenario.name}</span>
+                    <button onClick={() => setRebaseSourceId(null)} className="text-[8px] font-black text-slate-400 hover:text-white uppercase">Cancel</button>
+                  </div>
+                ) : (
+                  <div className="px-3 py-2 border-b border-slate-800 flex items-center justify-between gap-2">
+                    <span className="text-[8px] font-black text-slate-500 uppercase truncate">{captureParent ? <>Capture branches from <span className="text-indigo-400">{captureParent.name}</span></> : 'Capture starts a new root'}</span>
+                    {captureParent && <button onClick={() => setActiveScenarioId(null)} title="Capture as a new root" className="text-slate-500 hover:text-white"><i className="fas fa-times text-[9px]"></i></button>}
+                  </div>
+                )}
+                <div className="overflow-y-auto flex-1 p-2 space-y-1.5 no-scrollbar">
                   {snapshots.length === 0 && <p className="text-[9px] text-slate-500 text-center py-4 uppercase font-bold">No saved scenarios</p>}
-                  {snapshots.map(s => (
-                    <div key={s.id} onClick={() => loadSnapshot(s)} className="w-full text-left p-3 rounded-lg bg-slate-800 border border-slate-700 hover:border-indigo-500 group cursor-pointer transition-all">
-                      <div className="flex justify-between items-start mb-1"><span className="text-xs font-black text-white group-hover:text-indigo-400">{s.name}</span>
-                        <button onClick={(e) => deleteSnapshot(s.id, e)} className="text-slate-500 hover:text-red-400 transition-colors opacity-0 group-hover:opacity-100"><i className="fas fa-trash text-[10px]"></i></button>
-                      </div>
-                      <div className="flex items-center gap-3 text-[8px] font-black text-slate-500 uppercase">
-                        <span><i className="fas fa-clock mr-1"></i>{new Date(s.timestamp).toLocaleDateString()}</span>
-                        <span><i className="fas fa-plane mr-1"></i>MCT: {s.mct}h</span>
+                  {buildScenarioTree(snapshots).map(({ snapshot: s, depth }) => {
+                    const blocked = !!rebaseSourceId && isInBranch(snapshots, rebaseSourceId, s.id);
+                    const changes = countChanges(getChangeSet(s, snapshots, datasets));
+                    return (
+                      <div key={s.id} style={{ marginLeft: depth * 12 }} className={depth > 0 ? 'pl-2 border-l border-slate-700' : ''}>
+                        <div onClick={() => rebaseSourceId ? (!blocked && rebaseSnapshot(s.id)) : loadSnapshot(s)}
+                          className={`w-full text-left p-3 rounded-lg border group transition-all ${blocked ? 'bg-slate-800/40 border-slate-800 opacity-40 cursor-not-allowed' : `bg-slate-800 cursor-pointer ${rebaseSourceId ? 'border-amber-500/40 hover:border-amber-400' : s.id === activeScenarioId ? 'border-indigo-500' : 'border-slate-700 hover:border-indigo-500'}`}`}>
+                          <div className="flex justify-between items-start mb-1 gap-2"><span className="text-xs font-black text-white group-hover:text-indigo-400 truncate">{depth > 0 && <i className="fas fa-code-branch text-[9px] text-slate-500 mr-1.5"></i>}{s.name}</span>
+                            {!rebaseSourceId && (
+                              <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity shrink-0">
+                                <button onClick={(e) => forkSnapshot(s, e)} title="Branch from here" className="text-slate-500 hover:text-indigo-400"><i className="fas fa-code-branch text-[10px]"></i></button>
+                                <button onClick={(e) => { e.stopPropagation(); setRebaseSourceId(s.id); }} title="Rebase onto another scenario" className="text-slate-500 hover:text-amber-400"><i className="fas fa-code-merge text-[10px]"></i></button>
+                                <button onClick={(e) => deleteSnapshot(s.id, e)} className="text-slate-500 hover:text-red-400"><i className="fas fa-trash text-[10px]"></i></button>
+                              </div>
+                            )}
+                          </div>
+                          <div className="flex items-center gap-3 text-[8px] font-black text-slate-500 uppercase">
+                            <span><i className="fas fa-clock mr-1"></i>{new Date(s.timestamp).toLocaleDateString()}</span>
+                            <span><i className="fas fa-plane mr-1"></i>MCT: {s.mct}h{s.mctRules?.length ? ` +${s.mctRules.length} rules` : ''}</span>
+                            <span title={s.parentId ? 'Block edits relative to the parent' : 'Blocks in this root'}>Δ {changes}</span>
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
+                </div>
+                <div className="p-2 border-t border-slate-700 bg-slate-800/50 grid grid-cols-2 gap-2">
+                  <button onClick={exportWorkspace} className="py-2 rounded bg-slate-800 border border-slate-700 text-[8px] font-black text-slate-300 hover:text-white uppercase tracking-widest"><i className="fas fa-file-arrow-down mr-1"></i>Export Bundle</button>
+                  <label className="py-2 rounded bg-slate-800 border border-slate-700 text-[8px] font-black text-slate-300 hover:text-white uppercase tracking-widest text-center cursor-pointer"><i className="fas fa-file-arrow-up mr-1"></i>Import Bundle
+                    <input type="file" accept=".json" className="hidden" onChange={handleWorkspaceFile} />
+                  </label>
                 </div>
                 <div className="p-2 border-t border-slate-700 bg-slate-800/50"><button onClick={clearWorkspace} className="w-full py-2 text-[8px] font-black text-red-400 hover:text-red-300 uppercase tracking-widest">Reset Workspace</button></div>
               </div>
@@ -618,8 +1102,8 @@ const App: React.FC = () => {
           <div className="flex items-center gap-2">
             <button onClick={toggleFullscreen} className="text-slate-400 hover:text-slate-600 p-1.5 transition-colors"><i className={`fas ${isFullscreen ? 'fa-compress' : 'fa-expand'} text-sm`}></i></button>
             <label className="flex items-center gap-2 bg-[#006a4e] hover:bg-[#00523c] text-white px-3 py-1.5 rounded-lg cursor-pointer transition-all shadow-sm">
-              <i className="fas fa-file-csv text-xs"></i><span className="text-[10px] font-black uppercase tracking-wider">Upload CSV(s)</span>
-              <input type="file" accept=".csv" multiple className="hidden" onChange={handleFileUpload} />
+              <i className="fas fa-file-csv text-xs"></i><span className="text-[10px] font-black uppercase tracking-wider">Upload CSV / SSIM</span>
+              <input type="file" accept=".csv,.ssim,.ssm,.txt,.dat" multiple className="hidden" onChange={handleFileUpload} />
             </label>
           </div>
         </div>
@@ -640,23 +1124,71 @@ const App: React.FC = () => {
       <nav className="bg-white border-b border-slate-100 px-6 flex shrink-0 justify-between items-center z-50 relative h-10">
         <div className="flex h-full">
           <button onClick={() => setActiveTab('hub')} className={`px-4 h-full text-[10px] font-black tracking-widest uppercase border-b-2 transition-all ${activeTab === 'hub' ? 'border-[#006a4e] text-[#006a4e]' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>Hub View</button>
+          <button onClick={() => setActiveTab('matrix')} className={`px-4 h-full text-[10px] font-black tracking-widest uppercase border-b-2 transition-all ${activeTab === 'matrix' ? 'border-[#006a4e] text-[#006a4e]' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>O&amp;D Matrix</button>
           <button onClick={() => setActiveTab('raw')} className={`px-4 h-full text-[10px] font-black tracking-widest uppercase border-b-2 transition-all ${activeTab === 'raw' ? 'border-[#006a4e] text-[#006a4e]' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>Raw Data</button>
         </div>
 
-        {activeTab === 'hub' && activeDataset && (
+        {(activeTab === 'hub' || activeTab === 'matrix') && activeDataset && (
           <div className="flex items-center gap-4 py-1">
             <div className="flex items-center bg-slate-100 p-0.5 rounded-lg border border-slate-200">
+              <button onClick={() => setSeasonTimelineOpen(true)} title="Season timeline" className="px-2 py-1 rounded text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-[#006a4e]"><i className="fas fa-calendar-week"></i></button>
+              {selectedWeek ? (
+                <>
+                  <button onClick={() => setSelectedWeek(addDays(selectedWeek, -7))} className="px-1 text-[8px] text-slate-400 hover:text-slate-700"><i className="fas fa-chevron-left"></i></button>
+                  <input type="date" value={selectedWeek} onChange={e => e.target.value && setSelectedWeek(startOfWeek(e.target.value))}
+                    className="bg-transparent text-[9px] font-black text-slate-700 w-[92px] focus:outline-none" title="Week commencing (Monday)" />
+                  <button onClick={() => setSelectedWeek(addDays(selectedWeek, 7))} className="px-1 text-[8px] text-slate-400 hover:text-slate-700"><i className="fas fa-chevron-right"></i></button>
+                  <button onClick={() => setSelectedWeek(null)} className="px-1.5 py-1 rounded text-[8px] font-black uppercase text-slate-400 hover:text-red-500"><i className="fas fa-times"></i></button>
+                </>
+              ) : (
+                <button onClick={() => setSelectedWeek(startOfWeek(todayISO()))} className="px-2 py-1 rounded text-[8px] font-black uppercase tracking-widest bg-slate-900 text-white shadow-lg">All Dates</button>
+              )}
+            </div>
+            <div className="flex items-center bg-slate-100 p-0.5 rounded-lg border border-slate-200">
+              <button onClick={() => setSelectedDay(null)} className={`px-2 py-1 rounded text-[8px] font-black uppercase tracking-widest transition-all ${selectedDay === null ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400'}`}>Week</button>
+              {WEEKDAY_LABELS.map((label, i) => (
+                <button key={label} onClick={() => setSelectedDay(i + 1)} className={`px-1.5 py-1 rounded text-[8px] font-black uppercase tracking-tight transition-all ${selectedDay === i + 1 ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400'}`}>{label}</button>
+              ))}
+            </div>
+            <div className="flex items-center bg-slate-100 p-0.5 rounded-lg border border-slate-200" title={hubLocalOffset !== null ? `${activeDataset.code} is ${formatUtcOffset(hubLocalOffset)} on ${displayDate}` : `No time zone known for ${activeDataset.code}`}>
+               <button onClick={() => setTimeDisplay('local')} className={`px-2 py-1 rounded text-[8px] font-black uppercase tracking-widest transition-all ${timeDisplay === 'local' ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400'}`}>LT</button>
+               <button onClick={() => setTimeDisplay('utc')} className={`px-2 py-1 rounded text-[8px] font-black uppercase tracking-widest transition-all ${timeDisplay === 'utc' ? 'bg-slate-900 text-white shadow-lg' : 'text-slate-400'}`}>UTC</button>
+            </div>
+            <div className={`flex items-center bg-slate-100 p-0.5 rounded-lg border border-slate-200 ${selectedDay !== null ? 'opacity-30 pointer-events-none' : ''}`}>
                <button onClick={() => setFreqMode('weekly')} className={`px-3 py-1 rounded text-[8px] font-black uppercase tracking-widest transition-all ${freqMode === 'weekly' ? 'bg-[#006a4e] text-white shadow-lg' : 'text-slate-400'}`}>Weekly</button>
                <button onClick={() => setFreqMode('daily')} className={`px-3 py-1 rounded text-[8px] font-black uppercase tracking-widest transition-all ${freqMode === 'daily' ? 'bg-[#006a4e] text-white shadow-lg' : 'text-slate-400'}`}>Daily</button>
             </div>
             <div className="flex items-center gap-1 px-2 py-0.5 bg-slate-50 rounded-lg border border-slate-200">
               <span className="text-[8px] font-black text-slate-400 uppercase tracking-tighter mr-1">Regions:</span>
-              {[Region.Africa, Region.AsiaPacific, Region.Europe, Region.MiddleEast, Region.Americas].map(region => (
-                <button key={region} onClick={() => setSelectedRegions(prev => prev.includes(region) ? prev.filter(r => r !== region) : [...prev, region])}
-                  className={`px-2 py-0.5 rounded text-[8px] font-black uppercase transition-all border ${selectedRegions.includes(region) ? REGION_COLORS[region] : 'bg-white text-slate-300 border-slate-100'}`}>
-                  {region.split('/')[0]}
+              {getTopLevelRegions(regions).map(region => {
+                const isOn = selectedRegions.includes(region.id);
+                return (
+                  <React.Fragment key={region.id}>
+                    <button onClick={() => setSelectedRegions(prev => isOn ? prev.filter(r => r !== region.id) : [...prev, region.id])}
+                      style={isOn ? getRegionStyle(region.id, regionIndex) : undefined}
+                      className={`px-2 py-0.5 rounded text-[8px] font-black uppercase transition-all border ${isOn ? 'border-transparent' : 'bg-white text-slate-300 border-slate-100'}`}>
+                      {region.name.split('/')[0]}
+                    </button>
+                    {isOn && getSubRegions(regions, region.id).map(sub => {
+                      const subOn = !hiddenSubRegions.includes(sub.id);
+                      return (
+                        <button key={sub.id} onClick={() => setHiddenSubRegions(prev => subOn ? [...prev, sub.id] : prev.filter(r => r !== sub.id))}
+                          style={subOn ? getRegionStyle(sub.id, regionIndex) : undefined}
+                          className={`px-1.5 py-0.5 rounded-full text-[7px] font-black uppercase transition-all border ${subOn ? 'border-transparent' : 'bg-white text-slate-300 border-slate-100'}`}>
+                          {sub.name}
+                        </button>
+                      );
+                    })}
+                  </React.Fragment>
+                );
+              })}
+              <button onClick={() => setRegionManagerOpen(true)} title="Edit regions" className="ml-1 text-slate-300 hover:text-slate-600"><i className="fas fa-sliders text-[9px]"></i></button>
+              {unresolvedAirports.length > 0 && (
+                <button onClick={() => setUnresolvedOpen(true)} title="Codes missing from the airport reference"
+                  className="ml-1 px-2 py-0.5 rounded text-[8px] font-black uppercase bg-amber-100 text-amber-700 border border-amber-200 hover:bg-amber-200">
+                  <i className="fas fa-circle-question mr-1"></i>Resolve {unresolvedAirports.length}
                 </button>
-              ))}
+              )}
             </div>
             <div className="flex items-center gap-2"><span className="text-[8px] font-black text-slate-500 uppercase">CATCHMENT</span>
               <button onClick={() => setHighlightCatchment(!highlightCatchment)} className={`relative inline-flex h-3.5 w-7 items-center rounded-full transition-colors ${highlightCatchment ? 'bg-[#ff5f1f]' : 'bg-slate-300'}`}>
@@ -681,9 +1213,10 @@ const App: React.FC = () => {
                 </div>
               )}
             </div>
-            <div className="flex items-center gap-2"><span className="text-[8px] font-black text-slate-500 uppercase">Focus Hub</span>
-              <button onClick={() => setAlwaysFocusBLR(!alwaysFocusBLR)} className={`relative inline-flex h-3.5 w-7 items-center rounded-full ${alwaysFocusBLR ? 'bg-[#006a4e]' : 'bg-slate-300'}`}>
-                <span className={`inline-block h-2 w-2 transform rounded-full bg-white transition-transform ${alwaysFocusBLR ? 'translate-x-4' : 'translate-x-1'}`} /></button>
+            <div className="flex items-center gap-2"><span className="text-[8px] font-black text-slate-500 uppercase" title="Always show and ring this port">Focus {hubProfile?.focusCode}</span>
+              <button onClick={() => setAlwaysShowFocus(!alwaysShowFocus)} className={`relative inline-flex h-3.5 w-7 items-center rounded-full ${alwaysShowFocus ? 'bg-[#006a4e]' : 'bg-slate-300'}`}>
+                <span className={`inline-block h-2 w-2 transform rounded-full bg-white transition-transform ${alwaysShowFocus ? 'translate-x-4' : 'translate-x-1'}`} /></button>
+              <button onClick={() => setHubSettingsOpen(true)} title={`${activeDataset.code} hub settings`} className="text-slate-300 hover:text-slate-600"><i className="fas fa-gear text-[10px]"></i></button>
             </div>
           </div>
         )}
@@ -698,26 +1231,46 @@ const App: React.FC = () => {
         ) : datasets.length === 0 ? (
           <div className="h-full flex flex-col items-center justify-center m-6 border-2 border-dashed border-slate-200 rounded-3xl bg-white/50">
             <i className="fas fa-file-import text-xl text-slate-300 mb-2"></i>
-            <h2 className="text-xs font-black text-slate-700 uppercase">Upload CSVs (e.g. BLR.csv, JED.csv) To Start</h2>
+            <h2 className="text-xs font-black text-slate-700 uppercase">Upload CSVs (e.g. BLR.csv, JED.csv) or SSIM Files To Start</h2>
           </div>
         ) : (
           <div className="h-full px-4 py-4">
             {activeTab === 'hub' ? (
                <HubBankChart 
                  data={processedHubData} 
-                 onManualDrop={handleManualDrop}
-                 onUpdateManualFlight={updateManualFlight}
+                 onManualDrop={handleChartDrop}
+                 onUpdateManualFlight={handleChartUpdate}
                  highlightConnections={highlightConnections}
                  maxConnectionWindow={maxConnectionWindow}
                  mct={mct}
+                 mctRules={mctRules}
+                 connectivityMode={connectivityMode}
+                 carrierAgreements={carrierAgreements}
+                 maxCircuity={maxCircuity}
                  onHoverManualFlight={setHoveredManualFlight}
                  hoveredManualFlight={hoveredManualFlight}
-                 freqMode={freqMode}
+                 freqMode={selectedDay === null ? freqMode : 'weekly'}
+                 selectedDay={selectedDay}
+                 timeBasisLabel={timeDisplay === 'utc' ? 'UTC' : hubLocalOffset !== null ? `Local · ${formatUtcOffset(hubLocalOffset)}` : 'Local'}
                  highlightCatchment={highlightCatchment}
-                 isBlrFile={activeDataset?.code === 'BLR'}
+                 airports={airportIndex}
+                 hubCode={activeDataset?.code}
+                 homeCountry={homeCountry}
+                 focusCode={hubProfile?.focusCode}
+                 catchment={hubProfile?.catchment}
+                 regions={regions}
+               />
+            ) : activeTab === 'matrix' ? (
+               <OdMatrixView
+                 data={processedHubData}
+                 options={matrixOptions}
+                 hubCode={activeDataset?.code}
+                 freqMode={selectedDay === null ? freqMode : 'weekly'}
+                 timeBasisLabel={timeDisplay === 'utc' ? 'UTC' : hubLocalOffset !== null ? `Local · ${formatUtcOffset(hubLocalOffset)}` : 'Local'}
+                 regions={regions}
                />
             ) : (
-               <DataTable data={activeDataset?.data || []} freqMode={freqMode} />
+               <DataTable data={activeDataset?.data || []} freqMode={freqMode} airports={airportIndex} regions={regions} />
             )}
           </div>
         )}
@@ -0,0 +1,188 @@
+
+import React, { useMemo, useState } from 'react';
+import { AirportRecord, ImportIssue, Region } from '../types';
+import { AirportIndex, BUNDLED_AIRPORTS, buildAirportIndex, parseAirportCSV, serializeAirportsCSV, validateAirport } from '../utils/airports';
+import { downloadFile } from '../utils/export';
+
+interface AirportDatabaseModalProps {
+  userAirports: AirportRecord[];
+  onChange: (userAirports: AirportRecord[]) => void;
+  onClose: () => void;
+  initialCode?: string;
+}
+
+type DraftAirport = { [K in keyof AirportRecord]: string };
+
+const EMPTY_DRAFT: DraftAirport = { code: '', name: '', city: '', country: '', state: '', region: Region.Unknown, lat: '', lon: '', tz: '' };
+
+const toDraft = (a: AirportRecord): DraftAirport => ({
+  code: a.code, name: a.name, city: a.city || '', country: a.country, state: a.state || '', region: a.region,
+  lat: a.lat?.toString() ?? '', lon: a.lon?.toString() ?? '', tz: a.tz || ''
+});
+
+const fromDraft = (d: DraftAirport): AirportRecord => ({
+  code: d.code.trim().toUpperCase(),
+  name: d.name.trim(),
+  city: d.city.trim() || undefined,
+  country: d.country.trim().toUpperCase(),
+  state: d.state.trim().toUpperCase() || undefined,
+  region: d.region as Region,
+  lat: d.lat.trim() === '' ? undefined : parseFloat(d.lat),
+  lon: d.lon.trim() === '' ? undefined : parseFloat(d.lon),
+  tz: d.tz.trim() || undefined
+});
+
+const bundledCodes = new Set(BUNDLED_AIRPORTS.map(a => a.code));
+
+/**
+ * AirportDatabaseModal: Browse the airport reference, edit or add records, and import/export them as CSV.
+ * Edits are stored as user records that override the bundled list.
+ */
+const AirportDatabaseModal: React.FC<AirportDatabaseModalProps> = ({ userAirports, onChange, onClose, initialCode }) => {
+  const index: AirportIndex = useMemo(() => buildAirportIndex(userAirports), [userAirports]);
+  const userCodes = useMemo(() => new Set(userAirports.map(a => a.code)), [userAirports]);
+  const [query, setQuery] = useState('');
+  const [onlyCustom, setOnlyCustom] = useState(false);
+  const [draft, setDraft] = useState<DraftAirport | null>(() => {
+    if (!initialCode) return null;
+    return index[initialCode] ? toDraft(index[initialCode]) : { ...EMPTY_DRAFT, code: initialCode, name: initialCode };
+  });
+  const [importResult, setImportResult] = useState<{ added: number, rejected: ImportIssue[] } | null>(null);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return Object.values(index)
+      .filter(a => !onlyCustom || userCodes.has(a.code))
+      .filter(a => !q || [a.code, a.name, a.city, a.country].some(v => (v || '').toLowerCase().includes(q)))
+      .sort((a, b) => a.code.localeCompare(b.code));
+  }, [index, query, onlyCustom, userCodes]);
+
+  const problems = draft ? validateAirport(fromDraft(draft)) : [];
+
+  const saveDraft = () => {
+    if (!draft || problems.length > 0) return;
+    const record = fromDraft(draft);
+    onChange([...userAirports.filter(a => a.code !== record.code), record]);
+    setDraft(null);
+  };
+
+  const revert = (code: string) => onChange(userAirports.filter(a => a.code !== code));
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const { airports, rejected } = parseAirportCSV(await file.text());
+    const codes = new Set(airports.map(a => a.code));
+    onChange([...userAirports.filter(a => !codes.has(a.code)), ...airports]);
+    setImportResult({ added: airports.length, rejected });
+    e.target.value = '';
+  };
+
+  const field = (key: keyof DraftAirport, label: string, width = 'col-span-1') => (
+    <label className={`flex flex-col gap-0.5 ${width}`}>
+      <span className="text-[7px] font-black text-slate-400 uppercase tracking-widest">{label}</span>
+      <input type="text" value={draft![key]} onChange={e => setDraft({ ...draft!, [key]: e.target.value })}
+        className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[10px] font-bold focus:outline-none focus:ring-1 focus:ring-[#006a4e]" />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[820px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Airport Reference</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">{Object.keys(index).length} airports · {userAirports.length} custom</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="px-8 py-3 border-b border-slate-100 flex items-center gap-3 shrink-0">
+          <input type="text" placeholder="Search code, name, city, country..." value={query} onChange={e => setQuery(e.target.value)}
+            className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-bold focus:outline-none focus:ring-1 focus:ring-[#006a4e]" />
+          <label className="flex items-center gap-1.5 text-[9px] font-black text-slate-500 uppercase">
+            <input type="checkbox" checked={onlyCustom} onChange={e => setOnlyCustom(e.target.checked)} />Custom only
+          </label>
+          <button onClick={() => setDraft({ ...EMPTY_DRAFT })} className="px-3 py-2 bg-[#006a4e] text-white rounded-xl text-[9px] font-black uppercase">+ Add</button>
+          <label className="px-3 py-2 bg-slate-100 text-slate-600 rounded-xl text-[9px] font-black uppercase cursor-pointer hover:bg-slate-200">
+            Import CSV<input type="file" accept=".csv,.txt" className="hidden" onChange={handleImport} />
+          </label>
+          <button onClick={() => downloadFile('airports.csv', serializeAirportsCSV(Object.values(index).sort((a, b) => a.code.localeCompare(b.code))), 'text/csv')}
+            className="px-3 py-2 bg-slate-100 text-slate-600 rounded-xl text-[9px] font-black uppercase hover:bg-slate-200">Export</button>
+        </div>
+
+        {importResult && (
+          <div className="px-8 py-2 bg-slate-50 border-b border-slate-100 text-[9px] font-bold text-slate-600 shrink-0 flex items-start justify-between gap-3">
+            <div>
+              <span className="font-black text-[#006a4e]">{importResult.added} imported</span>
+              {importResult.rejected.length > 0 && <span className="font-black text-red-500"> · {importResult.rejected.length} rejected</span>}
+              {importResult.rejected.slice(0, 5).map((r, i) => <div key={i} className="text-slate-400">Line {r.line}: {r.reason}</div>)}
+            </div>
+            <button onClick={() => setImportResult(null)} className="text-slate-400"><i className="fas fa-times text-[10px]"></i></button>
+          </div>
+        )}
+
+        {draft && (
+          <div className="px-8 py-4 border-b border-slate-100 bg-[#006a4e]/5 shrink-0 space-y-3">
+            <div className="grid grid-cols-6 gap-2">
+              {field('code', 'IATA')}
+              {field('name', 'Name', 'col-span-3')}
+              {field('city', 'City', 'col-span-2')}
+              {field('country', 'Country (ISO)')}
+              {field('state', 'State')}
+              <label className="flex flex-col gap-0.5">
+                <span className="text-[7px] font-black text-slate-400 uppercase tracking-widest">Region</span>
+                <select value={draft.region} onChange={e => setDraft({ ...draft, region: e.target.value })}
+                  className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[10px] font-bold">
+                  {Object.values(Region).map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+              </label>
+              {field('lat', 'Lat')}
+              {field('lon', 'Lon')}
+              {field('tz', 'Time Zone (IANA)')}
+            </div>
+            <div className="flex items-center justify-between gap-3">
+              <span className="text-[9px] font-bold text-red-500">{problems.join(' · ')}</span>
+              <div className="flex gap-2 shrink-0">
+                <button onClick={() => setDraft(null)} className="px-4 py-1.5 border border-slate-200 rounded-xl text-[9px] font-black uppercase text-slate-400 bg-white">Cancel</button>
+                <button onClick={saveDraft} disabled={problems.length > 0} className="px-4 py-1.5 bg-slate-900 text-white rounded-xl text-[9px] font-black uppercase disabled:opacity-30">Save</button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto no-scrollbar">
+          <table className="w-full text-left border-collapse">
+            <thead className="sticky top-0 bg-slate-50 z-10">
+              <tr className="text-[8px] font-black text-slate-400 uppercase tracking-widest">
+                <th className="px-8 py-2">Code</th><th className="py-2">Name</th><th className="py-2">Country</th><th className="py-2">Region</th><th className="py-2">Time Zone</th><th className="py-2 pr-8 text-right">Source</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-50">
+              {visible.map(a => (
+                <tr key={a.code} onClick={() => setDraft(toDraft(a))} className="hover:bg-slate-50 cursor-pointer text-[10px]">
+                  <td className="px-8 py-1.5 font-black text-slate-800">{a.code}</td>
+                  <td className="py-1.5 font-bold text-slate-600 truncate max-w-[260px]">{a.name}{a.city ? <span className="text-slate-400"> · {a.city}</span> : null}</td>
+                  <td className="py-1.5 font-bold text-slate-500">{a.country}{a.state ? `-${a.state}` : ''}</td>
+                  <td className="py-1.5 font-bold text-slate-500">{a.region}</td>
+                  <td className="py-1.5 font-bold text-slate-400">{a.tz || '—'}</td>
+                  <td className="py-1.5 pr-8 text-right">
+                    {userCodes.has(a.code) ? (
+                      <button onClick={e => { e.stopPropagation(); revert(a.code); }} title={bundledCodes.has(a.code) ? 'Revert to bundled record' : 'Delete custom airport'}
+                        className="px-2 py-0.5 rounded bg-indigo-50 text-indigo-600 text-[8px] font-black uppercase hover:bg-red-50 hover:text-red-500">
+                        {bundledCodes.has(a.code) ? 'Edited' : 'Custom'} <i className="fas fa-times ml-1"></i>
+                      </button>
+                    ) : <span className="text-[8px] font-black text-slate-300 uppercase">Bundled</span>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length === 0 && <p className="text-[9px] text-slate-400 text-center py-6 uppercase font-black">No airports match</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AirportDatabaseModal;
@@ -0,0 +1,43 @@
+
+import React from 'react';
+import { History } from '../utils/history';
+
+interface BlockHistoryPanelProps {
+  history: History<unknown>;
+  onTravel: (steps: number) => void; // Negative undoes, positive redoes
+}
+
+/**
+ * BlockHistoryPanel: Manual block edits, newest first. Clicking an entry undoes back to just after
+ * it; clicking a redoable entry replays up to it.
+ */
+const BlockHistoryPanel: React.FC<BlockHistoryPanelProps> = ({ history, onTravel }) => {
+  const { past, future } = history;
+  return (
+    <div className="absolute top-full right-0 w-72 mt-2 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-[200] overflow-hidden flex flex-col max-h-[400px]">
+      <div className="p-3 bg-slate-800 border-b border-slate-700 flex items-center justify-between">
+        <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Edit History</span>
+        <span className="text-[8px] font-black text-slate-500 uppercase">Ctrl+Z · Ctrl+Shift+Z</span>
+      </div>
+      <div className="overflow-y-auto flex-1 p-2 space-y-1 no-scrollbar">
+        {past.length === 0 && future.length === 0 && <p className="text-[9px] text-slate-500 text-center py-4 uppercase font-bold">No block edits yet</p>}
+        {[...future].reverse().map((e, i) => (
+          <button key={e.id} onClick={() => onTravel(future.length - i)}
+            className="w-full text-left px-3 py-2 rounded-lg border border-dashed border-slate-700 text-slate-500 hover:text-slate-300 hover:border-slate-500 transition-all">
+            <div className="text-[10px] font-black line-through decoration-slate-600 truncate">{e.label}</div>
+            <div className="text-[8px] font-black uppercase">{new Date(e.timestamp).toLocaleTimeString()} · Undone</div>
+          </button>
+        ))}
+        {[...past].reverse().map((e, i) => (
+          <button key={e.id} onClick={() => onTravel(-i)} disabled={i === 0}
+            className={`w-full text-left px-3 py-2 rounded-lg border transition-all ${i === 0 ? 'bg-indigo-600/20 border-indigo-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-300 hover:border-indigo-500'}`}>
+            <div className="text-[10px] font-black truncate">{e.label}</div>
+            <div className="text-[8px] font-black text-slate-500 uppercase">{new Date(e.timestamp).toLocaleTimeString()}{i === 0 ? ' · Current' : ''}</div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BlockHistoryPanel;
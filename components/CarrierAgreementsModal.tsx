@@ -0,0 +1,103 @@
+
+import React, { useState } from 'react';
+import { CarrierAgreements, InterlineAgreement } from '../types';
+import { parseCarrierCodes } from '../utils/carriers';
+
+interface CarrierAgreementsModalProps {
+  agreements: CarrierAgreements;
+  onChange: (agreements: CarrierAgreements) => void;
+  onClose: () => void;
+}
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+/**
+ * CarrierAgreementsModal: Edits the alliances and bilateral interline/codeshare agreements that
+ * the alliance and interline connectivity modes allow connections across.
+ */
+const CarrierAgreementsModal: React.FC<CarrierAgreementsModalProps> = ({ agreements, onChange, onClose }) => {
+  const [draft, setDraft] = useState<CarrierAgreements>(agreements);
+
+  const updateInterline = (id: string, index: 0 | 1, value: string) =>
+    setDraft(prev => ({
+      ...prev,
+      interlines: prev.interlines.map(i => {
+        if (i.id !== id) return i;
+        const carriers = [...i.carriers] as InterlineAgreement['carriers'];
+        carriers[index] = value.trim().toUpperCase();
+        return { ...i, carriers };
+      })
+    }));
+
+  // Interlines missing a carrier, or naming the same one twice, are dropped
+  const save = () => {
+    onChange({
+      alliances: draft.alliances.filter(a => a.carriers.length > 0),
+      interlines: draft.interlines.filter(({ carriers: [a, b] }) => a && b && a !== b)
+    });
+    onClose();
+  };
+
+  const inputClass = 'px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[9px] font-black uppercase text-slate-700';
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[640px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Carrier Agreements</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">Alliance mode connects alliance members; interline mode adds the bilateral partners</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-5 space-y-6">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Alliances</span>
+              <button onClick={() => setDraft(prev => ({ ...prev, alliances: [...prev.alliances, { id: newId(), name: 'New Alliance', carriers: [] }] }))}
+                className="text-[8px] font-black text-slate-400 uppercase hover:text-[#006a4e]">+ Alliance</button>
+            </div>
+            {draft.alliances.length === 0 && <p className="text-[9px] text-slate-400 text-center py-3 uppercase font-black">No alliances</p>}
+            {draft.alliances.map(a => (
+              <div key={a.id} className="grid grid-cols-[150px_1fr_20px] items-center gap-2">
+                <input type="text" value={a.name} onChange={e => setDraft(prev => ({ ...prev, alliances: prev.alliances.map(x => x.id === a.id ? { ...x, name: e.target.value } : x) }))} className={inputClass} />
+                <input type="text" defaultValue={a.carriers.join(', ')} placeholder="Members (SQ, LH, UA…)"
+                  onBlur={e => setDraft(prev => ({ ...prev, alliances: prev.alliances.map(x => x.id === a.id ? { ...x, carriers: parseCarrierCodes(e.target.value) } : x) }))}
+                  className={inputClass} />
+                <button onClick={() => setDraft(prev => ({ ...prev, alliances: prev.alliances.filter(x => x.id !== a.id) }))} title="Delete alliance" className="text-slate-300 hover:text-red-500">
+                  <i className="fas fa-trash text-[10px]"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Interline &amp; Codeshare Partners</span>
+              <button onClick={() => setDraft(prev => ({ ...prev, interlines: [...prev.interlines, { id: newId(), carriers: ['', ''] }] }))}
+                className="text-[8px] font-black text-slate-400 uppercase hover:text-[#006a4e]">+ Agreement</button>
+            </div>
+            {draft.interlines.length === 0 && <p className="text-[9px] text-slate-400 text-center py-3 uppercase font-black">No bilateral agreements</p>}
+            {draft.interlines.map(i => (
+              <div key={i.id} className="grid grid-cols-[1fr_16px_1fr_20px] items-center gap-2">
+                <input type="text" value={i.carriers[0]} maxLength={3} placeholder="Carrier" onChange={e => updateInterline(i.id, 0, e.target.value)} className={inputClass} />
+                <i className="fas fa-arrows-alt-h text-[10px] text-slate-300"></i>
+                <input type="text" value={i.carriers[1]} maxLength={3} placeholder="Partner" onChange={e => updateInterline(i.id, 1, e.target.value)} className={inputClass} />
+                <button onClick={() => setDraft(prev => ({ ...prev, interlines: prev.interlines.filter(x => x.id !== i.id) }))} title="Delete agreement" className="text-slate-300 hover:text-red-500">
+                  <i className="fas fa-trash text-[10px]"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+          <button onClick={save} className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs">Save Agreements</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CarrierAgreementsModal;
@@ -0,0 +1,148 @@
+
+import React, { useState } from 'react';
+import { ColumnMapping, MappableField, MappingProfile, TimeMode } from '../types';
+import { CSV_FIELDS } from '../utils/csv';
+
+interface ColumnMappingModalProps {
+  fileName: string;
+  headers: string[];
+  sampleRows: string[][];
+  initialMapping: ColumnMapping;
+  initialHubCode: string;
+  initialTimeMode?: TimeMode;
+  profiles: MappingProfile[];
+  queueLength: number;
+  onConfirm: (result: { mapping: ColumnMapping, hubCode: string, timeMode: TimeMode, profileName?: string }) => void;
+  onSkip: () => void;
+}
+
+/**
+ * ColumnMappingModal: Assigns source CSV columns to dataset fields for layouts with no saved profile.
+ */
+const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({
+  fileName,
+  headers,
+  sampleRows,
+  initialMapping,
+  initialHubCode,
+  initialTimeMode = 'local',
+  profiles,
+  queueLength,
+  onConfirm,
+  onSkip
+}) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const [hubCode, setHubCode] = useState(initialHubCode);
+  const [timeMode, setTimeMode] = useState<TimeMode>(initialTimeMode);
+  const [saveProfile, setSaveProfile] = useState(true);
+  const [profileName, setProfileName] = useState(fileName.replace(/\.[^.]+$/, '') + ' layout');
+
+  const setField = (key: MappableField, value: string) => {
+    setMapping(prev => {
+      const next = { ...prev };
+      if (value === '') delete next[key];
+      else next[key] = parseInt(value);
+      return next;
+    });
+  };
+
+  const applyProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    // Only keep indices that exist in this file
+    const next: ColumnMapping = {};
+    (Object.entries(profile.mapping) as [MappableField, number][]).forEach(([k, idx]) => {
+      if (idx < headers.length) next[k] = idx;
+    });
+    setMapping(next);
+    if (profile.timeMode) setTimeMode(profile.timeMode);
+  };
+
+  const sampleFor = (idx: number | undefined) => {
+    if (idx === undefined) return '';
+    return sampleRows.map(r => r[idx]).filter(Boolean).slice(0, 2).join(' · ');
+  };
+
+  const canConfirm = mapping.hub_time !== undefined && /^[A-Z]{3}$/.test(hubCode);
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[640px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Column Mapping</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5 truncate max-w-[420px]">
+              {fileName}{queueLength > 1 ? ` · ${queueLength - 1} more file${queueLength > 2 ? 's' : ''} queued` : ''}
+            </p>
+          </div>
+          <button onClick={onSkip} title="Skip this file"><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="px-8 py-4 border-b border-slate-100 flex items-center gap-4 shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-[9px] font-black text-slate-400 uppercase">Hub Code</span>
+            <input type="text" maxLength={3} value={hubCode} onChange={e => setHubCode(e.target.value.toUpperCase())}
+              className="w-16 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg font-black text-xs text-center" />
+          </div>
+          <div className="flex items-center gap-2">
+            <span className="text-[9px] font-black text-slate-400 uppercase">Times</span>
+            <div className="flex bg-slate-100 p-0.5 rounded-lg border border-slate-200">
+              {(['local', 'utc'] as const).map(mode => (
+                <button key={mode} onClick={() => setTimeMode(mode)}
+                  className={`px-2 py-0.5 rounded text-[8px] font-black uppercase tracking-widest ${timeMode === mode ? 'bg-slate-900 text-white' : 'text-slate-400'}`}>
+                  {mode === 'local' ? 'Local' : 'UTC'}
+                </button>
+              ))}
+            </div>
+          </div>
+          {profiles.length > 0 && (
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] font-black text-slate-400 uppercase">Start From</span>
+              <select defaultValue="" onChange={e => applyProfile(e.target.value)}
+                className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[10px] font-bold">
+                <option value="">Guessed layout</option>
+                {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-4 space-y-4">
+          {(['Arrival', 'Hub', 'Departure', 'Validity'] as const).map(group => (
+            <div key={group} className="space-y-1.5">
+              <h4 className="text-[9px] font-black text-slate-500 uppercase tracking-widest">{group}</h4>
+              {CSV_FIELDS.filter(f => f.group === group).map(f => (
+                <div key={f.key} className="grid grid-cols-[160px_1fr_140px] items-center gap-3">
+                  <span className="text-[10px] font-black text-slate-700">{f.label}{f.required && <span className="text-red-500"> *</span>}</span>
+                  <select value={mapping[f.key] ?? ''} onChange={e => setField(f.key, e.target.value)}
+                    className={`px-2 py-1 border rounded-lg text-[10px] font-bold ${mapping[f.key] === undefined ? 'bg-white border-slate-200 text-slate-400' : 'bg-[#006a4e]/5 border-[#006a4e]/30 text-slate-800'}`}>
+                    <option value="">— Not mapped —</option>
+                    {headers.map((h, i) => <option key={i} value={i}>{i + 1}. {h || '(blank)'}</option>)}
+                  </select>
+                  <span className="text-[9px] font-bold text-slate-400 truncate">{sampleFor(mapping[f.key])}</span>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 space-y-3 shrink-0">
+          <label className="flex items-center gap-2 text-[10px] font-black text-slate-600 uppercase">
+            <input type="checkbox" checked={saveProfile} onChange={e => setSaveProfile(e.target.checked)} />
+            Save as profile
+            <input type="text" value={profileName} disabled={!saveProfile} onChange={e => setProfileName(e.target.value)}
+              className="flex-1 px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[10px] font-bold normal-case disabled:opacity-40" />
+          </label>
+          <div className="flex gap-3">
+            <button onClick={onSkip} className="px-6 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-400">Skip File</button>
+            <button disabled={!canConfirm}
+              onClick={() => onConfirm({ mapping, hubCode, timeMode, profileName: saveProfile && profileName.trim() ? profileName.trim() : undefined })}
+              className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs disabled:opacity-30">Import</button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingModal;
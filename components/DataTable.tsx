@@ -1,20 +1,25 @@
 
-import React from 'react';
-import { AIRPORT_REGIONS, REGION_COLORS } from '../constants';
-import { Region } from '../types';
+import React, { useMemo } from 'react';
+import { RegionDefinition } from '../types';
+import { DEFAULT_REGIONS } from '../constants';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX } from '../utils/airports';
+import { buildRegionIndex, classifyAirport, getLeafRegionId, getRegionLabel, getRegionStyle } from '../utils/regions';
 
 interface DataTableProps {
   data: any[];
   freqMode?: 'weekly' | 'daily';
+  airports?: AirportIndex;
+  regions?: RegionDefinition[];
 }
 
-const DataTable: React.FC<DataTableProps> = ({ data, freqMode = 'weekly' }) => {
+const DataTable: React.FC<DataTableProps> = ({ data, freqMode = 'weekly', airports = DEFAULT_AIRPORT_INDEX, regions = DEFAULT_REGIONS }) => {
+  const regionIndex = useMemo(() => buildRegionIndex(regions), [regions]);
+
   const getRegionTag = (code: string) => {
-    const region = AIRPORT_REGIONS[code?.toUpperCase()] || Region.Unknown;
-    const colorClass = REGION_COLORS[region];
+    const leaf = getLeafRegionId(classifyAirport(code, regions, airports));
     return (
-      <span className={`px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-tighter ${colorClass}`}>
-        {region}
+      <span style={getRegionStyle(leaf, regionIndex)} className="px-2 py-0.5 rounded text-[9px] font-black uppercase tracking-tighter">
+        {getRegionLabel(leaf, regionIndex)}
       </span>
     );
   };
@@ -65,6 +70,7 @@ const DataTable: React.FC<DataTableProps> = ({ data, freqMode = 'weekly' }) => {
                 Dep Pax
               </th>
               <th className="px-4 py-4 font-black text-slate-500 uppercase text-[10px] tracking-wider text-right">Dep Airline</th>
+              <th className="px-4 py-4 font-black text-slate-500 uppercase text-[10px] tracking-wider text-right">Validity</th>
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-100">
@@ -102,6 +108,9 @@ const DataTable: React.FC<DataTableProps> = ({ data, freqMode = 'weekly' }) => {
                   {formatStats(row.departurePax)}
                 </td>
                 <td className="px-4 py-3 font-bold text-slate-500 italic text-right">{row.departureAirline || '—'}</td>
+                <td className="px-4 py-3 text-slate-500 text-right tabular-nums text-[10px] whitespace-nowrap">
+                  {row.effectiveFrom || row.effectiveTo ? `${row.effectiveFrom || '…'} → ${row.effectiveTo || '…'}` : '—'}
+                </td>
               </tr>
             ))}
           </tbody>
@@ -1,8 +1,14 @@
 
 import { GoogleGenAI } from "@google/genai";
 import React, { useLayoutEffect, useMemo, useRef, useState, useEffect } from 'react';
-import { AIRPORT_REGIONS, BLR_CATCHMENT, INDIAN_AIRPORTS, REGION_COLORS } from '../constants';
-import { FlightInfo, HubSlot, Region, MarketSegment } from '../types';
+import { DEFAULT_REGIONS } from '../constants';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX, getAirport, isDomesticAirport } from '../utils/airports';
+import { CarrierAgreements, ConnectivityMode, FlightInfo, HubSlot, MarketSegment, MctRule, RegionDefinition } from '../types';
+import { buildRegionIndex, getLeafRegionId, getRegionLabel, getRegionStyle } from '../utils/regions';
+import { resolveMct } from '../utils/mct';
+import { CONNECTIVITY_MODES, EMPTY_AGREEMENTS, isEligibleConnection } from '../utils/carriers';
+import { ConnectivityOptions, TwoWayConnection, consolidateSlots, getCircuityExclusions, getDayOverlap as computeDayOverlap, getSlotMinutes, getTwoWaySummary as computeTwoWaySummary } from '../utils/connectivity';
+import { getCircuity } from '../utils/geo';
 
 /**
  * HubBankChart: Primary visualization for Hub Bank Structures.
@@ -19,13 +25,24 @@ interface HubBankChartProps {
   highlightCatchment?: boolean;
   highlightConnections?: boolean;
   maxConnectionWindow?: number;
-  mct?: number;
+  mct?: number; // Hours; default when no MCT rule matches
+  mctRules?: MctRule[];
+  connectivityMode?: ConnectivityMode; // All carriers when absent
+  carrierAgreements?: CarrierAgreements;
+  maxCircuity?: number | null; // Routed over direct distance; no limit when absent
   onManualDrop?: (slotIndex: number, type: 'arr' | 'dep', block: FlightInfo, fromSlot?: number) => void;
   onUpdateManualFlight?: (slotIndex: number, type: 'arr' | 'dep', updatedFlight: FlightInfo) => void;
+  timeBasisLabel?: string; // Clock the chart is drawn in, e.g. UTC or hub local
   onHoverManualFlight?: (hover: { slotIndex: number, type: 'arr' | 'dep', flightId?: string, isGroup?: boolean, code?: string } | null) => void;
   hoveredManualFlight?: { slotIndex: number, type: 'arr' | 'dep', flightId?: string, isGroup?: boolean, code?: string } | null;
   freqMode?: 'weekly' | 'daily';
-  isBlrFile?: boolean;
+  selectedDay?: number | null; // ISO weekday of the per-day bank view, null for the whole week
+  airports?: AirportIndex;
+  hubCode?: string;
+  homeCountry?: string; // Country of the hub; same-country ports are domestic
+  focusCode?: string; // Port ringed in the chart and used as the default intel source
+  catchment?: Set<string>;
+  regions?: RegionDefinition[];
 }
 
 interface PinnedIntel {
@@ -43,25 +60,6 @@ interface SelectionRef {
   flightId: string;
 }
 
-interface ConnectionDetails {
-  timeMins: number;
-  focalTime: string;
-  focalFreq: number;
-  connectingTime: string;
-  connectingFreq: number;
-  airline?: string;
-  flightNo?: string;
-}
-
-interface TwoWayConnection {
-  code: string;
-  region: Region;
-  market: MarketSegment;
-  outbounds: ConnectionDetails[];
-  inbounds: ConnectionDetails[];
-  synergyScore: number;
-}
-
 const HubBankChart: React.FC<HubBankChartProps> = ({ 
   data, 
   highlightCatchment, 
@@ -70,11 +68,23 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
   highlightConnections = true,
   maxConnectionWindow = 6,
   mct = 1.5,
+  mctRules = [],
+  connectivityMode,
+  carrierAgreements = EMPTY_AGREEMENTS,
+  maxCircuity = null,
   onHoverManualFlight,
   hoveredManualFlight,
   freqMode = 'weekly',
-  isBlrFile = false
+  selectedDay = null,
+  timeBasisLabel = 'Local',
+  airports = DEFAULT_AIRPORT_INDEX,
+  hubCode = '',
+  homeCountry,
+  focusCode,
+  catchment = new Set<string>(),
+  regions = DEFAULT_REGIONS
 }) => {
+  const regionIndex = useMemo(() => buildRegionIndex(regions), [regions]);
   const chartRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
@@ -97,52 +107,11 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
   const [editingFlight, setEditingFlight] = useState<{ slotIndex: number, type: 'arr' | 'dep', flight: FlightInfo } | null>(null);
   const [pendingDrop, setPendingDrop] = useState<{ slotIndex: number, type: 'arr' | 'dep', block: FlightInfo, fromSlot?: number } | null>(null);
 
-  // CONSOLIDATION LOGIC: Groups flights by port for visualization, but preserves individual identities for analysis.
-  const consolidatedData = useMemo(() => {
-    return data.map(slot => {
-      const groupByType = (flights: FlightInfo[]) => {
-        const manualOnes = flights.filter(f => f.isManual);
-        const autoOnes = flights.filter(f => !f.isManual);
-        
-        const autoGroups: Record<string, FlightInfo[]> = {};
-        autoOnes.forEach(f => {
-          if (!autoGroups[f.code]) autoGroups[f.code] = [];
-          autoGroups[f.code].push(f);
-        });
-        
-        const processedAuto = Object.values(autoGroups).map(group => {
-          if (group.length === 1) return group[0];
-          const first = group[0];
-          return {
-            ...first,
-            id: `merged-${first.code}-${Math.random()}`,
-            freq: group.reduce((sum, f) => sum + f.freq, 0),
-            seats: group.reduce((sum, f) => sum + (f.seats || 0), 0),
-            pax: group.reduce((sum, f) => sum + (f.pax || 0), 0),
-            isMerged: true,
-            mergedFlights: group
-          } as FlightInfo & { isMerged: boolean, mergedFlights: FlightInfo[] };
-        });
-
-        return [...processedAuto, ...manualOnes];
-      };
-      return {
-        ...slot,
-        arrivals: groupByType(slot.arrivals),
-        departures: groupByType(slot.departures)
-      };
-    });
-  }, [data]);
+  const consolidatedData = useMemo(() => consolidateSlots(data), [data]);
 
   // --- HELPER FUNCTIONS ---
 
-  const getMinutes = (slotIndex: number, exactTime?: string) => {
-    if (exactTime && exactTime.includes(':')) {
-      const [h, m] = exactTime.split(':').map(Number);
-      return h * 60 + m;
-    }
-    return slotIndex * 60;
-  };
+  const getMinutes = getSlotMinutes;
 
   const formatMins = (m: number) => {
     const hours = Math.floor(m / 60) % 24;
@@ -150,6 +119,8 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
     return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
   };
 
+  const getDayOverlap = (arr: FlightInfo, dep: FlightInfo, arrMins: number, depMins: number) => computeDayOverlap(arr, dep, arrMins, depMins, selectedDay);
+
   const formatDiff = (m: number) => {
     const h = Math.floor(m / 60);
     const min = Math.round(m % 60);
@@ -167,149 +138,24 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
     return val.toLocaleString(undefined, { maximumFractionDigits: 1 });
   };
 
-  /**
-   * getTwoWaySummary: Deep connectivity analysis engine.
-   */
-  const getTwoWaySummary = (airportCode: string) => {
-    const portSummaryMap: Record<string, TwoWayConnection> = {};
-    const mctMins = Math.round(mct * 60);
-    const windowMins = Math.round(maxConnectionWindow * 60);
-
-    const checkInWindow = (val: number, start: number, duration: number) => {
-      let relativeVal = (val - start + 1440) % 1440;
-      return relativeVal >= 0 && relativeVal <= duration;
-    };
-
-    const getFlattenedFlights = (type: 'arr' | 'dep', code?: string) => {
-      const results: (FlightInfo & { slotIndex: number })[] = [];
-      consolidatedData.forEach((slot, sIdx) => {
-        const list = type === 'arr' ? slot.arrivals : slot.departures;
-        list.forEach(f => {
-          if (code && f.code !== code) return;
-          const individual = (f as any).mergedFlights || [f];
-          individual.forEach((inf: any) => {
-            results.push({ ...inf, slotIndex: sIdx });
-          });
-        });
-      });
-      return results;
-    };
+  const connectivityOptions: ConnectivityOptions = { mct, mctRules, hubCode, connectivityMode, carrierAgreements, maxCircuity, maxConnectionWindow, selectedDay, homeCountry, airports };
 
-    const targetArrivals = getFlattenedFlights('arr', airportCode);
-    const targetDepartures = getFlattenedFlights('dep', airportCode);
+  const getTwoWaySummary = (airportCode: string) => computeTwoWaySummary(consolidatedData, airportCode, connectivityOptions);
 
-    consolidatedData.forEach((slot, sIdx) => {
-      slot.departures.forEach(depBlock => {
-        if (depBlock.code === airportCode) return;
-        const individualDeps = (depBlock as any).mergedFlights || [depBlock];
-        
-        individualDeps.forEach((dep: any) => {
-          let bestConnectionForThisDep: ConnectionDetails | null = null;
-          targetArrivals.forEach(arr => {
-            const arrExact = arr.exactTime || `${arr.slotIndex.toString().padStart(2, '0')}:00`;
-            const depExact = dep.exactTime || `${sIdx.toString().padStart(2, '0')}:00`;
-            const sfMins = getMinutes(arr.slotIndex, arrExact);
-            const tfMins = getMinutes(sIdx, depExact);
-            const validStart = (sfMins + mctMins) % 1440;
-            
-            if (checkInWindow(tfMins, validStart, windowMins)) {
-              const diff = (tfMins - sfMins + 1440) % 1440;
-              if (!bestConnectionForThisDep || diff < bestConnectionForThisDep.timeMins) {
-                bestConnectionForThisDep = {
-                  timeMins: diff,
-                  focalTime: arrExact,
-                  focalFreq: arr.freq,
-                  connectingTime: depExact,
-                  connectingFreq: dep.freq,
-                  airline: dep.airline,
-                  flightNo: dep.flightNo
-                };
-              }
-            }
-          });
-
-          if (bestConnectionForThisDep) {
-            if (!portSummaryMap[dep.code]) {
-              portSummaryMap[dep.code] = { 
-                code: dep.code, 
-                region: dep.region as Region, 
-                market: INDIAN_AIRPORTS.has(dep.code) ? MarketSegment.Domestic : MarketSegment.International,
-                outbounds: [], 
-                inbounds: [], 
-                synergyScore: 0 
-              };
-            }
-            const exists = portSummaryMap[dep.code].outbounds.some(o => 
-              o.connectingTime === (bestConnectionForThisDep as ConnectionDetails).connectingTime && 
-              o.flightNo === (bestConnectionForThisDep as ConnectionDetails).flightNo
-            );
-            if (!exists) {
-              portSummaryMap[dep.code].outbounds.push(bestConnectionForThisDep);
-            }
-          }
-        });
-      });
+  const getPairMct = (arr: FlightInfo, dep: FlightInfo) =>
+    resolveMct(arr, dep, { defaultMins: Math.round(mct * 60), rules: mctRules, hubCode, homeCountry, airports });
 
-      slot.arrivals.forEach(arrBlock => {
-        if (arrBlock.code === airportCode) return;
-        const individualArrs = (arrBlock as any).mergedFlights || [arrBlock];
-
-        individualArrs.forEach((arr: any) => {
-          let bestConnectionForThisArr: ConnectionDetails | null = null;
-          targetDepartures.forEach(dep => {
-            const arrExact = arr.exactTime || `${sIdx.toString().padStart(2, '0')}:00`;
-            const depExact = dep.exactTime || `${dep.slotIndex.toString().padStart(2, '0')}:00`;
-            const sfMins = getMinutes(sIdx, arrExact);
-            const tfMins = getMinutes(dep.slotIndex, depExact);
-            const validStart = (sfMins + mctMins) % 1440;
-
-            if (checkInWindow(tfMins, validStart, windowMins)) {
-              const diff = (tfMins - sfMins + 1440) % 1440;
-              if (!bestConnectionForThisArr || diff < bestConnectionForThisArr.timeMins) {
-                bestConnectionForThisArr = {
-                  timeMins: diff,
-                  focalTime: depExact,
-                  focalFreq: dep.freq,
-                  connectingTime: arrExact,
-                  connectingFreq: arr.freq,
-                  airline: arr.airline,
-                  flightNo: arr.flightNo
-                };
-              }
-            }
-          });
-
-          if (bestConnectionForThisArr) {
-            if (!portSummaryMap[arr.code]) {
-              portSummaryMap[arr.code] = { 
-                code: arr.code, 
-                region: arr.region as Region, 
-                market: INDIAN_AIRPORTS.has(arr.code) ? MarketSegment.Domestic : MarketSegment.International,
-                outbounds: [], 
-                inbounds: [], 
-                synergyScore: 0 
-              };
-            }
-            const exists = portSummaryMap[arr.code].inbounds.some(i => 
-              i.connectingTime === (bestConnectionForThisArr as ConnectionDetails).connectingTime && 
-              i.flightNo === (bestConnectionForThisArr as ConnectionDetails).flightNo
-            );
-            if (!exists) {
-              portSummaryMap[arr.code].inbounds.push(bestConnectionForThisArr);
-            }
-          }
-        });
-      });
-    });
-
-    Object.values(portSummaryMap).forEach(conn => {
-      const inVol = conn.inbounds.reduce((s, i) => s + i.connectingFreq, 0);
-      const outVol = conn.outbounds.reduce((s, o) => s + o.connectingFreq, 0);
-      const balance = Math.min(inVol, outVol) / (Math.max(inVol, outVol) || 1);
-      conn.synergyScore = Math.sqrt(inVol * outVol) * (1 + balance);
-    });
+  const isCircuitousPair = (a: FlightInfo, b: FlightInfo) => {
+    if (!maxCircuity || !hubCode) return false;
+    const circuity = getCircuity(a.code.split(' ')[0], hubCode, b.code.split(' ')[0], airports);
+    return !!circuity && circuity.ratio > maxCircuity;
+  };
 
-    return Object.values(portSummaryMap).sort((a, b) => b.synergyScore - a.synergyScore);
+  // Merged blocks are eligible when any of their flights may connect
+  const isEligiblePair = (arr: FlightInfo, dep: FlightInfo) => {
+    const arrLegs: FlightInfo[] = (arr as any).mergedFlights || [arr];
+    const depLegs: FlightInfo[] = (dep as any).mergedFlights || [dep];
+    return arrLegs.some(a => depLegs.some(d => isEligibleConnection(a.airline, d.airline, connectivityMode, carrierAgreements)));
   };
 
   const getSummary = (source: { slotIndex: number, type: 'arr' | 'dep', flightId?: string }) => {
@@ -317,7 +163,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
     const sourceFlights = source.type === 'arr' ? slot.arrivals : slot.departures;
     const sourceFlight = source.flightId 
       ? sourceFlights.find(f => f.id === source.flightId) 
-      : (sourceFlights.find(f => f.code === 'BLR' || f.isManual) || sourceFlights[0]);
+      : (sourceFlights.find(f => f.code === focusCode || f.isManual) || sourceFlights[0]);
 
     if (!sourceFlight) return null;
 
@@ -329,25 +175,33 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
 
     const stats: Record<string, number> = {};
     const catchmentPorts: [string, number][] = [];
-    const otherIndianPorts: [string, number][] = [];
+    const otherDomesticPorts: [string, number][] = [];
     const intlPorts: [string, number][] = [];
     let totalFreq = 0, totalSeats = 0, totalPax = 0;
     let internationalFreq = 0;
+    const mctApplied: Record<string, { label: string, minutes: number, count: number }> = {};
 
     twoWayList.forEach(conn => {
       const isRelevant = source.type === 'arr' ? conn.outbounds.length > 0 : conn.inbounds.length > 0;
       if (!isRelevant) return;
+      (source.type === 'arr' ? conn.outbounds : conn.inbounds).forEach(c => {
+        const key = `${c.mctRule}-${c.mctMins}`;
+        if (!mctApplied[key]) mctApplied[key] = { label: c.mctRule, minutes: c.mctMins, count: 0 };
+        mctApplied[key].count++;
+      });
 
       const code = conn.code;
-      const isCatchment = BLR_CATCHMENT.has(code);
-      const isIndian = INDIAN_AIRPORTS.has(code);
+      const isCatchment = catchment.has(code);
+      const isDomestic = isDomesticAirport(code, homeCountry, airports);
       
       const matchingFlights: FlightInfo[] = [];
       consolidatedData.forEach(s => {
         const list = source.type === 'arr' ? s.departures : s.arrivals;
         list.filter(f => f.code === code).forEach(f => {
           const individual = (f as any).mergedFlights || [f];
-          individual.forEach((inf: any) => matchingFlights.push(inf));
+          individual
+            .filter((inf: FlightInfo) => source.type === 'arr' ? isEligiblePair(sourceFlight, inf) : isEligiblePair(inf, sourceFlight))
+            .forEach((inf: any) => matchingFlights.push(inf));
         });
       });
 
@@ -358,16 +212,18 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
       totalFreq += freq;
       totalSeats += seats;
       totalPax += pax;
-      stats[conn.region] = (stats[conn.region] || 0) + freq;
+      stats[getLeafRegionId(conn)] = (stats[getLeafRegionId(conn)] || 0) + freq;
 
-      if (!isIndian) internationalFreq += freq;
+      if (!isDomestic) internationalFreq += freq;
 
       if (isCatchment) catchmentPorts.push([code, freq]);
-      else if (isIndian) otherIndianPorts.push([code, freq]);
+      else if (isDomestic) otherDomesticPorts.push([code, freq]);
       else intlPorts.push([code, freq]);
     });
 
-    const offsetMins = Math.round(mct * 60);
+    // The window opens at the shortest MCT that applied to any of this flight's connections
+    const appliedMcts = Object.values(mctApplied).sort((a, b) => b.count - a.count);
+    const offsetMins = appliedMcts.length > 0 ? Math.min(...appliedMcts.map(m => m.minutes)) : Math.round(mct * 60);
     const windowMins = Math.round(maxConnectionWindow * 60);
     const windowStartMins = (earliestMins + (source.type === 'arr' ? offsetMins : -windowMins - offsetMins) + 1440) % 1440;
     const windowEndMins = (latestMins + (source.type === 'arr' ? windowMins + offsetMins : -offsetMins) + 1440) % 1440;
@@ -376,13 +232,14 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
       topRegions: Object.entries(stats).sort((a,b) => b[1]-a[1]).map(([region, freq]) => ({ region, freq })),
       totalFreq, totalSeats, totalPax,
       catchmentPorts: catchmentPorts.sort((a,b) => b[1]-a[1]).slice(0, 5),
-      otherIndianPorts: otherIndianPorts.sort((a,b) => b[1]-a[1]).slice(0, 5),
+      otherDomesticPorts: otherDomesticPorts.sort((a,b) => b[1]-a[1]).slice(0, 5),
       intlPorts: intlPorts.sort((a,b) => b[1]-a[1]).slice(0, 5),
       windowStart: formatMins(windowStartMins), 
       windowEnd: formatMins(windowEndMins),
       focusTime: sourceFlight.isManual ? sourceFlight.exactTime : `${formatMins(earliestMins)}${individualFlights.length > 1 ? '+' : ''}`,
       networkBreadth: Object.keys(stats).length,
       efficiencyIndex: totalFreq > 0 ? (internationalFreq / totalFreq) * 100 : 0,
+      appliedMcts,
       twoWayList
     };
   };
@@ -390,7 +247,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
   const connectionSummary = useMemo(() => {
     if (!hoveredManualFlight) return null;
     return getSummary(hoveredManualFlight);
-  }, [hoveredManualFlight, consolidatedData, maxConnectionWindow, mct, freqMode]);
+  }, [hoveredManualFlight, consolidatedData, maxConnectionWindow, mct, mctRules, connectivityMode, carrierAgreements, maxCircuity, freqMode, selectedDay]);
 
   // --- RENDERING HELPERS AND STATE LOGIC ---
 
@@ -506,7 +363,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
 
       const response = await ai.models.generateContent({
         model: 'gemini-3-pro-preview',
-        contents: `Strategic analysis of these hub blocks for BLR. 
+        contents: `Strategic analysis of these hub blocks for ${hubCode}. 
         MCT: ${mct}h, Connection Window: ${maxConnectionWindow}h. 
         Context: ${JSON.stringify(comparisonData, null, 2)}. 
         Task: Suggest tactical HH:mm retimings to optimize feeds from International markets into the domestic network.`,
@@ -545,10 +402,9 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
       const sourceFlights = hoveredManualFlight.type === 'arr' ? sourceSlot.arrivals : sourceSlot.departures;
       const sourceFlight = hoveredManualFlight.flightId 
         ? sourceFlights.find(f => f.id === hoveredManualFlight.flightId)
-        : (sourceFlights.find(f => f.code === 'BLR' || f.isManual) || sourceFlights[0]);
+        : (sourceFlights.find(f => f.code === focusCode || f.isManual) || sourceFlights[0]);
       
       if (sourceFlight) {
-        const mctMins = Math.round(mct * 60);
         const windowMins = Math.round(maxConnectionWindow * 60);
         const checkInWindow = (val: number, start: number, duration: number) => {
           let relativeVal = (val - start + 1440) % 1440;
@@ -559,11 +415,11 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
         const tfMins = getMinutes(slotIndex, flight.exactTime);
 
         if (hoveredManualFlight.type === 'arr' && type === 'dep') {
-          const validStart = (sfMins + mctMins) % 1440;
-          isConn = checkInWindow(tfMins, validStart, windowMins);
+          const validStart = (sfMins + getPairMct(sourceFlight, flight).minutes) % 1440;
+          isConn = checkInWindow(tfMins, validStart, windowMins) && !!getDayOverlap(sourceFlight, flight, sfMins, tfMins) && isEligiblePair(sourceFlight, flight) && !isCircuitousPair(sourceFlight, flight);
         } else if (hoveredManualFlight.type === 'dep' && type === 'arr') {
-          const validStart = (tfMins + mctMins) % 1440;
-          isConn = checkInWindow(sfMins, validStart, windowMins);
+          const validStart = (tfMins + getPairMct(flight, sourceFlight).minutes) % 1440;
+          isConn = checkInWindow(sfMins, validStart, windowMins) && !!getDayOverlap(flight, sourceFlight, tfMins, sfMins) && isEligiblePair(flight, sourceFlight) && !isCircuitousPair(flight, sourceFlight);
         }
       }
     }
@@ -572,17 +428,15 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
 
     if (flight) {
       const isManual = flight.isManual;
-      const isCatchment = BLR_CATCHMENT.has(flight.code);
+      const isCatchment = catchment.has(flight.code);
       if (flight.code.includes(' NEW')) {
         classes += type === 'arr' ? 'bg-[#dfff00] text-black shadow-lg z-40 animate-pulse border-2 border-white ' : 'bg-[#ff00ff] text-white shadow-lg z-40 animate-pulse border-2 border-white ';
       } else if (isManual) {
         classes += type === 'arr' ? 'bg-[#00ff9d] text-[#004d30] border-2 border-dashed border-white/60 ' : 'bg-[#6366f1] text-white border-2 border-dashed border-white/60 ';
       } else if (highlightCatchment && isCatchment) {
         classes += 'bg-[#ff5f1f] text-white ';
-      } else {
-        classes += `${REGION_COLORS[flight.region as Region] || 'bg-slate-100'} `;
       }
-      if (flight.code === 'BLR' && !isManual) classes += 'ring-2 ring-red-500 z-30 ';
+      if (flight.code === focusCode && !isManual) classes += 'ring-2 ring-red-500 z-30 ';
     } else {
       classes += 'bg-transparent ';
     }
@@ -594,12 +448,17 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
     return classes;
   };
 
+  // Scheduled blocks are filled with their region colour unless another highlight applies
+  const getCellStyle = (flight: FlightInfo | undefined): React.CSSProperties | undefined => {
+    if (!flight || flight.isManual || flight.code.includes(' NEW')) return undefined;
+    if (highlightCatchment && catchment.has(flight.code)) return undefined;
+    return getRegionStyle(getLeafRegionId(flight), regionIndex);
+  };
+
   /**
    * TwoWayCard: Renders individual port connection summaries with Synergy analysis.
    */
   const TwoWayCard: React.FC<{ conn: TwoWayConnection }> = ({ conn }) => {
-    const mctMins = Math.round(mct * 60);
-    
     // Unique focal times across all outbound/inbound items to display at top
     const hubArrTimes = Array.from(new Set(conn.outbounds.map(o => o.focalTime))).sort();
     const hubDepTimes = Array.from(new Set(conn.inbounds.map(i => i.focalTime))).sort();
@@ -607,7 +466,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
     return (
       <div className="bg-white border border-slate-200 rounded-2xl p-4 shadow-sm hover:shadow-md transition-shadow relative overflow-hidden group min-h-[180px] flex flex-col">
         <div className="absolute top-0 right-0 p-1 opacity-20 group-hover:opacity-100 transition-opacity">
-          <div className={`w-2 h-2 rounded-full ${REGION_COLORS[conn.region] || 'bg-slate-200'}`} title={conn.region} />
+          <div className="w-2 h-2 rounded-full" style={getRegionStyle(getLeafRegionId(conn), regionIndex)} title={getRegionLabel(getLeafRegionId(conn), regionIndex)} />
         </div>
         
         <div className="flex justify-between items-start mb-2">
@@ -633,12 +492,15 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
             )}
 
             <div className="flex items-center gap-1.5">
-               <span className="text-[7px] font-black text-slate-400 uppercase tracking-widest">{conn.region}</span>
+               <span className="text-[7px] font-black text-slate-400 uppercase tracking-widest">{getRegionLabel(getLeafRegionId(conn), regionIndex)}</span>
                <div className="w-1 h-1 bg-slate-300 rounded-full" />
                <div className="flex items-center gap-1 text-[8px] font-black text-amber-500 uppercase">
                  <i className="fas fa-bolt text-[7px]"></i>
                  Synergy: {conn.synergyScore.toFixed(1)}
                </div>
+               {conn.circuity !== undefined && Number.isFinite(conn.circuity) && (
+                 <span className="text-[7px] font-black text-slate-400 uppercase tabular-nums" title="Routed over direct distance via the hub">· {conn.circuity.toFixed(2)}× route</span>
+               )}
             </div>
           </div>
         </div>
@@ -651,12 +513,13 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
             <div className="space-y-1.5 overflow-y-auto no-scrollbar pr-0.5">
               {conn.outbounds.length === 0 && <p className="text-[8px] text-slate-300 text-center py-2 uppercase font-black">— No Outbound —</p>}
               {conn.outbounds.map((out, idx) => {
-                const displayTime = subtractMct ? Math.max(0, out.timeMins - mctMins) : out.timeMins;
+                const displayTime = subtractMct ? Math.max(0, out.timeMins - out.mctMins) : out.timeMins;
                 return (
                   <div key={`${out.flightNo}-${idx}`} className="bg-slate-50/50 rounded-lg p-2 border border-slate-100/50">
                     <div className="flex justify-between items-center mb-1">
                       {/* Hub Arr info removed from here as it is now at the top of the card */}
                       <span className="text-[7px] font-bold text-slate-400 tabular-nums">Interval: +{formatDiff(displayTime)}</span>
+                      <span className="text-[7px] font-black text-slate-400 uppercase truncate max-w-[55%]" title={`MCT rule: ${out.mctRule}`}>MCT {out.mctMins}m · {out.mctRule}</span>
                     </div>
                     <div className="flex justify-between items-center">
                       <div className="flex flex-col">
@@ -679,12 +542,13 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
             <div className="space-y-1.5 overflow-y-auto no-scrollbar pr-0.5">
               {conn.inbounds.length === 0 && <p className="text-[8px] text-slate-300 text-center py-2 uppercase font-black">— No Inbound —</p>}
               {conn.inbounds.map((inc, idx) => {
-                const displayTime = subtractMct ? Math.max(0, inc.timeMins - mctMins) : inc.timeMins;
+                const displayTime = subtractMct ? Math.max(0, inc.timeMins - inc.mctMins) : inc.timeMins;
                 return (
                   <div key={`${inc.flightNo}-${idx}`} className="bg-slate-50/50 rounded-lg p-2 border border-slate-100/50">
                     <div className="flex justify-between items-center mb-1">
                       {/* Hub Dep info removed from here as it is now at the top of the card */}
                       <span className="text-[7px] font-bold text-slate-400 tabular-nums">Interval: -{formatDiff(displayTime)}</span>
+                      <span className="text-[7px] font-black text-slate-400 uppercase truncate max-w-[55%]" title={`MCT rule: ${inc.mctRule}`}>MCT {inc.mctMins}m · {inc.mctRule}</span>
                     </div>
                     <div className="flex justify-between items-center">
                       <div className="flex flex-col">
@@ -711,6 +575,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
   const IntelCard: React.FC<{ source: { slotIndex: number, type: 'arr' | 'dep', flightId?: string }, flight: FlightInfo, onRemove?: () => void, isPinned?: boolean, onDragStart?: (e: React.MouseEvent) => void }> = ({ source, flight, onRemove, isPinned, onDragStart }) => {
     const summary = getSummary(source);
     if (!summary) return null;
+    const airport = getAirport(flight.code.split(' ')[0], airports);
     
     return (
       <div className={`bg-slate-900/95 backdrop-blur-xl border border-white/10 rounded-xl shadow-2xl p-4 w-[380px] text-white overflow-hidden ${isPinned ? 'cursor-default' : 'pointer-events-none'}`}>
@@ -720,7 +585,13 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
               <span className="text-lg font-black uppercase text-indigo-400 leading-none">{flight.code}</span>
               <span className="text-xs font-black text-white/40">{flight.airline} {flight.flightNo}</span>
             </div>
+            {airport && (
+              <span className="text-[8px] font-bold text-slate-500 truncate max-w-[240px] mt-0.5">{airport.name} · {airport.country}</span>
+            )}
             <span className="text-[8px] font-bold text-slate-400 uppercase tracking-widest mt-1">Bank Focal: {summary.focusTime}</span>
+            {flight.link && (
+              <span className={`text-[8px] font-black uppercase tracking-widest mt-0.5 ${flight.link.confirmed ? 'text-emerald-400' : 'text-amber-400'}`}><i className="fas fa-link mr-1"></i>Linked to {flight.link.hub}{flight.link.confirmed ? '' : ' · Auto'}</span>
+            )}
           </div>
           {onRemove && (
             <button 
@@ -749,6 +620,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
                       <span className="text-[7px] text-slate-600 px-1 border border-slate-800 rounded">{f.airline || '—'}</span>
                     </div>
                     <div className="flex items-center gap-2 text-[7px] font-black uppercase text-slate-400">
+                       {f.days && <span className="tabular-nums tracking-widest text-slate-500">{'1234567'.split('').map((d: string) => f.days.includes(d) ? d : '·').join('')}</span>}
                        <span>F: {formatVal(f.freq)}</span>
                     </div>
                   </div>
@@ -775,16 +647,45 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
           <div className="bg-white/5 rounded-lg p-3 border border-white/5">
              <p className="text-[8px] font-black text-slate-400 uppercase mb-1.5 flex items-center gap-1.5">
                <i className="fas fa-link text-indigo-400 text-[9px]"></i> VALID CONNECTION INTERVAL
+               {connectivityMode && connectivityMode !== 'all' && <span className="ml-auto px-1.5 py-0.5 rounded bg-indigo-500/20 text-indigo-300 text-[7px]">{CONNECTIVITY_MODES.find(m => m.id === connectivityMode)?.label} only</span>}
              </p>
              <div className="flex items-center justify-between">
                 <p className="text-sm font-black text-indigo-400 tracking-tight leading-none">{summary.windowStart} — {summary.windowEnd}</p>
                 <div className="flex items-center gap-1 bg-white/5 px-2 py-1 rounded">
                   <span className="text-[7px] font-bold text-slate-500 uppercase">MCT Buff</span>
-                  <span className="text-[10px] font-black text-white leading-none">{mct}h</span>
+                  <span className="text-[10px] font-black text-white leading-none">{summary.appliedMcts.length > 0 ? `${Math.min(...summary.appliedMcts.map(m => m.minutes))}m` : `${mct}h`}</span>
                 </div>
              </div>
+             {summary.appliedMcts.length > 0 && (
+               <div className="mt-2 pt-2 border-t border-white/5 space-y-0.5">
+                 {summary.appliedMcts.slice(0, 4).map(m => (
+                   <div key={`${m.label}-${m.minutes}`} className="flex justify-between text-[7px] font-black uppercase">
+                     <span className="text-slate-400 truncate">MCT Rule: {m.label}</span>
+                     <span className="text-white/70 tabular-nums shrink-0 ml-2">{m.minutes}m · {m.count} conn</span>
+                   </div>
+                 ))}
+               </div>
+             )}
           </div>
 
+          {summary.topRegions.length > 0 && (
+            <div className="space-y-1.5">
+              <div className="flex h-1.5 rounded-full overflow-hidden">
+                {summary.topRegions.map(({ region, freq }) => (
+                  <div key={region} style={{ width: `${(freq / (summary.totalFreq || 1)) * 100}%`, backgroundColor: getRegionStyle(region, regionIndex).backgroundColor }} />
+                ))}
+              </div>
+              <div className="flex flex-wrap gap-x-2.5 gap-y-1">
+                {summary.topRegions.slice(0, 5).map(({ region, freq }) => (
+                  <span key={region} className="flex items-center gap-1 text-[7px] font-black text-slate-400 uppercase">
+                    <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: getRegionStyle(region, regionIndex).backgroundColor }} />
+                    {getRegionLabel(region, regionIndex)} <span className="text-white/70">{formatVal(freq)}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          )}
+
           <div className="grid grid-cols-3 gap-2">
             <div className="space-y-1.5">
               <span className="text-[7px] font-black text-emerald-400 uppercase block tracking-widest leading-none">INTL</span>
@@ -798,7 +699,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
               </div>
             </div>
             <div className="space-y-1.5">
-              <span className="text-[7px] font-black text-amber-400 uppercase block tracking-widest leading-none">BLR-C</span>
+              <span className="text-[7px] font-black text-amber-400 uppercase block tracking-widest leading-none">{hubCode}-C</span>
               <div className="space-y-1">
                 {summary.catchmentPorts.slice(0, 4).map(([p, f]) => (
                   <div key={p} className="flex justify-between text-[8px] font-black bg-white/5 px-1.5 py-1 rounded border border-white/5">
@@ -811,7 +712,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
             <div className="space-y-1.5">
               <span className="text-[7px] font-black text-indigo-400 uppercase block tracking-widest leading-none">OTHER</span>
               <div className="space-y-1">
-                {summary.otherIndianPorts.slice(0, 4).map(([p, f]) => (
+                {summary.otherDomesticPorts.slice(0, 4).map(([p, f]) => (
                   <div key={p} className="flex justify-between text-[8px] font-black bg-white/5 px-1.5 py-1 rounded border border-white/5">
                     <span className="text-white/80">{p}</span>
                     <span className="text-indigo-400">{formatVal(f)}</span>
@@ -901,6 +802,8 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
                     const flight = (firstRef.type === 'arr' ? consolidatedData[firstRef.slotIndex].arrivals : consolidatedData[firstRef.slotIndex].departures).find(f => f.id === firstRef.flightId);
                     if (!flight) return null;
                     const summary = getTwoWaySummary(flight.code);
+                    const exclusions = getCircuityExclusions(consolidatedData, flight.code, connectivityOptions)
+                      .filter(x => modalMarketFilter === MarketSegment.All || (isDomesticAirport(x.code, homeCountry, airports) ? MarketSegment.Domestic : MarketSegment.International) === modalMarketFilter);
                     
                     const filtered = summary.filter(c => {
                       const isMarketMatch = modalMarketFilter === MarketSegment.All || c.market === modalMarketFilter;
@@ -938,30 +841,51 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
                     }
 
                     const grouped = filtered.reduce((acc, c) => {
-                      if (!acc[c.region]) acc[c.region] = [];
-                      acc[c.region].push(c);
+                      const leaf = getLeafRegionId(c);
+                      if (!acc[leaf]) acc[leaf] = [];
+                      acc[leaf].push(c);
                       return acc;
                     }, {} as Record<string, TwoWayConnection[]>);
 
                     return (
                       <div className="space-y-12">
-                        {filtered.length === 0 && (
+                        {filtered.length === 0 && exclusions.length === 0 && (
                           <div className="h-96 flex flex-col items-center justify-center gap-4 text-slate-400">
                              <i className="fas fa-search-minus text-5xl opacity-20"></i>
                              <p className="text-xl font-black uppercase tracking-widest">No connections found in this view</p>
                           </div>
                         )}
-                        {Object.entries(grouped).sort().map(([region, conns]) => (
+                        {Object.entries(grouped).sort((a, b) => getRegionLabel(a[0], regionIndex).localeCompare(getRegionLabel(b[0], regionIndex))).map(([region, conns]) => (
                           <div key={region} className="space-y-6">
                             <h3 className="text-sm font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-4">
-                               <span className={`w-3.5 h-3.5 rounded-full shadow-lg ${REGION_COLORS[region as Region]}`} />
-                               {region} ({conns.length} Ports)
+                               <span className="w-3.5 h-3.5 rounded-full shadow-lg" style={getRegionStyle(region, regionIndex)} />
+                               {getRegionLabel(region, regionIndex)} ({conns.length} Ports)
                             </h3>
                             <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-6">
                                {conns.map(c => <TwoWayCard key={c.code} conn={c} />)}
                             </div>
                           </div>
                         ))}
+                        {exclusions.length > 0 && (
+                          <div className="space-y-6">
+                            <h3 className="text-sm font-black text-slate-500 uppercase tracking-[0.3em] flex items-center gap-4">
+                               <i className="fas fa-route text-red-400"></i>
+                               Excluded by Circuity ({exclusions.length} Ports)
+                            </h3>
+                            <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 2xl:grid-cols-6 gap-6">
+                               {exclusions.map(x => (
+                                 <div key={x.code} className="bg-white/60 border border-dashed border-red-200 rounded-2xl p-4">
+                                   <div className="flex items-center justify-between mb-1.5">
+                                     <h4 className="text-lg font-black text-slate-400 leading-none">{x.code}</h4>
+                                     <span className="text-[7px] font-black text-slate-400 uppercase tracking-widest">{getRegionLabel(getLeafRegionId(x), regionIndex)}</span>
+                                   </div>
+                                   <p className="text-[9px] font-black text-red-500 uppercase leading-snug">{x.reason}</p>
+                                   <p className="text-[8px] font-bold text-slate-400 uppercase tabular-nums mt-1">{Math.round(x.routedKm).toLocaleString()} km routed · {Math.round(x.directKm).toLocaleString()} km direct</p>
+                                 </div>
+                               ))}
+                            </div>
+                          </div>
+                        )}
                       </div>
                     );
                  })()}
@@ -980,7 +904,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
              </div>
              <div className="p-8 space-y-6">
                 <div className="space-y-2">
-                  <label className="text-[10px] font-black uppercase text-slate-400">Target Time</label>
+                  <label className="text-[10px] font-black uppercase text-slate-400">Target Time ({timeBasisLabel})</label>
                   <input type="time" value={pendingDrop.block.exactTime} onChange={e => setPendingDrop({ ...pendingDrop, block: { ...pendingDrop.block, exactTime: e.target.value } })} className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl font-black text-xl" />
                 </div>
                 <button onClick={() => { onManualDrop?.(pendingDrop.slotIndex, pendingDrop.type, pendingDrop.block, pendingDrop.fromSlot); setPendingDrop(null); }} className="w-full py-4 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs">Confirm Placement</button>
@@ -997,6 +921,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
                 <button onClick={() => setEditingFlight(null)}><i className="fas fa-times text-lg text-slate-400"></i></button>
              </div>
              <div className="p-8 space-y-6">
+                <label className="text-[10px] font-black uppercase text-slate-400">Hub Time ({timeBasisLabel})</label>
                 <input type="time" value={editingFlight.flight.exactTime} onChange={e => setEditingFlight({ ...editingFlight, flight: { ...editingFlight.flight, exactTime: e.target.value } })} className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl font-black text-xl" />
                 <input type="text" value={editingFlight.flight.code} onChange={e => setEditingFlight({ ...editingFlight, flight: { ...editingFlight.flight, code: e.target.value.toUpperCase() } })} className="w-full px-5 py-3 bg-slate-50 border border-slate-200 rounded-2xl font-black" />
                 <button onClick={() => { onUpdateManualFlight?.(editingFlight.slotIndex, editingFlight.type, editingFlight.flight); setEditingFlight(null); }} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black uppercase text-xs">Update Matrix</button>
@@ -1011,7 +936,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
           {(() => {
             const slot = consolidatedData[hoveredManualFlight.slotIndex];
             const list = hoveredManualFlight.type === 'arr' ? slot.arrivals : slot.departures;
-            const flight = hoveredManualFlight.flightId ? list.find(f => f.id === hoveredManualFlight.flightId) : (list.find(f => f.code === 'BLR' || f.isManual) || list[0]);
+            const flight = hoveredManualFlight.flightId ? list.find(f => f.id === hoveredManualFlight.flightId) : (list.find(f => f.code === focusCode || f.isManual) || list[0]);
             return flight ? <IntelCard source={hoveredManualFlight} flight={flight} /> : null;
           })()}
         </div>
@@ -1062,6 +987,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
                           onClick={e => flight && handleFlightClick(e, slotIndex, 'arr', flight)}
                           onDoubleClick={() => flight && handleFlightDoubleClick(slotIndex, 'arr', flight)}
                           className={`w-28 border-r border-b border-slate-100 flex items-center justify-center cursor-default ${getCellClasses(flight, rowIndex, 'arr', slotIndex)}`}
+                          style={getCellStyle(flight)}
                           draggable={!!flight}
                           onDragStart={e => { if (flight) { e.dataTransfer.setData('block', JSON.stringify(flight)); e.dataTransfer.setData('blockId', flight.id || ''); e.dataTransfer.setData('fromSlot', slotIndex.toString()); e.dataTransfer.setData('type', 'arr'); } }}
                         >
@@ -1103,6 +1029,7 @@ const HubBankChart: React.FC<HubBankChartProps> = ({
                           onClick={e => flight && handleFlightClick(e, slotIndex, 'dep', flight)}
                           onDoubleClick={() => flight && handleFlightDoubleClick(slotIndex, 'dep', flight)}
                           className={`w-28 border-r border-b border-slate-100 flex items-center justify-center cursor-default ${getCellClasses(flight, rowIndex, 'dep', slotIndex)}`}
+                          style={getCellStyle(flight)}
                           draggable={!!flight}
                           onDragStart={e => { if (flight) { e.dataTransfer.setData('block', JSON.stringify(flight)); e.dataTransfer.setData('blockId', flight.id || ''); e.dataTransfer.setData('fromSlot', slotIndex.toString()); e.dataTransfer.setData('type', 'dep'); } }}
                         >
@@ -0,0 +1,111 @@
+
+import React, { useMemo, useState } from 'react';
+import { AirportDataset, FlightInfo } from '../types';
+import { HubLinkRecord, LinkEnd, findBlock, flightIdentity, listHubLinks } from '../utils/links';
+import { ManualBlocks } from '../utils/storage';
+
+interface BlockRef {
+  datasetId: string;
+  blockId: string;
+}
+
+interface HubLinksModalProps {
+  manualBlocks: ManualBlocks;
+  datasets: AirportDataset[];
+  activeDataset: AirportDataset;
+  onConfirm: (record: HubLinkRecord) => void;
+  onBreak: (record: HubLinkRecord) => void;
+  onLink: (a: BlockRef, b: BlockRef) => void;
+  onClose: () => void;
+}
+
+const listBlocks = (slots: ManualBlocks[string] | undefined, type: 'arr' | 'dep'): FlightInfo[] =>
+  Object.keys(slots || {}).flatMap(k => (type === 'arr' ? slots![parseInt(k)].arrivals : slots![parseInt(k)].departures) || []);
+
+const EndLabel: React.FC<{ end: LinkEnd }> = ({ end }) => (
+  <div className="flex-1 min-w-0">
+    <div className="flex items-center gap-1.5">
+      <span className="text-xs font-black text-slate-800">{end.hub}</span>
+      <span className="text-[8px] font-black text-slate-400">{end.type === 'arr' ? 'ARR' : 'DEP'}</span>
+      <span className="text-[10px] font-black text-slate-600 truncate">{end.flight.code}</span>
+      <span className="ml-auto text-[10px] font-black text-slate-800">{end.flight.exactTime}</span>
+    </div>
+    <div className="text-[8px] font-bold text-slate-400 uppercase truncate">{flightIdentity(end.flight)}{end.flight.originalHubTime && ` · anchor ${end.flight.originalHubTime}`}</div>
+  </div>
+);
+
+/**
+ * HubLinksModal: Cross-hub links between manual blocks. Links made automatically can be confirmed
+ * or broken; blocks at the active hub can be linked by hand to a block for the same flight at the
+ * other hub.
+ */
+const HubLinksModal: React.FC<HubLinksModalProps> = ({ manualBlocks, datasets, activeDataset, onConfirm, onBreak, onLink, onClose }) => {
+  const links = useMemo(() => listHubLinks(manualBlocks, datasets), [manualBlocks, datasets]);
+  const [sourceKey, setSourceKey] = useState('');
+  const [targetId, setTargetId] = useState('');
+
+  // Source blocks at the active hub, keyed "arr:id" / "dep:id"
+  const sources = (['arr', 'dep'] as const).flatMap(type => listBlocks(manualBlocks[activeDataset.id], type).map(flight => ({ key: `${type}:${flight.id}`, type, flight })));
+  const source = sources.find(s => s.key === sourceKey);
+  const targetDataset = source && datasets.find(d => d.code === source.flight.code.split(' ')[0].toUpperCase() && d.id !== activeDataset.id);
+  const targets = source && targetDataset
+    ? listBlocks(manualBlocks[targetDataset.id], source.type === 'arr' ? 'dep' : 'arr').filter(f => f.code.split(' ')[0].toUpperCase() === activeDataset.code)
+    : [];
+
+  const link = () => {
+    if (!source?.flight.id || !targetDataset || !findBlock(manualBlocks[targetDataset.id], targetId)) return;
+    onLink({ datasetId: activeDataset.id, blockId: source.flight.id }, { datasetId: targetDataset.id, blockId: targetId });
+    setSourceKey('');
+    setTargetId('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[640px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Cross-Hub Links</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">Moving a linked block moves its counterpart by the same amount</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-5 space-y-2">
+          {links.length === 0 && <p className="text-[9px] text-slate-400 text-center py-6 uppercase font-black">No linked blocks yet</p>}
+          {links.map(r => (
+            <div key={r.id} className={`rounded-xl border p-3 flex items-center gap-3 ${r.broken ? 'border-red-100 bg-red-50/40' : r.confirmed ? 'border-slate-100' : 'border-amber-100 bg-amber-50/40'}`}>
+              <EndLabel end={r.a} />
+              <i className="fas fa-link text-[10px] text-slate-300"></i>
+              {r.b ? <EndLabel end={r.b} /> : <div className="flex-1 text-[9px] font-black text-red-400 uppercase">{r.a.flight.link?.hub} block missing</div>}
+              <div className="flex flex-col items-end gap-1 w-20 shrink-0">
+                <span className={`px-1.5 py-0.5 rounded text-[7px] font-black uppercase text-white ${r.broken ? 'bg-red-500' : r.confirmed ? 'bg-[#006a4e]' : 'bg-amber-500'}`}>{r.broken ? 'Broken' : r.confirmed ? 'Confirmed' : 'Auto'}</span>
+                <div className="flex gap-2">
+                  {!r.confirmed && !r.broken && <button onClick={() => onConfirm(r)} className="text-[8px] font-black text-[#006a4e] hover:underline uppercase">Confirm</button>}
+                  <button onClick={() => onBreak(r)} className="text-[8px] font-black text-red-500 hover:underline uppercase">Break</button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 space-y-2 shrink-0">
+          <div className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Link a {activeDataset.code} block</div>
+          <div className="flex gap-2">
+            <select value={sourceKey} onChange={e => { setSourceKey(e.target.value); setTargetId(''); }} className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black text-slate-700">
+              <option value="">Block at {activeDataset.code}…</option>
+              {sources.map(s => <option key={s.key} value={s.key}>{s.type === 'arr' ? 'ARR' : 'DEP'} {s.flight.code} {s.flight.exactTime}{s.flight.link ? ` (linked to ${s.flight.link.hub})` : ''}</option>)}
+            </select>
+            <select value={targetId} onChange={e => setTargetId(e.target.value)} disabled={targets.length === 0} className="flex-1 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black text-slate-700 disabled:opacity-40">
+              <option value="">{!source ? 'Counterpart…' : !targetDataset ? 'Other hub not loaded' : targets.length === 0 ? `No ${targetDataset.code} blocks for ${activeDataset.code}` : `Block at ${targetDataset.code}…`}</option>
+              {targets.map(f => <option key={f.id} value={f.id}>{f.code} {f.exactTime} · {flightIdentity(f)}{f.link ? ` (linked)` : ''}</option>)}
+            </select>
+            <button onClick={link} disabled={!targetId} className="px-5 py-2 bg-slate-900 text-white rounded-xl font-black uppercase text-[10px] disabled:opacity-30">Link</button>
+          </div>
+          <p className="text-[8px] font-bold text-slate-400">A flight scheduled at the other hub must be moved there once to become a block before it can be linked. Either block's existing link is replaced.</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HubLinksModal;
@@ -0,0 +1,141 @@
+
+import React, { useState } from 'react';
+import { AirportDataset, CatchmentRule } from '../types';
+import { AirportIndex, getAirport } from '../utils/airports';
+import { computeCatchment, getDefaultCatchmentRules, matchCatchmentRule } from '../utils/catchment';
+
+type HubSettings = Pick<AirportDataset, 'homeCountry' | 'focusCode' | 'catchmentRules'>;
+
+interface HubSettingsModalProps {
+  dataset: AirportDataset;
+  airports: AirportIndex;
+  onSave: (settings: HubSettings) => void;
+  onClose: () => void;
+}
+
+// Codes are edited as free text and parsed for the preview and on save
+type DraftRule = Omit<CatchmentRule, 'codes'> & { text: string };
+
+const RULE_KINDS: { kind: CatchmentRule['kind'], label: string, placeholder: string }[] = [
+  { kind: 'radius', label: 'Within', placeholder: '' },
+  { kind: 'states', label: 'States', placeholder: 'KA, TN or IN-KA' },
+  { kind: 'countries', label: 'Countries', placeholder: 'IN, LK' },
+  { kind: 'include', label: 'Include', placeholder: 'HYD, MAA' },
+  { kind: 'exclude', label: 'Exclude', placeholder: 'GOI' }
+];
+
+const toDraft = (rule: CatchmentRule): DraftRule => ({ id: rule.id, kind: rule.kind, km: rule.km, text: rule.codes.join(', ') });
+
+const toRule = (d: DraftRule): CatchmentRule => ({
+  id: d.id,
+  kind: d.kind,
+  km: d.kind === 'radius' ? d.km : undefined,
+  codes: d.kind === 'radius' ? [] : Array.from(new Set(d.text.toUpperCase().split(/[\s,;]+/).filter(Boolean)))
+});
+
+/**
+ * HubSettingsModal: Per-dataset home country, focus port and catchment rules. Blank fields fall
+ * back to the hub airport's country and the hub code. Each rule previews the airports it matches.
+ */
+const HubSettingsModal: React.FC<HubSettingsModalProps> = ({ dataset, airports, onSave, onClose }) => {
+  const airportCountry = getAirport(dataset.code, airports)?.country;
+  const preset = getDefaultCatchmentRules(dataset.code);
+  const [homeCountry, setHomeCountry] = useState(dataset.homeCountry || '');
+  const [focusCode, setFocusCode] = useState(dataset.focusCode || '');
+  const [rules, setRules] = useState<DraftRule[]>((dataset.catchmentRules ?? preset).map(toDraft));
+
+  const effectiveCountry = homeCountry || airportCountry;
+  const parsedRules = rules.map(toRule);
+  const catchment = Array.from(computeCatchment(parsedRules, dataset.code, effectiveCountry, airports)).sort();
+
+  const updateRule = (id: string, patch: Partial<DraftRule>) => setRules(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  const addRule = (kind: CatchmentRule['kind']) =>
+    setRules(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), kind, km: kind === 'radius' ? 300 : undefined, text: '' }]);
+
+  const canSave = (homeCountry === '' || /^[A-Z]{2}$/.test(homeCountry)) && (focusCode === '' || /^[A-Z]{3}$/.test(focusCode));
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[520px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">{dataset.code} Hub Settings</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5 truncate max-w-[360px]">{dataset.fileName}</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-5 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase">Home Country</span>
+              <input type="text" maxLength={2} value={homeCountry} placeholder={airportCountry || 'ISO code'} onChange={e => setHomeCountry(e.target.value.toUpperCase())}
+                className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl font-black text-xs" />
+              <span className="text-[8px] font-bold text-slate-400">Same-country ports count as domestic</span>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-[9px] font-black text-slate-400 uppercase">Focus Port</span>
+              <input type="text" maxLength={3} value={focusCode} placeholder={dataset.code} onChange={e => setFocusCode(e.target.value.toUpperCase())}
+                className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl font-black text-xs" />
+              <span className="text-[8px] font-bold text-slate-400">Always shown and ringed in the bank</span>
+            </label>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-[9px] font-black text-slate-400 uppercase">Catchment Rules</span>
+              <div className="flex gap-3">
+                {preset.length > 0 && <button onClick={() => setRules(preset.map(toDraft))} className="text-[8px] font-black text-slate-400 uppercase hover:text-[#006a4e]">Use Preset</button>}
+                <button onClick={() => setRules([])} className="text-[8px] font-black text-slate-400 uppercase hover:text-red-500">Clear</button>
+              </div>
+            </div>
+            {rules.length === 0 && <p className="text-[9px] text-slate-400 text-center py-3 uppercase font-black">No catchment</p>}
+            {rules.map((rule, i) => {
+              const matched = matchCatchmentRule(parsedRules[i], dataset.code, effectiveCountry, airports);
+              const kind = RULE_KINDS.find(k => k.kind === rule.kind)!;
+              return (
+                <div key={rule.id} className={`rounded-xl border p-2.5 space-y-1.5 ${rule.kind === 'exclude' ? 'border-red-100 bg-red-50/40' : 'border-slate-100 bg-slate-50/60'}`}>
+                  <div className="flex items-center gap-2">
+                    <span className="text-[9px] font-black text-slate-600 uppercase w-16">{kind.label}</span>
+                    {rule.kind === 'radius' ? (
+                      <div className="flex items-center gap-1.5">
+                        <input type="number" min={0} step={50} value={rule.km ?? ''} onChange={e => updateRule(rule.id, { km: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                          className="w-20 px-2 py-1 bg-white border border-slate-200 rounded-lg text-[10px] font-bold" />
+                        <span className="text-[9px] font-black text-slate-400 uppercase">km of {dataset.code}</span>
+                      </div>
+                    ) : (
+                      <input type="text" value={rule.text} placeholder={kind.placeholder} onChange={e => updateRule(rule.id, { text: e.target.value })}
+                        className="flex-1 px-2 py-1 bg-white border border-slate-200 rounded-lg text-[10px] font-bold uppercase" />
+                    )}
+                    <button onClick={() => setRules(prev => prev.filter(r => r.id !== rule.id))} className="ml-auto text-slate-300 hover:text-red-500"><i className="fas fa-trash text-[10px]"></i></button>
+                  </div>
+                  <p className="text-[8px] font-bold text-slate-400 leading-relaxed">
+                    <span className={`font-black ${rule.kind === 'exclude' ? 'text-red-500' : 'text-[#006a4e]'}`}>{rule.kind === 'exclude' ? '−' : '+'}{matched.length}</span>
+                    {matched.length > 0 && ` · ${matched.slice(0, 24).join(' ')}${matched.length > 24 ? ` +${matched.length - 24} more` : ''}`}
+                  </p>
+                </div>
+              );
+            })}
+            <div className="flex flex-wrap gap-1.5">
+              {RULE_KINDS.map(k => (
+                <button key={k.kind} onClick={() => addRule(k.kind)} className="px-2 py-1 rounded-lg border border-slate-200 text-[8px] font-black text-slate-500 uppercase hover:bg-slate-50">+ {k.label}</button>
+              ))}
+            </div>
+            <div className="rounded-xl bg-[#ff5f1f]/5 border border-[#ff5f1f]/20 p-2.5">
+              <span className="text-[9px] font-black text-[#ff5f1f] uppercase">Catchment · {catchment.length} airports</span>
+              <p className="text-[8px] font-bold text-slate-500 mt-1 leading-relaxed">{catchment.join(' ') || '—'}</p>
+            </div>
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-400">Cancel</button>
+          <button disabled={!canSave}
+            onClick={() => { onSave({ homeCountry: homeCountry || undefined, focusCode: focusCode || undefined, catchmentRules: parsedRules }); onClose(); }}
+            className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs disabled:opacity-30">Save</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HubSettingsModal;
@@ -0,0 +1,111 @@
+
+import React, { useState } from 'react';
+import { ImportReport } from '../types';
+
+interface ImportReportPanelProps {
+  reports: ImportReport[];
+  onClose: () => void;
+}
+
+/**
+ * ImportReportPanel: Post-upload validation summary, one tab per ingested file.
+ */
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ reports, onClose }) => {
+  const [activeIdx, setActiveIdx] = useState(0);
+  const report = reports[Math.min(activeIdx, reports.length - 1)];
+  if (!report) return null;
+
+  const Section: React.FC<{ title: string, count: number, tone: string, children: React.ReactNode }> = ({ title, count, tone, children }) => (
+    <div className="space-y-2">
+      <h4 className={`text-[9px] font-black uppercase tracking-widest ${tone}`}>{title} ({count})</h4>
+      {count === 0
+        ? <p className="text-[9px] text-slate-300 uppercase font-black">— None —</p>
+        : <div className="max-h-40 overflow-y-auto no-scrollbar border border-slate-100 rounded-xl divide-y divide-slate-50">{children}</div>}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[560px] max-h-[85vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <h3 className="text-white text-xs font-black uppercase tracking-widest">Import Report</h3>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        {reports.length > 1 && (
+          <div className="flex gap-1 px-6 pt-4 overflow-x-auto no-scrollbar shrink-0">
+            {reports.map((r, i) => (
+              <button key={`${r.fileName}-${i}`} onClick={() => setActiveIdx(i)}
+                className={`px-3 py-1 rounded text-[8px] font-black uppercase tracking-widest whitespace-nowrap ${i === activeIdx ? 'bg-[#006a4e] text-white' : 'bg-slate-100 text-slate-400'}`}>
+                {r.fileName}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="p-6 space-y-5 overflow-y-auto no-scrollbar">
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest truncate">{report.fileName}</p>
+            {report.timeMode && (
+              <span className="px-2 py-0.5 rounded bg-slate-100 text-[8px] font-black text-slate-500 uppercase tracking-widest shrink-0">
+                {report.timeMode === 'utc' ? 'UTC times → local' : 'Local times'}
+              </span>
+            )}
+          </div>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="bg-slate-50 rounded-xl p-3 text-center border border-slate-100">
+              <span className="block text-[7px] font-black text-slate-400 uppercase mb-0.5">Rows</span>
+              <span className="text-xl font-black text-slate-900">{report.totalRows}</span>
+            </div>
+            <div className="bg-[#006a4e]/5 rounded-xl p-3 text-center border border-[#006a4e]/10">
+              <span className="block text-[7px] font-black text-[#006a4e] uppercase mb-0.5">Accepted</span>
+              <span className="text-xl font-black text-[#006a4e]">{report.acceptedRows}</span>
+            </div>
+            <div className="bg-red-50 rounded-xl p-3 text-center border border-red-100">
+              <span className="block text-[7px] font-black text-red-500 uppercase mb-0.5">Rejected</span>
+              <span className="text-xl font-black text-red-600">{report.rejected.length}</span>
+            </div>
+          </div>
+
+          <Section title="Rejected Rows" count={report.rejected.length} tone="text-red-500">
+            {report.rejected.map((r, i) => (
+              <div key={i} className="flex items-center gap-3 px-3 py-1.5 text-[9px] font-bold">
+                <span className="text-slate-400 tabular-nums w-14 shrink-0">Line {r.line}</span>
+                <span className="text-slate-700">{r.reason}</span>
+              </div>
+            ))}
+          </Section>
+
+          <Section title="Malformed Times & Dates" count={report.malformedTimes.length} tone="text-amber-500">
+            {report.malformedTimes.map((t, i) => (
+              <div key={i} className="flex items-center gap-3 px-3 py-1.5 text-[9px] font-bold">
+                <span className="text-slate-400 tabular-nums w-14 shrink-0">Line {t.line}</span>
+                <span className="text-slate-500 uppercase w-24 shrink-0">{t.field}</span>
+                <span className="text-slate-800 font-black">"{t.value}"</span>
+              </div>
+            ))}
+          </Section>
+
+          <Section title="Unknown Airports" count={report.unknownAirports.length} tone="text-indigo-500">
+            {report.unknownAirports.map(a => (
+              <div key={a.code} className="flex items-center justify-between px-3 py-1.5 text-[9px] font-black">
+                <span className="text-slate-800">{a.code}</span>
+                <span className="text-slate-400">{a.count} row{a.count === 1 ? '' : 's'}</span>
+              </div>
+            ))}
+          </Section>
+
+          {report.missingTimeZones && report.missingTimeZones.length > 0 && (
+            <Section title="No Time Zone (Kept In UTC)" count={report.missingTimeZones.length} tone="text-rose-500">
+              {report.missingTimeZones.map(code => (
+                <div key={code} className="px-3 py-1.5 text-[9px] font-black text-slate-800">{code}</div>
+              ))}
+            </Section>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportReportPanel;
@@ -0,0 +1,138 @@
+
+import React, { useState } from 'react';
+import { AirportDataset } from '../types';
+import { WEEKDAY_LABELS } from '../constants';
+import { Itinerary, ItinerarySearchOptions, searchItineraries } from '../utils/itinerary';
+import { ManualBlocks } from '../utils/storage';
+
+interface ItinerarySearchModalProps {
+  datasets: AirportDataset[];
+  manualBlocks: ManualBlocks;
+  options: Omit<ItinerarySearchOptions, 'maxStops' | 'day'>;
+  initialDay?: number | null;
+  onClose: () => void;
+}
+
+const formatDiff = (m: number) => `${Math.floor(m / 60)}h ${Math.round(m % 60)}m`;
+
+const formatDays = (days: string) => '1234567'.split('').map(d => days.includes(d) ? d : '·').join('');
+
+/**
+ * ItinerarySearchModal: Finds one- and two-stop journeys between two airports through the loaded
+ * hubs, using the current MCT rules, window, carrier eligibility, circuity limit and manual retimings.
+ */
+const ItinerarySearchModal: React.FC<ItinerarySearchModalProps> = ({ datasets, manualBlocks, options, initialDay = null, onClose }) => {
+  const [origin, setOrigin] = useState('');
+  const [destination, setDestination] = useState('');
+  const [day, setDay] = useState<number | null>(initialDay);
+  const [maxStops, setMaxStops] = useState<1 | 2>(2);
+  const [results, setResults] = useState<Itinerary[] | null>(null);
+
+  const canSearch = origin.length === 3 && destination.length === 3 && origin !== destination;
+
+  const search = () => {
+    if (!canSearch) return;
+    setResults(searchItineraries(origin, destination, datasets, manualBlocks, { ...options, maxStops, day }));
+  };
+
+  const swap = () => {
+    setOrigin(destination);
+    setDestination(origin);
+    setResults(null);
+  };
+
+  const inputClass = 'w-20 px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-sm font-black uppercase text-slate-800 text-center';
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[720px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Itinerary Search</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">Through {datasets.map(d => d.code).join(', ') || 'no loaded hubs'} · week of {options.week} · MCT {options.mct}h default · window {options.maxConnectionWindow}h · circuity {options.maxCircuity ? `≤ ${options.maxCircuity}×` : 'no limit'}</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="px-8 py-5 border-b border-slate-100 flex items-end gap-3 shrink-0">
+          <div className="space-y-1">
+            <label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">From</label>
+            <input type="text" value={origin} maxLength={3} placeholder="COK" autoFocus
+              onChange={e => { setOrigin(e.target.value.trim().toUpperCase()); setResults(null); }}
+              onKeyDown={e => e.key === 'Enter' && search()} className={inputClass} />
+          </div>
+          <button onClick={swap} title="Swap" className="pb-2.5 text-slate-300 hover:text-slate-600"><i className="fas fa-exchange-alt"></i></button>
+          <div className="space-y-1">
+            <label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">To</label>
+            <input type="text" value={destination} maxLength={3} placeholder="LHR"
+              onChange={e => { setDestination(e.target.value.trim().toUpperCase()); setResults(null); }}
+              onKeyDown={e => e.key === 'Enter' && search()} className={inputClass} />
+          </div>
+          <div className="space-y-1">
+            <label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">Departing</label>
+            <select value={day ?? ''} onChange={e => { setDay(e.target.value ? parseInt(e.target.value) : null); setResults(null); }}
+              className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-black uppercase text-slate-700">
+              <option value="">Any Day</option>
+              {WEEKDAY_LABELS.map((label, i) => <option key={label} value={i + 1}>{label}</option>)}
+            </select>
+          </div>
+          <div className="space-y-1">
+            <label className="block text-[8px] font-black text-slate-400 uppercase tracking-widest">Stops</label>
+            <div className="flex bg-slate-100 p-0.5 rounded-xl border border-slate-200">
+              {([1, 2] as const).map(n => (
+                <button key={n} onClick={() => { setMaxStops(n); setResults(null); }}
+                  className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase ${maxStops === n ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400'}`}>≤ {n}</button>
+              ))}
+            </div>
+          </div>
+          <button onClick={search} disabled={!canSearch} className="ml-auto px-6 py-2.5 bg-slate-900 text-white rounded-xl font-black uppercase text-[10px] disabled:opacity-30">
+            <i className="fas fa-search mr-1.5"></i>Search
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-5 space-y-2">
+          {results === null && <p className="text-[9px] text-slate-400 text-center py-6 uppercase font-black">Enter an origin and destination</p>}
+          {results?.length === 0 && <p className="text-[9px] text-slate-400 text-center py-6 uppercase font-black">No connecting itineraries through the loaded hubs</p>}
+          {results && results.length > 0 && (
+            <div className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{results.length} itineraries · fastest first</div>
+          )}
+          {results?.map((it, rank) => (
+            <div key={it.id} className={`rounded-xl border p-3 ${rank === 0 ? 'border-[#006a4e]/40 bg-emerald-50/30' : 'border-slate-100'}`}>
+              <div className="flex items-center gap-3 mb-2">
+                <span className="text-xs font-black text-slate-800">{[it.legs[0].from, ...it.legs.map(l => l.to)].join(' → ')}</span>
+                <span className="px-1.5 py-0.5 rounded bg-slate-100 text-[7px] font-black uppercase text-slate-500">{it.connections.length === 1 ? '1 stop' : `${it.connections.length} stops`}</span>
+                <span className="ml-auto text-[8px] font-black text-slate-400 tabular-nums tracking-widest">{formatDays(it.days)}</span>
+                <span className="text-sm font-black text-slate-900 tabular-nums" title={it.elapsedMins === null ? 'A leg end time or time zone is missing' : 'Origin departure to destination arrival'}>
+                  {it.elapsedMins !== null ? formatDiff(it.elapsedMins) : '—'}
+                </span>
+              </div>
+              <div className="space-y-1">
+                {it.legs.map((l, i) => (
+                  <React.Fragment key={i}>
+                    <div className="flex items-center gap-2 text-[10px]">
+                      <span className="w-16 font-black text-slate-500 uppercase">{l.airline} {l.flightNo}</span>
+                      <span className="font-black text-slate-800">{l.from}</span>
+                      <span className="font-bold text-slate-600 tabular-nums">{l.departure || '--:--'}</span>
+                      <i className="fas fa-long-arrow-alt-right text-slate-300"></i>
+                      <span className="font-black text-slate-800">{l.to}</span>
+                      <span className="font-bold text-slate-600 tabular-nums">{l.arrival || '--:--'}</span>
+                      {l.retimed && <span className="px-1.5 py-0.5 rounded bg-[#00ff9d]/30 text-[7px] font-black uppercase text-[#004d30]">Block</span>}
+                    </div>
+                    {it.connections[i] && (
+                      <div className="ml-16 pl-2 text-[8px] font-black text-indigo-500 uppercase">
+                        <i className="fas fa-clock mr-1"></i>{formatDiff(it.connections[i].minutes)} at {it.connections[i].hub}
+                        <span className="text-slate-400"> · MCT {it.connections[i].mctMins}m · {it.connections[i].mctRule}</span>
+                      </div>
+                    )}
+                  </React.Fragment>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ItinerarySearchModal;
@@ -0,0 +1,100 @@
+
+import React, { useState } from 'react';
+import { ConnectionStatus, MctRule } from '../types';
+import { CONNECTION_STATUSES, describeMctRule, getRuleSpecificity } from '../utils/mct';
+
+interface MctRulesModalProps {
+  rules: MctRule[];
+  defaultMct: number; // Hours, from the MCT slider
+  hubCodes: string[];
+  onChange: (rules: MctRule[]) => void;
+  onClose: () => void;
+}
+
+type TextField = 'arrivalCarrier' | 'departureCarrier' | 'arrivalTerminal' | 'departureTerminal';
+
+const TEXT_FIELDS: { key: TextField, placeholder: string, maxLength: number }[] = [
+  { key: 'arrivalCarrier', placeholder: 'Arr CXR', maxLength: 3 },
+  { key: 'departureCarrier', placeholder: 'Dep CXR', maxLength: 3 },
+  { key: 'arrivalTerminal', placeholder: 'Arr T', maxLength: 2 },
+  { key: 'departureTerminal', placeholder: 'Dep T', maxLength: 2 }
+];
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = { DD: 'Dom → Dom', DI: 'Dom → Intl', ID: 'Intl → Dom', II: 'Intl → Intl' };
+
+/**
+ * MctRulesModal: Edits the MCT rules matrix. Blank fields match any value; the most specific
+ * matching rule sets a connection's MCT, and connections no rule matches use the slider default.
+ */
+const MctRulesModal: React.FC<MctRulesModalProps> = ({ rules, defaultMct, hubCodes, onChange, onClose }) => {
+  const [draft, setDraft] = useState<MctRule[]>(rules);
+
+  const update = (id: string, patch: Partial<MctRule>) =>
+    setDraft(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const add = () => setDraft(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), minutes: Math.round(defaultMct * 60) }]);
+
+  const remove = (id: string) => setDraft(prev => prev.filter(r => r.id !== id));
+
+  const save = () => {
+    onChange(draft.map(r => ({ ...r, minutes: Math.max(0, Math.round(r.minutes) || 0) })));
+    onClose();
+  };
+
+  const inputClass = 'w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[9px] font-black uppercase text-slate-700';
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[820px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">MCT Rules</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">Carrier exceptions outrank terminal rules, which outrank status rules · Default {Math.round(defaultMct * 60)}m</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-4">
+          <div className="grid grid-cols-[80px_100px_repeat(4,1fr)_64px_120px_20px] gap-2 pb-2 text-[7px] font-black text-slate-400 uppercase tracking-widest">
+            <span>Hub</span><span>Status</span><span>Arr Carrier</span><span>Dep Carrier</span><span>Arr Terminal</span><span>Dep Terminal</span><span>Minutes</span><span>Applies to</span><span />
+          </div>
+          {draft.length === 0 && <p className="text-[9px] text-slate-400 text-center py-6 uppercase font-black">No rules · every connection uses the default</p>}
+          <div className="divide-y divide-slate-50">
+            {draft.map(r => (
+              <div key={r.id} className="grid grid-cols-[80px_100px_repeat(4,1fr)_64px_120px_20px] items-center gap-2 py-1.5">
+                <select value={r.hub || ''} onChange={e => update(r.id, { hub: e.target.value || undefined })} className={inputClass}>
+                  <option value="">Any</option>
+                  {Array.from(new Set([...hubCodes, ...(r.hub ? [r.hub] : [])])).map(code => <option key={code} value={code}>{code}</option>)}
+                </select>
+                <select value={r.status || ''} onChange={e => update(r.id, { status: (e.target.value || undefined) as ConnectionStatus | undefined })} className={inputClass}>
+                  <option value="">Any</option>
+                  {CONNECTION_STATUSES.map(status => <option key={status} value={status}>{status} · {STATUS_LABELS[status]}</option>)}
+                </select>
+                {TEXT_FIELDS.map(field => (
+                  <input key={field.key} type="text" value={r[field.key] || ''} placeholder={field.placeholder} maxLength={field.maxLength}
+                    onChange={e => update(r.id, { [field.key]: e.target.value.trim().toUpperCase() || undefined })}
+                    className={inputClass} />
+                ))}
+                <input type="number" min="0" step="5" value={r.minutes} onChange={e => update(r.id, { minutes: parseInt(e.target.value) || 0 })} className={inputClass} />
+                <div className="min-w-0">
+                  <div className="text-[8px] font-black text-slate-600 uppercase truncate">{describeMctRule(r)}</div>
+                  <div className="text-[7px] font-bold text-slate-400 uppercase">Specificity {getRuleSpecificity(r)}</div>
+                </div>
+                <button onClick={() => remove(r.id)} title="Delete rule" className="text-slate-300 hover:text-red-500">
+                  <i className="fas fa-trash text-[10px]"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+          <button onClick={add} className="px-4 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-600">+ Rule</button>
+          <button onClick={save} className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs">Save Rules</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MctRulesModal;
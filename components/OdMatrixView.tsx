@@ -0,0 +1,185 @@
+
+import React, { useMemo, useState } from 'react';
+import { HubSlot, RegionDefinition } from '../types';
+import { DEFAULT_REGIONS } from '../constants';
+import { ConnectivityOptions } from '../utils/connectivity';
+import { OdCell, OdMatrix, OdPort, OdSort, buildOdMatrix, odCellKey, sortOdPorts } from '../utils/odMatrix';
+import { buildRegionIndex, getLeafRegionId, getRegionLabel, getRegionStyle } from '../utils/regions';
+
+interface OdMatrixViewProps {
+  data: HubSlot[];
+  options: ConnectivityOptions;
+  hubCode?: string;
+  freqMode?: 'weekly' | 'daily';
+  timeBasisLabel?: string;
+  regions?: RegionDefinition[];
+}
+
+const SORTS: { id: OdSort, label: string }[] = [
+  { id: 'connections', label: 'Connections' },
+  { id: 'best', label: 'Best Time' },
+  { id: 'code', label: 'Code' }
+];
+
+const formatDiff = (m: number) => `${Math.floor(m / 60)}h ${Math.round(m % 60)}m`;
+
+/**
+ * OdMatrixView: Origin × destination matrix for the active hub under the current MCT, window,
+ * eligibility and circuity settings. Cells are heat-coloured by connections or by best connecting
+ * time; clicking one lists its flight pairs.
+ */
+const OdMatrixView: React.FC<OdMatrixViewProps> = ({ data, options, hubCode, freqMode = 'weekly', timeBasisLabel = 'Local', regions = DEFAULT_REGIONS }) => {
+  const regionIndex = useMemo(() => buildRegionIndex(regions), [regions]);
+  const [sort, setSort] = useState<OdSort>('connections');
+  const [groupByRegion, setGroupByRegion] = useState(true);
+  const [heatBy, setHeatBy] = useState<'connections' | 'best'>('connections');
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+
+  const matrix: OdMatrix = useMemo(() => buildOdMatrix(data, options), [data, options]);
+  const rows: OdPort[] = useMemo(() => sortOdPorts(matrix.origins, sort, groupByRegion, regions), [matrix, sort, groupByRegion, regions]);
+  const columns: OdPort[] = useMemo(() => sortOdPorts(matrix.destinations, sort, groupByRegion, regions), [matrix, sort, groupByRegion, regions]);
+  const selected = selectedKey ? matrix.cells[selectedKey] : undefined;
+
+  const cells = Object.values(matrix.cells);
+  const totalConnections = cells.reduce((n, c) => n + c.connections, 0);
+  const bestRange = cells.length > 0
+    ? { min: Math.min(...cells.map(c => c.bestMins)), max: Math.max(...cells.map(c => c.bestMins)) }
+    : { min: 0, max: 0 };
+
+  const formatVal = (val: number) => freqMode === 'daily' ? (val / 7).toFixed(1) : val.toString();
+
+  // Shorter best times run hotter
+  const heat = (cell: OdCell) => heatBy === 'connections'
+    ? cell.connections / (matrix.maxConnections || 1)
+    : 1 - (cell.bestMins - bestRange.min) / ((bestRange.max - bestRange.min) || 1);
+
+  const getCellStyle = (cell: OdCell): React.CSSProperties => {
+    const intensity = heat(cell);
+    return { backgroundColor: `rgba(0, 106, 78, ${0.08 + intensity * 0.82})`, color: intensity > 0.5 ? '#ffffff' : '#0f172a' };
+  };
+
+  // First port of each region when grouping, so the group boundary can be drawn
+  const startsGroup = (list: OdPort[], index: number) => groupByRegion && index > 0 && list[index].region !== list[index - 1].region;
+
+  if (cells.length === 0) {
+    return (
+      <div className="h-full flex flex-col items-center justify-center gap-4 bg-white rounded-2xl border border-slate-200 text-slate-400">
+        <i className="fas fa-th text-5xl opacity-20"></i>
+        <p className="text-sm font-black uppercase tracking-widest">No valid connections under the current settings</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex gap-4">
+      <div className="flex-1 min-w-0 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+        <div className="px-5 py-3 border-b border-slate-100 flex items-center justify-between gap-4 shrink-0">
+          <div>
+            <h3 className="text-xs font-black text-slate-800 uppercase tracking-widest">O&amp;D Matrix{hubCode ? ` · ${hubCode}` : ''}</h3>
+            <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-0.5">
+              {rows.length} origins × {columns.length} destinations · {formatVal(totalConnections)} {freqMode === 'daily' ? 'daily' : 'weekly'} connections · {timeBasisLabel}
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex bg-slate-100 p-0.5 rounded-lg border border-slate-200">
+              {SORTS.map(s => (
+                <button key={s.id} onClick={() => setSort(s.id)} className={`px-2 py-1 rounded text-[8px] font-black uppercase tracking-widest ${sort === s.id ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{s.label}</button>
+              ))}
+            </div>
+            <div className="flex bg-slate-100 p-0.5 rounded-lg border border-slate-200">
+              <span className="px-2 py-1 text-[8px] font-black uppercase tracking-widest text-slate-400">Heat</span>
+              {(['connections', 'best'] as const).map(h => (
+                <button key={h} onClick={() => setHeatBy(h)} className={`px-2 py-1 rounded text-[8px] font-black uppercase tracking-widest ${heatBy === h ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{h === 'connections' ? 'Volume' : 'Time'}</button>
+              ))}
+            </div>
+            <button onClick={() => setGroupByRegion(!groupByRegion)} className={`px-2.5 py-1.5 rounded-lg border text-[8px] font-black uppercase tracking-widest ${groupByRegion ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-400 border-slate-200'}`}>
+              <i className="fas fa-layer-group mr-1"></i>By Region
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto">
+          <table className="border-separate border-spacing-0 text-[9px]">
+            <thead>
+              <tr>
+                <th className="sticky top-0 left-0 z-30 bg-white border-b border-r border-slate-200 px-2 py-1 text-left text-[7px] font-black text-slate-400 uppercase">Orig ↓ Dest →</th>
+                {columns.map((col, i) => (
+                  <th key={col.code} title={`${col.code} · ${getRegionLabel(getLeafRegionId(col), regionIndex)} · ${formatVal(col.connections)} conn`}
+                    className={`sticky top-0 z-20 bg-white border-b border-slate-200 px-1 pt-1 pb-0.5 min-w-[46px] ${startsGroup(columns, i) ? 'border-l-2 border-l-slate-300' : ''}`}>
+                    <div className="h-1 rounded-full mb-1" style={{ backgroundColor: getRegionStyle(getLeafRegionId(col), regionIndex).backgroundColor }} />
+                    <div className="font-black text-slate-800">{col.code}</div>
+                    <div className="text-[7px] font-bold text-slate-400 tabular-nums">{formatVal(col.connections)}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, r) => (
+                <tr key={row.code}>
+                  <th title={`${row.code} · ${getRegionLabel(getLeafRegionId(row), regionIndex)}`}
+                    className={`sticky left-0 z-10 bg-white border-r border-slate-200 px-2 py-0.5 text-left whitespace-nowrap ${startsGroup(rows, r) ? 'border-t-2 border-t-slate-300' : ''}`}>
+                    <div className="flex items-center gap-1.5">
+                      <span className="w-1 h-4 rounded-full" style={{ backgroundColor: getRegionStyle(getLeafRegionId(row), regionIndex).backgroundColor }} />
+                      <span className="font-black text-slate-800">{row.code}</span>
+                      <span className="ml-auto pl-2 text-[7px] font-bold text-slate-400 tabular-nums">{formatVal(row.connections)}</span>
+                    </div>
+                  </th>
+                  {columns.map((col, c) => {
+                    const key = odCellKey(row.code, col.code);
+                    const cell = matrix.cells[key];
+                    const groupBorder = `${startsGroup(rows, r) ? 'border-t-2 border-t-slate-300 ' : ''}${startsGroup(columns, c) ? 'border-l-2 border-l-slate-300' : ''}`;
+                    if (!cell) return <td key={col.code} className={`border-b border-r border-slate-50 ${groupBorder}`} />;
+                    return (
+                      <td key={col.code} onClick={() => setSelectedKey(key === selectedKey ? null : key)} style={getCellStyle(cell)}
+                        title={`${row.code} → ${col.code}: ${formatVal(cell.connections)} conn · best ${formatDiff(cell.bestMins)}`}
+                        className={`border-b border-r border-white/60 px-1 py-0.5 text-center cursor-pointer hover:ring-2 hover:ring-inset hover:ring-amber-400 ${key === selectedKey ? 'ring-2 ring-inset ring-amber-400' : ''} ${groupBorder}`}>
+                        <div className="font-black tabular-nums leading-tight">{formatVal(cell.connections)}</div>
+                        <div className="text-[7px] font-bold tabular-nums opacity-70 leading-tight">{formatDiff(cell.bestMins)}</div>
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {selected && (
+        <div className="w-80 shrink-0 bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden flex flex-col">
+          <div className="bg-slate-900 px-5 py-4 flex items-center justify-between shrink-0">
+            <div>
+              <h3 className="text-white text-sm font-black uppercase tracking-widest">{selected.origin} → {selected.destination}</h3>
+              <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest mt-0.5">{selected.pairs.length} flight pairs · {formatVal(selected.connections)} conn · best {formatDiff(selected.bestMins)}</p>
+            </div>
+            <button onClick={() => setSelectedKey(null)}><i className="fas fa-times text-slate-400"></i></button>
+          </div>
+          <div className="flex-1 overflow-y-auto no-scrollbar p-3 space-y-1.5">
+            {selected.pairs.map((pair, i) => (
+              <div key={`${pair.arrival.id}-${pair.departure.id}-${i}`} className="rounded-lg border border-slate-100 bg-slate-50/50 p-2">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[10px] font-black text-slate-800 tabular-nums">{pair.arrivalTime}</div>
+                    <div className="text-[7px] font-bold text-slate-500 uppercase truncate">{pair.arrival.airline} {pair.arrival.flightNo}{pair.arrival.isManual ? ' · Block' : ''}</div>
+                  </div>
+                  <i className="fas fa-long-arrow-alt-right text-slate-300"></i>
+                  <div className="flex-1 min-w-0 text-right">
+                    <div className="text-[10px] font-black text-slate-800 tabular-nums">{pair.departureTime}</div>
+                    <div className="text-[7px] font-bold text-slate-500 uppercase truncate">{pair.departure.airline} {pair.departure.flightNo}{pair.departure.isManual ? ' · Block' : ''}</div>
+                  </div>
+                </div>
+                <div className="flex justify-between mt-1 pt-1 border-t border-slate-100 text-[7px] font-black text-slate-400 uppercase">
+                  <span className="tabular-nums">+{formatDiff(pair.elapsedMins)}</span>
+                  <span className="truncate mx-2" title={`MCT rule: ${pair.mctRule}`}>MCT {pair.mctMins}m · {pair.mctRule}</span>
+                  <span className="tabular-nums">F: {formatVal(pair.frequency)}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OdMatrixView;
@@ -0,0 +1,107 @@
+
+import React, { useState } from 'react';
+import { Region, RegionDefinition } from '../types';
+import { DEFAULT_REGIONS } from '../constants';
+import { UNKNOWN_REGION_ID, getSubRegions, getTopLevelRegions, readableTextColor } from '../utils/regions';
+
+interface RegionManagerModalProps {
+  regions: RegionDefinition[];
+  onChange: (regions: RegionDefinition[]) => void;
+  onClose: () => void;
+}
+
+const parseCodes = (text: string, length: number) =>
+  Array.from(new Set(text.toUpperCase().split(/[\s,;]+/).filter(c => c.length === length)));
+
+/**
+ * RegionManagerModal: Edits the region taxonomy. Each region matches airports by explicit IATA
+ * codes, countries or reference regions; sub-regions refine a parent region.
+ */
+const RegionManagerModal: React.FC<RegionManagerModalProps> = ({ regions, onChange, onClose }) => {
+  const [draft, setDraft] = useState<RegionDefinition[]>(regions);
+  const [revision, setRevision] = useState(0); // Remounts the uncontrolled code inputs after a reset
+
+  const update = (id: string, patch: Partial<RegionDefinition>) =>
+    setDraft(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+
+  const add = (parentId?: string) => setDraft(prev => [...prev, {
+    id: Math.random().toString(36).substr(2, 9),
+    name: parentId ? 'New Sub-region' : 'New Region',
+    color: '#64748b',
+    parentId,
+    baseRegions: [],
+    countries: [],
+    airports: []
+  }]);
+
+  const remove = (id: string) => setDraft(prev => prev.filter(r => r.id !== id && r.parentId !== id));
+
+  const toggleBase = (r: RegionDefinition, base: Region) =>
+    update(r.id, { baseRegions: r.baseRegions.includes(base) ? r.baseRegions.filter(b => b !== base) : [...r.baseRegions, base] });
+
+  const renderRow = (r: RegionDefinition) => (
+    <div key={`${r.id}-${revision}`} className={`grid grid-cols-[28px_150px_1fr_20px] items-start gap-3 py-2 ${r.parentId ? 'pl-8' : ''}`}>
+      <input type="color" value={r.color} onChange={e => update(r.id, { color: e.target.value })} className="w-7 h-7 rounded cursor-pointer border-0 bg-transparent" />
+      <input type="text" value={r.name} onChange={e => update(r.id, { name: e.target.value })}
+        style={{ backgroundColor: r.color, color: readableTextColor(r.color) }}
+        className={`px-2 py-1 rounded-lg font-black uppercase ${r.parentId ? 'text-[9px]' : 'text-[10px]'}`} />
+      <div className="space-y-1">
+        <div className="flex flex-wrap gap-1">
+          {Object.values(Region).map(base => (
+            <button key={base} onClick={() => toggleBase(r, base)}
+              className={`px-1.5 py-0.5 rounded text-[7px] font-black uppercase border ${r.baseRegions.includes(base) ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-300 border-slate-100'}`}>
+              {base}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-2 gap-1">
+          <input type="text" defaultValue={r.countries.join(', ')} placeholder="Countries (IN, LK…)"
+            onBlur={e => update(r.id, { countries: parseCodes(e.target.value, 2) })}
+            className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[9px] font-bold" />
+          <input type="text" defaultValue={r.airports.join(', ')} placeholder="Airports (SYD, MEL…)"
+            onBlur={e => update(r.id, { airports: parseCodes(e.target.value, 3) })}
+            className="px-2 py-1 bg-slate-50 border border-slate-200 rounded-lg text-[9px] font-bold" />
+        </div>
+      </div>
+      {r.id !== UNKNOWN_REGION_ID ? (
+        <button onClick={() => remove(r.id)} title={r.parentId ? 'Delete sub-region' : 'Delete region and its sub-regions'} className="text-slate-300 hover:text-red-500 pt-1.5">
+          <i className="fas fa-trash text-[10px]"></i>
+        </button>
+      ) : <span />}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[760px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Regions</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">Airports match explicit codes first, then country, then reference region</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-4 divide-y divide-slate-50">
+          {getTopLevelRegions(draft).map(r => (
+            <div key={r.id}>
+              {renderRow(r)}
+              {getSubRegions(draft, r.id).map(renderRow)}
+              {r.id !== UNKNOWN_REGION_ID && (
+                <button onClick={() => add(r.id)} className="ml-8 mb-2 text-[8px] font-black text-slate-400 uppercase hover:text-[#006a4e]">+ Sub-region</button>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+          <button onClick={() => add()} className="px-4 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-600">+ Region</button>
+          <button onClick={() => { setDraft(DEFAULT_REGIONS); setRevision(v => v + 1); }} className="px-4 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-400">Reset</button>
+          <button onClick={() => { onChange(draft); onClose(); }} className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs">Save Regions</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegionManagerModal;
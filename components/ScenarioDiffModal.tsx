@@ -0,0 +1,131 @@
+
+import React, { useMemo, useState } from 'react';
+import { AirportDataset, RegionDefinition, WorkspaceSnapshot } from '../types';
+import { AirportIndex } from '../utils/airports';
+import { diffScenarios } from '../utils/scenarioDiff';
+
+interface ScenarioDiffModalProps {
+  snapshots: WorkspaceSnapshot[];
+  live: WorkspaceSnapshot; // Current workspace, selectable as either side
+  datasets: AirportDataset[];
+  regions: RegionDefinition[];
+  airports: AirportIndex;
+  onClose: () => void;
+}
+
+const LIVE_ID = 'live';
+
+const formatDelta = (value: number, digits = 0) => `${value > 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+const deltaClass = (value: number) => value > 0 ? 'text-[#006a4e]' : value < 0 ? 'text-red-500' : 'text-slate-400';
+
+/**
+ * ScenarioDiffModal: Compares two scenarios, or a scenario and the live workspace, hub by hub:
+ * block changes with minute deltas, then connection counts per O&D and synergy scores.
+ */
+const ScenarioDiffModal: React.FC<ScenarioDiffModalProps> = ({ snapshots, live, datasets, regions, airports, onClose }) => {
+  const [leftId, setLeftId] = useState(snapshots[0]?.id || LIVE_ID);
+  const [rightId, setRightId] = useState(LIVE_ID);
+  const [hubId, setHubId] = useState<string | null>(null);
+
+  const resolve = (id: string) => id === LIVE_ID ? live : snapshots.find(s => s.id === id) || live;
+  const left = resolve(leftId);
+  const right = resolve(rightId);
+
+  const diff = useMemo(
+    () => diffScenarios(left, right, datasets, { regions, airports, live }),
+    [left, right, datasets, regions, airports, live]
+  );
+  const hub = diff.find(h => h.datasetId === hubId) || diff[0];
+
+  const picker = (value: string, onChange: (id: string) => void) => (
+    <select value={value} onChange={e => onChange(e.target.value)} className="flex-1 px-3 py-2 bg-slate-800 border border-slate-700 rounded-xl text-[10px] font-black text-white uppercase">
+      <option value={LIVE_ID}>Live Workspace</option>
+      {snapshots.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[900px] h-[85vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 shrink-0 space-y-3">
+          <div className="flex items-center justify-between">
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Compare Scenarios</h3>
+            <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+          </div>
+          <div className="flex items-center gap-3">
+            {picker(leftId, setLeftId)}
+            <i className="fas fa-arrow-right text-slate-500 text-xs"></i>
+            {picker(rightId, setRightId)}
+          </div>
+          <div className="flex gap-4 text-[8px] font-black text-slate-500 uppercase">
+            <span>MCT {left.mct}h → {right.mct}h</span>
+            <span>Window {left.maxConnectionWindow}h → {right.maxConnectionWindow}h</span>
+          </div>
+        </div>
+
+        {diff.length === 0 ? (
+          <p className="flex-1 flex items-center justify-center text-[9px] text-slate-400 uppercase font-black">No differences between these scenarios</p>
+        ) : (
+          <>
+            <div className="bg-slate-50 px-8 border-b border-slate-200 flex items-center gap-1 shrink-0 h-10 overflow-x-auto no-scrollbar">
+              {diff.map(h => (
+                <button key={h.datasetId} onClick={() => setHubId(h.datasetId)}
+                  className={`px-4 h-full text-[10px] font-black uppercase tracking-widest border-b-2 ${hub?.datasetId === h.datasetId ? 'border-[#006a4e] text-[#006a4e] bg-white' : 'border-transparent text-slate-400 hover:text-slate-600'}`}>
+                  {h.code} <span className="text-slate-300">{h.blocks.length}</span>
+                </button>
+              ))}
+            </div>
+            {hub && (
+              <div className="flex-1 grid grid-cols-3 divide-x divide-slate-100 overflow-hidden">
+                <div className="flex flex-col overflow-hidden">
+                  <div className="px-5 py-3 text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">Blocks · {hub.blocks.length}</div>
+                  <div className="flex-1 overflow-y-auto no-scrollbar px-5 pb-4 space-y-1">
+                    {hub.blocks.length === 0 && <p className="text-[9px] text-slate-400 text-center py-4 uppercase font-black">No block changes</p>}
+                    {hub.blocks.map(c => (
+                      <div key={`${c.type}-${c.flight.id}`} className="flex items-center gap-2 py-1 border-b border-slate-50 text-[9px] font-bold">
+                        <span className={`w-14 px-1 py-0.5 rounded text-center text-[7px] font-black uppercase text-white ${c.kind === 'added' ? 'bg-[#006a4e]' : c.kind === 'removed' ? 'bg-red-500' : 'bg-indigo-500'}`}>{c.kind}</span>
+                        <span className="text-[8px] font-black text-slate-400">{c.type === 'arr' ? 'ARR' : 'DEP'}</span>
+                        <span className="flex-1 truncate font-black text-slate-700">{c.flight.code}</span>
+                        <span className="text-slate-500">{c.kind === 'retimed' ? `${c.before} → ${c.after}` : c.after || c.before}</span>
+                        {c.deltaMins !== undefined && <span className={`w-10 text-right font-black ${deltaClass(c.deltaMins)}`}>{formatDelta(c.deltaMins)}m</span>}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col overflow-hidden">
+                  <div className="px-5 py-3 text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">O&D Connections · {hub.od.length}</div>
+                  <div className="flex-1 overflow-y-auto no-scrollbar px-5 pb-4 space-y-1">
+                    {hub.od.length === 0 && <p className="text-[9px] text-slate-400 text-center py-4 uppercase font-black">No connection changes</p>}
+                    {hub.od.map(o => (
+                      <div key={`${o.origin}-${o.destination}`} className="flex items-center gap-2 py-1 border-b border-slate-50 text-[9px] font-bold">
+                        <span className="flex-1 font-black text-slate-700">{o.origin} <span className="text-slate-300">›{hub.code}›</span> {o.destination}</span>
+                        <span className="text-slate-500">{o.before} → {o.after}</span>
+                        <span className={`w-8 text-right font-black ${deltaClass(o.after - o.before)}`}>{formatDelta(o.after - o.before)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex flex-col overflow-hidden">
+                  <div className="px-5 py-3 text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">Synergy · {hub.synergy.length}</div>
+                  <div className="flex-1 overflow-y-auto no-scrollbar px-5 pb-4 space-y-1">
+                    {hub.synergy.length === 0 && <p className="text-[9px] text-slate-400 text-center py-4 uppercase font-black">No synergy changes</p>}
+                    {hub.synergy.map(s => (
+                      <div key={s.ports.join('-')} className="flex items-center gap-2 py-1 border-b border-slate-50 text-[9px] font-bold">
+                        <span className="flex-1 font-black text-slate-700">{s.ports[0]} <span className="text-slate-300">⇄</span> {s.ports[1]}</span>
+                        <span className="text-slate-500">{s.before.toFixed(1)} → {s.after.toFixed(1)}</span>
+                        <span className={`w-10 text-right font-black ${deltaClass(s.after - s.before)}`}>{formatDelta(s.after - s.before, 1)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioDiffModal;
@@ -0,0 +1,87 @@
+
+import React, { useMemo, useState } from 'react';
+import { AirportDataset } from '../types';
+import { IataSeason, addDays, getIataSeason, getWeekOperation, listSeasonWeeks, shiftSeason, todayISO } from '../utils/season';
+
+interface SeasonTimelineProps {
+  dataset: AirportDataset;
+  selectedWeek: string | null;
+  onSelectWeek: (week: string) => void;
+  onClose: () => void;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, i) => i);
+
+/**
+ * SeasonTimeline: Week-by-hour movement heatmap across an IATA season, so schedule changes
+ * between validity periods stand out. Clicking a week filters the hub view to it.
+ */
+const SeasonTimeline: React.FC<SeasonTimelineProps> = ({ dataset, selectedWeek, onSelectWeek, onClose }) => {
+  const [season, setSeason] = useState<IataSeason>(() => getIataSeason(selectedWeek || todayISO()));
+  const weeks = useMemo(() => listSeasonWeeks(season), [season]);
+
+  const grid = useMemo(() => weeks.map(week => {
+    const hours = HOURS.map(() => 0);
+    dataset.data.forEach((row: any) => {
+      const hour = parseInt((row.hub_time || '').split(':')[0]);
+      if (isNaN(hour) || hour < 0 || hour > 23) return;
+      (['arrival', 'departure'] as const).forEach(side => {
+        if (!row[`${side}Code`]) return;
+        const { share } = getWeekOperation(row[`${side}Days`] || '', row.effectiveFrom, row.effectiveTo, week);
+        hours[hour] += (row[`${side}Freq`] || 0) * share;
+      });
+    });
+    return hours;
+  }), [dataset, weeks]);
+
+  const maxCell = Math.max(1, ...grid.flat());
+  const totals = grid.map(hours => Math.round(hours.reduce((a, b) => a + b, 0)));
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[880px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">{dataset.code} Season Timeline</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">Weekly movements by hub hour · click a week to filter the bank</p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button onClick={() => setSeason(s => shiftSeason(s, -1))} className="text-slate-400 hover:text-white"><i className="fas fa-chevron-left text-xs"></i></button>
+            <span className="text-white text-xs font-black uppercase tracking-widest w-32 text-center">{season.code} <span className="text-slate-500 text-[8px]">{season.start} → {season.end}</span></span>
+            <button onClick={() => setSeason(s => shiftSeason(s, 1))} className="text-slate-400 hover:text-white"><i className="fas fa-chevron-right text-xs"></i></button>
+            <button onClick={onClose} className="ml-2"><i className="fas fa-times text-lg text-slate-400"></i></button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-6 py-4">
+          <div className="grid grid-cols-[84px_repeat(24,minmax(0,1fr))_56px_48px] gap-px text-[7px] font-black text-slate-400 uppercase sticky top-0 bg-white pb-1">
+            <span>Week Of</span>
+            {HOURS.map(h => <span key={h} className="text-center">{h.toString().padStart(2, '0')}</span>)}
+            <span className="text-right">Total</span>
+            <span className="text-right">Δ</span>
+          </div>
+          {weeks.map((week, w) => {
+            const delta = w > 0 ? totals[w] - totals[w - 1] : 0;
+            const isSelected = week === selectedWeek;
+            return (
+              <button key={week} onClick={() => onSelectWeek(week)} title={`${week} → ${addDays(week, 6)}`}
+                className={`w-full grid grid-cols-[84px_repeat(24,minmax(0,1fr))_56px_48px] gap-px items-center py-px rounded ${isSelected ? 'ring-2 ring-[#006a4e]' : 'hover:bg-slate-50'}`}>
+                <span className="text-[9px] font-black text-slate-600 tabular-nums text-left">{week}</span>
+                {grid[w].map((count, h) => (
+                  <span key={h} title={`${Math.round(count)} movements`} className="h-3.5 rounded-sm"
+                    style={{ backgroundColor: count > 0 ? `rgba(0, 106, 78, ${0.1 + 0.9 * (count / maxCell)})` : '#f1f5f9' }} />
+                ))}
+                <span className="text-[9px] font-black text-slate-800 text-right tabular-nums">{totals[w]}</span>
+                <span className={`text-[9px] font-black text-right tabular-nums ${delta > 0 ? 'text-[#006a4e]' : delta < 0 ? 'text-red-500' : 'text-slate-300'}`}>
+                  {delta > 0 ? `+${delta}` : delta === 0 ? '—' : delta}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SeasonTimeline;
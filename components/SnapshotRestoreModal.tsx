@@ -0,0 +1,69 @@
+
+import React from 'react';
+import { WorkspaceSnapshot } from '../types';
+import { SnapshotSourceCheck } from '../utils/snapshot';
+
+interface SnapshotRestoreModalProps {
+  snapshot: WorkspaceSnapshot;
+  check: SnapshotSourceCheck;
+  onRestore: (dropOrphans: boolean) => void;
+  onClose: () => void;
+}
+
+/**
+ * SnapshotRestoreModal: Shown when a scenario's source datasets are missing or have changed since
+ * capture. Lists the blocks that no longer match a schedule row before the scenario is applied.
+ */
+const SnapshotRestoreModal: React.FC<SnapshotRestoreModalProps> = ({ snapshot, check, onRestore, onClose }) => (
+  <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+    <div className="bg-white rounded-[2rem] shadow-2xl w-[560px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+      <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+        <div>
+          <h3 className="text-white text-xs font-black uppercase tracking-widest">Source Data Changed</h3>
+          <p className="text-[9px] font-bold text-slate-400 mt-0.5 truncate max-w-[400px]">{snapshot.name} · captured {new Date(snapshot.timestamp).toLocaleString()}</p>
+        </div>
+        <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-5 space-y-3">
+        <p className="text-[9px] font-bold text-slate-500 leading-relaxed">
+          {check.orphanCount > 0
+            ? `${check.orphanCount} block${check.orphanCount === 1 ? ' has' : 's have'} no matching flight in the loaded data and will not line up with the schedule.`
+            : 'Every block still matches a flight in the loaded data, but the schedules differ from the ones this scenario was built on.'}
+        </p>
+        {check.issues.map(issue => (
+          <div key={issue.datasetId} className={`rounded-xl border p-3 space-y-2 ${issue.status === 'missing' ? 'border-red-100 bg-red-50/40' : 'border-amber-100 bg-amber-50/40'}`}>
+            <div className="flex items-center gap-2">
+              <span className="text-xs font-black text-slate-800">{issue.code}</span>
+              <span className={`px-1.5 py-0.5 rounded text-[8px] font-black uppercase text-white ${issue.status === 'missing' ? 'bg-red-500' : 'bg-amber-500'}`}>{issue.status === 'missing' ? 'Not Loaded' : 'Changed'}</span>
+              <span className="ml-auto text-[8px] font-black text-slate-400 uppercase">{issue.orphaned.length} orphaned</span>
+            </div>
+            <div className="text-[8px] font-bold text-slate-400 leading-relaxed">
+              {issue.fileName && <div className="truncate">Captured against: {issue.fileName}</div>}
+              {issue.currentFileName && <div className="truncate">Loaded now: {issue.currentFileName}</div>}
+            </div>
+            {issue.orphaned.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {issue.orphaned.map(o => (
+                  <span key={`${o.type}-${o.flight.id || o.flight.code}-${o.hour}`} className="px-1.5 py-0.5 rounded bg-white border border-slate-200 text-[8px] font-black text-slate-600">
+                    <span className="text-slate-400">{o.type === 'arr' ? 'ARR' : 'DEP'}</span> {o.flight.code} {o.flight.exactTime || `${o.hour.toString().padStart(2, '0')}:00`}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+        <button onClick={onClose} className="px-6 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-400">Cancel</button>
+        {check.orphanCount > 0 && (
+          <button onClick={() => { onRestore(true); onClose(); }} className="flex-1 py-3 border border-slate-900 text-slate-900 rounded-2xl font-black uppercase text-xs">Restore Without Orphans</button>
+        )}
+        <button onClick={() => { onRestore(false); onClose(); }} className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs">Restore As Saved</button>
+      </div>
+    </div>
+  </div>
+);
+
+export default SnapshotRestoreModal;
@@ -0,0 +1,68 @@
+
+import React, { useMemo, useState } from 'react';
+import { SsimSchedule, listSsimStations } from '../utils/ssim';
+
+interface SsimImportModalProps {
+  fileName: string;
+  schedule: SsimSchedule;
+  suggestedHub?: string;
+  onConfirm: (hubCode: string) => void;
+  onSkip: () => void;
+}
+
+/**
+ * SsimImportModal: Hub airport selection for an SSIM file. Stations are ranked by movements.
+ */
+const SsimImportModal: React.FC<SsimImportModalProps> = ({ fileName, schedule, suggestedHub, onConfirm, onSkip }) => {
+  const stations = useMemo(() => listSsimStations(schedule), [schedule]);
+  const [hubCode, setHubCode] = useState(
+    (suggestedHub && stations.some(s => s.code === suggestedHub)) ? suggestedHub : (stations[0]?.code || '')
+  );
+  const [query, setQuery] = useState('');
+  const visible = stations.filter(s => !query || s.code.includes(query.toUpperCase()));
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[420px] max-h-[85vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">SSIM Import</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5 truncate max-w-[300px]">{fileName}</p>
+          </div>
+          <button onClick={onSkip}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="px-8 py-4 border-b border-slate-100 grid grid-cols-3 gap-2 shrink-0 text-center">
+          <div><span className="block text-[7px] font-black text-slate-400 uppercase">Carrier</span><span className="text-xs font-black text-slate-800">{schedule.airline || '—'}</span></div>
+          <div><span className="block text-[7px] font-black text-slate-400 uppercase">Season</span><span className="text-xs font-black text-slate-800">{schedule.season || '—'}</span></div>
+          <div><span className="block text-[7px] font-black text-slate-400 uppercase">Times</span><span className="text-xs font-black text-slate-800 uppercase">{schedule.timeMode}</span></div>
+        </div>
+
+        <div className="px-8 pt-4 shrink-0">
+          <input type="text" placeholder="Filter stations..." value={query} onChange={e => setQuery(e.target.value)}
+            className="w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-[10px] font-bold focus:outline-none focus:ring-1 focus:ring-[#006a4e]" />
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-3 space-y-1">
+          {visible.map(s => (
+            <button key={s.code} onClick={() => setHubCode(s.code)}
+              className={`w-full flex items-center justify-between px-3 py-2 rounded-xl border text-[10px] font-black ${hubCode === s.code ? 'bg-[#006a4e] border-[#006a4e] text-white' : 'bg-white border-slate-100 text-slate-700 hover:bg-slate-50'}`}>
+              <span className="text-sm">{s.code}</span>
+              <span className="uppercase text-[8px] opacity-70">{s.arrivals} arr · {s.departures} dep</span>
+            </button>
+          ))}
+          {stations.length === 0 && <p className="text-[9px] text-slate-400 text-center py-6 uppercase font-black">No passenger flight legs found</p>}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+          <button onClick={onSkip} className="px-6 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-400">Skip File</button>
+          <button disabled={!hubCode} onClick={() => onConfirm(hubCode)} className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs disabled:opacity-30">
+            Build {hubCode || 'Hub'} Bank
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SsimImportModal;
@@ -0,0 +1,94 @@
+
+import React, { useState } from 'react';
+import { AirportRecord, Region, UnresolvedAirport } from '../types';
+import { UNKNOWN_COUNTRY } from '../utils/airports';
+
+interface UnresolvedAirportsPanelProps {
+  unresolved: UnresolvedAirport[];
+  homeCountries: Record<string, string | undefined>; // By hub code
+  onResolve: (records: AirportRecord[]) => void;
+  onOpenEditor: (code: string) => void;
+  onClose: () => void;
+}
+
+interface Assignment {
+  region?: Region;
+  domestic: boolean;
+}
+
+const ASSIGNABLE_REGIONS = Object.values(Region).filter(r => r !== Region.Unknown);
+
+/**
+ * UnresolvedAirportsPanel: Lists schedule codes missing from the airport reference so they can be
+ * given a region and market inline. Saved assignments become user airport records.
+ */
+const UnresolvedAirportsPanel: React.FC<UnresolvedAirportsPanelProps> = ({ unresolved, homeCountries, onResolve, onOpenEditor, onClose }) => {
+  const [assignments, setAssignments] = useState<Record<string, Assignment>>({});
+
+  // Domestic means the country of the first hub the code appears at
+  const homeCountryOf = (u: UnresolvedAirport) => u.hubs.map(h => homeCountries[h]).find(Boolean);
+
+  const assign = (code: string, patch: Partial<Assignment>) =>
+    setAssignments(prev => ({ ...prev, [code]: { domestic: false, ...prev[code], ...patch } }));
+
+  const ready = unresolved.filter(u => assignments[u.code]?.region);
+
+  const apply = () => {
+    onResolve(ready.map(u => {
+      const a = assignments[u.code];
+      const home = homeCountryOf(u);
+      return { code: u.code, name: u.code, country: a.domestic && home ? home : UNKNOWN_COUNTRY, region: a.region! };
+    }));
+    setAssignments({});
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[640px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Unresolved Airports</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5">{unresolved.length} code{unresolved.length === 1 ? '' : 's'} not in the airport reference · shown as Unknown</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-4 space-y-1.5">
+          {unresolved.length === 0 && <p className="text-[9px] text-slate-400 text-center py-6 uppercase font-black">Every code is resolved</p>}
+          {unresolved.map(u => {
+            const a = assignments[u.code];
+            const home = homeCountryOf(u);
+            return (
+              <div key={u.code} className="grid grid-cols-[56px_1fr_auto_auto_20px] items-center gap-3 py-1.5 border-b border-slate-50">
+                <span className="text-xs font-black text-slate-800">{u.code}</span>
+                <span className="text-[9px] font-bold text-slate-400 truncate">{u.flights} flight{u.flights === 1 ? '' : 's'} · {u.hubs.join(', ')}</span>
+                <select value={a?.region || ''} onChange={e => assign(u.code, { region: e.target.value as Region })}
+                  className={`px-2 py-1 border rounded-lg text-[9px] font-black uppercase ${a?.region ? 'bg-slate-900 border-slate-900 text-white' : 'bg-white border-slate-200 text-slate-400'}`}>
+                  <option value="">Region…</option>
+                  {ASSIGNABLE_REGIONS.map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+                <div className="flex bg-slate-100 p-0.5 rounded-lg border border-slate-200">
+                  <button disabled={!home} onClick={() => assign(u.code, { domestic: true })} title={home ? `Same country as the hub (${home})` : 'Hub country unknown'}
+                    className={`px-2 py-0.5 rounded text-[8px] font-black uppercase disabled:opacity-30 ${a?.domestic ? 'bg-[#006a4e] text-white' : 'text-slate-400'}`}>Dom</button>
+                  <button onClick={() => assign(u.code, { domestic: false })}
+                    className={`px-2 py-0.5 rounded text-[8px] font-black uppercase ${a && !a.domestic ? 'bg-slate-900 text-white' : 'text-slate-400'}`}>Intl</button>
+                </div>
+                <button onClick={() => onOpenEditor(u.code)} title="Add full airport record" className="text-slate-300 hover:text-slate-600"><i className="fas fa-pen text-[10px]"></i></button>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-400">Close</button>
+          <button disabled={ready.length === 0} onClick={apply}
+            className="flex-1 py-3 bg-slate-900 text-white rounded-2xl font-black uppercase text-xs disabled:opacity-30">
+            Apply {ready.length > 0 ? ready.length : ''} Assignment{ready.length === 1 ? '' : 's'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UnresolvedAirportsPanel;
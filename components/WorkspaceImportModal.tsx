@@ -0,0 +1,108 @@
+
+import React, { useState } from 'react';
+import { AirportDataset, BundleConflictAction, WorkspaceBundle } from '../types';
+import { findBundleConflicts } from '../utils/bundle';
+
+interface WorkspaceImportModalProps {
+  fileName: string;
+  bundle: WorkspaceBundle;
+  datasets: AirportDataset[];
+  onImport: (mode: 'merge' | 'replace', actions: Record<string, BundleConflictAction>) => void;
+  onClose: () => void;
+}
+
+const CONFLICT_ACTIONS: { action: BundleConflictAction, label: string, hint: string }[] = [
+  { action: 'keep', label: 'Keep', hint: 'Keep the loaded dataset and its blocks' },
+  { action: 'replace', label: 'Replace', hint: 'Swap in the bundle dataset and its blocks' },
+  { action: 'both', label: 'Both', hint: 'Load the bundle dataset as an extra tab' }
+];
+
+/**
+ * WorkspaceImportModal: Previews a workspace bundle and imports it by merging into or replacing
+ * the current workspace. Hubs already loaded need a keep / replace / both decision when merging.
+ */
+const WorkspaceImportModal: React.FC<WorkspaceImportModalProps> = ({ fileName, bundle, datasets, onImport, onClose }) => {
+  const [mode, setMode] = useState<'merge' | 'replace'>(datasets.length > 0 ? 'merge' : 'replace');
+  const [actions, setActions] = useState<Record<string, BundleConflictAction>>({});
+  const conflicts = findBundleConflicts(datasets, bundle);
+
+  const counts = [
+    { label: 'Hubs', value: bundle.datasets.length },
+    { label: 'Scenarios', value: bundle.snapshots.length },
+    { label: 'Airports', value: bundle.userAirports.length },
+    { label: 'Regions', value: bundle.regions.length }
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white rounded-[2rem] shadow-2xl w-[520px] max-h-[90vh] overflow-hidden border border-slate-200 flex flex-col">
+        <div className="bg-slate-900 px-8 py-5 flex items-center justify-between shrink-0">
+          <div>
+            <h3 className="text-white text-xs font-black uppercase tracking-widest">Import Workspace</h3>
+            <p className="text-[9px] font-bold text-slate-400 mt-0.5 truncate max-w-[360px]">{fileName} · exported {new Date(bundle.exportedAt).toLocaleString()}</p>
+          </div>
+          <button onClick={onClose}><i className="fas fa-times text-lg text-slate-400"></i></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto no-scrollbar px-8 py-5 space-y-4">
+          <div className="grid grid-cols-4 gap-2">
+            {counts.map(c => (
+              <div key={c.label} className="rounded-xl bg-slate-50 border border-slate-100 py-2 text-center">
+                <div className="text-sm font-black text-slate-800">{c.value}</div>
+                <div className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{c.label}</div>
+              </div>
+            ))}
+          </div>
+          <p className="text-[9px] font-bold text-slate-400 leading-relaxed">{bundle.datasets.map(d => d.code).join(' · ') || 'No hub datasets'}</p>
+
+          <div className="flex bg-slate-100 p-0.5 rounded-xl border border-slate-200">
+            {(['merge', 'replace'] as const).map(m => (
+              <button key={m} onClick={() => setMode(m)}
+                className={`flex-1 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest ${mode === m ? 'bg-slate-900 text-white' : 'text-slate-400'}`}>{m}</button>
+            ))}
+          </div>
+
+          {mode === 'replace' ? (
+            <div className="rounded-xl bg-red-50 border border-red-100 p-3 text-[9px] font-bold text-red-500 leading-relaxed">
+              The loaded datasets, manual blocks, scenarios, airport overrides, regions and filter settings are discarded and replaced by the bundle.
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <span className="text-[9px] font-black text-slate-400 uppercase">Hub Conflicts</span>
+              {conflicts.length === 0 && <p className="text-[9px] text-slate-400 text-center py-3 uppercase font-black">No hub is loaded twice</p>}
+              {conflicts.map(c => {
+                const current = actions[c.incoming.id] || 'keep';
+                return (
+                  <div key={c.incoming.id} className="flex items-center gap-3 rounded-xl border border-amber-100 bg-amber-50/40 p-2.5">
+                    <span className="text-xs font-black text-slate-800 w-10">{c.code}</span>
+                    <div className="flex-1 min-w-0 text-[8px] font-bold text-slate-400 leading-relaxed">
+                      <div className="truncate">Loaded: {c.existing.fileName} · {c.existing.data.length} rows</div>
+                      <div className="truncate">Bundle: {c.incoming.fileName} · {c.incoming.data.length} rows</div>
+                    </div>
+                    <div className="flex bg-white p-0.5 rounded-lg border border-slate-200">
+                      {CONFLICT_ACTIONS.map(a => (
+                        <button key={a.action} title={a.hint} onClick={() => setActions(prev => ({ ...prev, [c.incoming.id]: a.action }))}
+                          className={`px-2 py-0.5 rounded text-[8px] font-black uppercase ${current === a.action ? 'bg-slate-900 text-white' : 'text-slate-400'}`}>{a.label}</button>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              <p className="text-[8px] font-bold text-slate-400 leading-relaxed">Scenarios are added alongside yours. Local airport overrides, regions and filter settings are kept.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="px-8 py-5 border-t border-slate-100 flex gap-3 shrink-0">
+          <button onClick={onClose} className="px-6 py-3 border border-slate-200 rounded-2xl font-black uppercase text-xs text-slate-400">Cancel</button>
+          <button onClick={() => { onImport(mode, actions); onClose(); }}
+            className={`flex-1 py-3 text-white rounded-2xl font-black uppercase text-xs ${mode === 'replace' ? 'bg-red-500' : 'bg-slate-900'}`}>
+            {mode === 'replace' ? 'Replace Workspace' : 'Merge Into Workspace'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceImportModal;
@@ -33,14 +33,59 @@ export interface FlightInfo {
   code: string;
   flightNo?: string;
   freq: number;
+  days?: string; // Operating days as ISO weekday digits, e.g. "135"; empty when unknown
   seats?: number;
   pax?: number;
-  region: Region;
+  region: string; // Top-level RegionDefinition id
+  subRegion?: string; // Sub-region id when one matches
   airline?: string;
   market?: MarketSegment;
   isManual?: boolean;
   exactTime?: string; // e.g. "10:15" (Current Manual Time)
   originalHubTime?: string; // e.g. "10:05" (Anchor from CSV)
+  link?: FlightLink; // Manual blocks only
+  terminal?: string; // Hub terminal the flight uses, when the source file gives one
+}
+
+// Cross-hub link, stored on both blocks; each end points at the other by hub code and block id
+export interface FlightLink {
+  hub: string;
+  blockId: string;
+  confirmed?: boolean; // Reviewed by a user; unconfirmed links were matched automatically
+}
+
+// Whether a source file's clock times are station-local or UTC
+export type TimeMode = 'local' | 'utc';
+
+export interface AirportRecord {
+  code: string; // IATA
+  name: string;
+  city?: string;
+  country: string; // ISO 3166-1 alpha-2
+  state?: string; // Subdivision code, e.g. "KA"
+  region: Region;
+  lat?: number;
+  lon?: number;
+  tz?: string; // IANA zone, e.g. "Asia/Kolkata"
+}
+
+// User-defined region or sub-region. Airports match on explicit codes first, then country,
+// then their reference region; the most specific match wins.
+export interface RegionDefinition {
+  id: string;
+  name: string;
+  color: string; // Hex
+  parentId?: string; // Set for sub-regions (one level deep)
+  baseRegions: Region[];
+  countries: string[]; // ISO 3166-1 alpha-2
+  airports: string[]; // IATA
+}
+
+// A schedule code with no airport record
+export interface UnresolvedAirport {
+  code: string;
+  flights: number; // Schedule legs touching the code
+  hubs: string[]; // Datasets it appears in
 }
 
 export interface AirportDataset {
@@ -48,15 +93,167 @@ export interface AirportDataset {
   code: string;
   fileName: string;
   data: any[];
+  source?: 'csv' | 'ssim';
+  sourceHeaders?: string[]; // Original CSV header row, used to export in the same layout
+  columnMapping?: ColumnMapping;
+  timeMode?: TimeMode; // Basis of the source file; rows are always stored in station-local time
+  homeCountry?: string; // Overrides the hub airport's country; same-country ports are domestic
+  focusCode?: string; // Port kept visible and ringed in the chart; defaults to the hub code
+  catchmentRules?: CatchmentRule[]; // Defaults to the hub's preset catchment
+}
+
+// Catchment = union of radius/states/countries/include rules, minus exclude rules
+export interface CatchmentRule {
+  id: string;
+  kind: 'radius' | 'states' | 'countries' | 'include' | 'exclude';
+  km?: number; // Great-circle radius from the hub, for 'radius'
+  codes: string[]; // Subdivisions ("IN-KA", or "KA" in the home country), countries or IATA codes
+}
+
+export type MappableField =
+  | 'arrivalAirline' | 'arrivalFlightNo' | 'arrivalCode' | 'arrivalDays' | 'arrivalSeats' | 'arrivalPax' | 'arrivalTime' | 'arrivalTerminal'
+  | 'hub_time'
+  | 'departureCode' | 'departureTime' | 'departureDays' | 'departureSeats' | 'departurePax' | 'departureFlightNo' | 'departureAirline' | 'departureTerminal'
+  | 'effectiveFrom' | 'effectiveTo';
+
+// Source column index per dataset field; unmapped fields are omitted
+export type ColumnMapping = Partial<Record<MappableField, number>>;
+
+export interface MappingProfile {
+  id: string;
+  name: string;
+  headers: string[]; // Normalized header signature used for automatic matching
+  mapping: ColumnMapping;
+  timeMode?: TimeMode;
+}
+
+// Identifies the source file a dataset was loaded from, so restored blocks can be checked against it
+export interface DatasetFingerprint {
+  code: string;
+  fileName: string;
+  rows: number;
+  hash: string;
+}
+
+// One manual block edit relative to the parent scenario; `flight` is the block after the edit, or as it was when removed
+export interface ScenarioChange {
+  op: 'add' | 'remove' | 'update';
+  type: 'arr' | 'dep';
+  hour: number;
+  flight: FlightInfo;
 }
 
+// Optional view state fields are absent on snapshots captured before they were recorded
 export interface WorkspaceSnapshot {
   id: string;
+  parentId?: string; // Scenario this one was branched from; absent on roots
+  changes?: Record<string, ScenarioChange[]>; // Block edits relative to the parent, by hub code
+  schemaVersion?: number; // Absent on snapshots saved before versioning (v1)
   name: string;
   timestamp: number;
   manualBlocks: Record<string, Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }>>;
   mct: number;
+  mctRules?: MctRule[];
+  connectivityMode?: ConnectivityMode;
+  carrierAgreements?: CarrierAgreements;
+  maxCircuity?: number | null; // Routed over direct distance; null for no limit
   maxConnectionWindow: number;
-  selectedRegions: Region[];
+  selectedRegions: string[]; // Top-level region ids
+  hiddenSubRegions?: string[];
   marketFilter: MarketSegment;
+  selectedAirlines?: string[];
+  freqMode?: 'weekly' | 'daily';
+  selectedDay?: number | null;
+  selectedWeek?: string | null;
+  timeDisplay?: TimeMode;
+  highlightCatchment?: boolean;
+  alwaysShowFocus?: boolean;
+  activeDatasetId?: string;
+  datasets?: Record<string, DatasetFingerprint>; // By dataset id, for every dataset loaded at capture
+}
+
+// Arriving then departing leg: D = domestic, I = international
+export type ConnectionStatus = 'DD' | 'DI' | 'ID' | 'II';
+
+// Minimum connecting time rule, modelled on an IATA MCT record; blank fields match any connection
+export interface MctRule {
+  id: string;
+  hub?: string;
+  status?: ConnectionStatus;
+  arrivalCarrier?: string;
+  departureCarrier?: string;
+  arrivalTerminal?: string;
+  departureTerminal?: string;
+  minutes: number;
+}
+
+// Which carrier pairs may connect: same carrier only, within an alliance, or also interline partners
+export type ConnectivityMode = 'all' | 'online' | 'alliance' | 'interline';
+
+export interface CarrierAlliance {
+  id: string;
+  name: string;
+  carriers: string[]; // IATA airline codes
+}
+
+// Bilateral interline or codeshare agreement; connections run both ways
+export interface InterlineAgreement {
+  id: string;
+  carriers: [string, string];
+}
+
+export interface CarrierAgreements {
+  alliances: CarrierAlliance[];
+  interlines: InterlineAgreement[];
+}
+
+export interface WorkspaceSettings {
+  mct: number;
+  mctRules?: MctRule[];
+  connectivityMode?: ConnectivityMode;
+  carrierAgreements?: CarrierAgreements;
+  maxCircuity?: number | null;
+  maxConnectionWindow: number;
+  selectedRegions: string[];
+  knownRegions?: string[]; // Top-level region ids when saved; later additions start visible
+  hiddenSubRegions: string[];
+  marketFilter: MarketSegment;
+  timeDisplay: TimeMode;
+}
+
+// Single-file workspace export; manual blocks and snapshot blocks are keyed by dataset id
+export interface WorkspaceBundle {
+  format: 'aerohub-workspace';
+  schemaVersion: number;
+  exportedAt: number;
+  datasets: AirportDataset[];
+  manualBlocks: Record<string, Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }>>;
+  snapshots: WorkspaceSnapshot[];
+  userAirports: AirportRecord[];
+  regions: RegionDefinition[];
+  settings: WorkspaceSettings;
+}
+
+export type BundleConflictAction = 'keep' | 'replace' | 'both';
+
+export interface ImportIssue {
+  line: number;
+  reason: string;
+}
+
+export interface MalformedTime {
+  line: number;
+  field: string;
+  value: string;
+}
+
+export interface ImportReport {
+  fileName: string;
+  totalRows: number;
+  acceptedRows: number;
+  rejected: ImportIssue[];
+  malformedTimes: MalformedTime[];
+  unknownAirports: { code: string; count: number }[];
+  timeMode?: TimeMode;
+  missingTimeZones?: string[]; // Stations left in UTC because their zone is unknown
 }
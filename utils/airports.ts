@@ -0,0 +1,145 @@
+
+import bundledAirports from '../data/airports.json';
+import { AirportDataset, AirportRecord, ImportIssue, Region, UnresolvedAirport } from '../types';
+import { parseCSV, serializeCSV } from './csv';
+
+/**
+ * Airport reference data. The bundled list ships with the app; user records (imported or edited
+ * in the app) override bundled ones with the same code.
+ */
+
+export type AirportIndex = Record<string, AirportRecord>;
+
+export const BUNDLED_AIRPORTS: AirportRecord[] = bundledAirports as AirportRecord[];
+
+export const buildAirportIndex = (userAirports: AirportRecord[] = []): AirportIndex => {
+  const index: AirportIndex = {};
+  BUNDLED_AIRPORTS.forEach(a => { index[a.code] = a; });
+  userAirports.forEach(a => { index[a.code] = a; });
+  return index;
+};
+
+export const DEFAULT_AIRPORT_INDEX = buildAirportIndex();
+
+export const getAirport = (code: string | undefined, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): AirportRecord | undefined =>
+  code ? airports[code.toUpperCase()] : undefined;
+
+export const getAirportRegion = (code: string | undefined, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): Region =>
+  getAirport(code, airports)?.region || Region.Unknown;
+
+// Domestic = same country as the hub; unknown airports are never domestic
+export const isDomesticAirport = (code: string | undefined, homeCountry: string | undefined, airports: AirportIndex = DEFAULT_AIRPORT_INDEX) =>
+  !!homeCountry && getAirport(code, airports)?.country === homeCountry;
+
+// ISO 3166 user-assigned code for an unspecified country; never matches a hub's home country
+export const UNKNOWN_COUNTRY = 'ZZ';
+
+/**
+ * findUnresolvedAirports: Origin and destination codes across all datasets that have no airport
+ * record, busiest first.
+ */
+export const findUnresolvedAirports = (datasets: AirportDataset[], airports: AirportIndex = DEFAULT_AIRPORT_INDEX): UnresolvedAirport[] => {
+  const found: Record<string, UnresolvedAirport> = {};
+  datasets.forEach(ds => {
+    ds.data.forEach((row: any) => {
+      [row.arrivalCode, row.departureCode].forEach((raw: string | undefined) => {
+        const code = (raw || '').toUpperCase();
+        if (!code || airports[code]) return;
+        if (!found[code]) found[code] = { code, flights: 0, hubs: [] };
+        found[code].flights++;
+        if (!found[code].hubs.includes(ds.code)) found[code].hubs.push(ds.code);
+      });
+    });
+  });
+  return Object.values(found).sort((a, b) => b.flights - a.flights || a.code.localeCompare(b.code));
+};
+
+export const isValidTimeZone = (tz: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const REGION_ALIASES: Record<string, Region> = {
+  'africa': Region.Africa, 'af': Region.Africa,
+  'asia/pacific': Region.AsiaPacific, 'asia pacific': Region.AsiaPacific, 'asia': Region.AsiaPacific, 'apac': Region.AsiaPacific,
+  'europe': Region.Europe, 'eu': Region.Europe,
+  'middle east': Region.MiddleEast, 'me': Region.MiddleEast,
+  'americas': Region.Americas, 'america': Region.Americas
+};
+
+export const parseRegion = (value: string): Region | null => REGION_ALIASES[value.trim().toLowerCase()] || null;
+
+/**
+ * validateAirport: Problems that would stop a record from being saved; empty when it is usable.
+ */
+export const validateAirport = (a: Partial<AirportRecord>): string[] => {
+  const problems: string[] = [];
+  if (!a.code || !/^[A-Z]{3}$/.test(a.code)) problems.push('Code must be 3 letters');
+  if (!a.name) problems.push('Name is required');
+  if (!a.country || !/^[A-Z]{2}$/.test(a.country)) problems.push('Country must be a 2-letter ISO code');
+  if (a.lat !== undefined && (isNaN(a.lat) || a.lat < -90 || a.lat > 90)) problems.push('Latitude out of range');
+  if (a.lon !== undefined && (isNaN(a.lon) || a.lon < -180 || a.lon > 180)) problems.push('Longitude out of range');
+  if (a.tz && !isValidTimeZone(a.tz)) problems.push(`Unknown time zone "${a.tz}"`);
+  return problems;
+};
+
+export const AIRPORT_CSV_HEADERS = ['Code', 'Name', 'City', 'Country', 'State', 'Region', 'Lat', 'Lon', 'Time Zone'];
+
+/**
+ * parseAirportCSV: Reads an airport list with the AIRPORT_CSV_HEADERS columns (any order, case-insensitive).
+ * Rows that fail validation are reported and skipped.
+ */
+export const parseAirportCSV = (text: string): { airports: AirportRecord[], rejected: ImportIssue[] } => {
+  const records = parseCSV(text);
+  const rejected: ImportIssue[] = [];
+  if (records.length < 2) return { airports: [], rejected: [{ line: 1, reason: 'No airport rows found' }] };
+
+  const headers = records[0].fields.map(h => h.trim().toLowerCase().replace(/[^a-z]/g, ''));
+  const col = (...names: string[]) => headers.findIndex(h => names.includes(h));
+  const idx = {
+    code: col('code', 'iata', 'iatacode'), name: col('name', 'airport', 'airportname'), city: col('city'),
+    country: col('country', 'countrycode'), state: col('state', 'province', 'subdivision'), region: col('region'),
+    lat: col('lat', 'latitude'), lon: col('lon', 'lng', 'longitude'), tz: col('timezone', 'tz', 'zone')
+  };
+  if (idx.code === -1) return { airports: [], rejected: [{ line: records[0].line, reason: 'No Code column' }] };
+
+  const airports: AirportRecord[] = [];
+  records.slice(1).forEach(({ line, fields }) => {
+    const get = (i: number) => i === -1 ? '' : (fields[i] || '').trim();
+    const regionText = get(idx.region);
+    const region = regionText ? parseRegion(regionText) : Region.Unknown;
+    if (!region) {
+      rejected.push({ line, reason: `Unknown region "${regionText}"` });
+      return;
+    }
+    const num = (i: number) => get(i) === '' ? undefined : parseFloat(get(i));
+    const record: AirportRecord = {
+      code: get(idx.code).toUpperCase(),
+      name: get(idx.name) || get(idx.code).toUpperCase(),
+      city: get(idx.city) || undefined,
+      country: get(idx.country).toUpperCase(),
+      state: get(idx.state).toUpperCase() || undefined,
+      region,
+      lat: num(idx.lat),
+      lon: num(idx.lon),
+      tz: get(idx.tz) || undefined
+    };
+    const problems = validateAirport(record);
+    if (problems.length > 0) {
+      rejected.push({ line, reason: `${record.code || 'Row'}: ${problems.join('; ')}` });
+      return;
+    }
+    airports.push(record);
+  });
+  return { airports, rejected };
+};
+
+export const serializeAirportsCSV = (airports: AirportRecord[]): string =>
+  serializeCSV([
+    AIRPORT_CSV_HEADERS,
+    ...airports.map(a => [a.code, a.name, a.city || '', a.country, a.state || '', a.region, a.lat?.toString() ?? '', a.lon?.toString() ?? '', a.tz || ''])
+  ]);
@@ -0,0 +1,125 @@
+
+import { AirportDataset, FlightInfo, HubSlot, MarketSegment, RegionDefinition, TimeMode } from '../types';
+import { TIME_SLOTS } from '../constants';
+import { AirportIndex, isDomesticAirport } from './airports';
+import { classifyAirport } from './regions';
+import { getWeekOperation } from './season';
+import { operatesOn, shiftDays, unionDays } from './time';
+import { getRowUtcOffset, shiftClock, shiftFlightClock } from './timezone';
+
+type HubBlocks = Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }>;
+
+export interface BankOptions {
+  regions: RegionDefinition[];
+  airports: AirportIndex;
+  homeCountry?: string;
+  focusCode?: string;
+  selectedRegions: string[];
+  hiddenSubRegions: string[];
+  selectedAirlines: string[];
+  marketFilter: MarketSegment;
+  alwaysShowFocus: boolean;
+  selectedDay: number | null;
+  selectedWeek: string | null;
+  timeDisplay: TimeMode;
+  displayOffset: number; // Minutes added to a displayed time to get the stored hub-local time
+  displayDate: string;
+}
+
+/**
+ * buildHubBank: Buckets a dataset's schedule rows and manual blocks into the 24 hourly bank slots,
+ * applying the region, airline, market, week and day filters.
+ */
+export const buildHubBank = (dataset: AirportDataset, blocks: HubBlocks | undefined, options: BankOptions): HubSlot[] => {
+  const { regions, airports, homeCountry, selectedRegions, hiddenSubRegions, selectedAirlines, marketFilter, selectedDay, selectedWeek, timeDisplay, displayOffset, displayDate } = options;
+  const slots: HubSlot[] = TIME_SLOTS.map(time => ({ label: time, arrivals: [], departures: [] }));
+  const aggregation: Record<number, { arrivals: any, departures: any }> = {};
+  TIME_SLOTS.forEach((_, i) => aggregation[i] = { arrivals: {}, departures: {} });
+
+  dataset.data.forEach((row: any) => {
+    if (!row.hub_time || !row.hub_time.includes(':')) return;
+    let hubTime: string = row.hub_time;
+    let displayDayShift = 0;
+    if (timeDisplay === 'utc') {
+      const shown = shiftClock(row.hub_time, -(getRowUtcOffset(row, 'hub', dataset.code, displayDate, airports) ?? displayOffset));
+      hubTime = shown.time;
+      displayDayShift = shown.dayShift;
+    }
+    const slotIndex = parseInt(hubTime.split(':')[0]);
+    if (isNaN(slotIndex) || slotIndex < 0 || slotIndex > 23) return;
+
+    const processDirection = (dir: 'arrival' | 'departure') => {
+      const prefix = dir === 'arrival' ? 'arrival' : 'departure';
+      const code = row[`${prefix}Code`]?.toUpperCase();
+      if (!code || code.length < 3) return;
+      const { region, subRegion } = classifyAirport(code, regions, airports);
+      const airline = row[`${prefix}Airline`];
+      const market = isDomesticAirport(code, homeCountry, airports) ? MarketSegment.Domestic : MarketSegment.International;
+
+      const passesRegion = (selectedRegions.includes(region) && !(subRegion && hiddenSubRegions.includes(subRegion))) || (options.alwaysShowFocus && code === options.focusCode);
+      const passesAirline = !!airline && (selectedAirlines.length === 0 || selectedAirlines.includes(airline));
+      const passesMarket = marketFilter === MarketSegment.All || market === marketFilter;
+
+      let days: string = row[`${prefix}Days`] || '';
+      let weekShare = 1;
+      if (selectedWeek) {
+        const week = getWeekOperation(days, row.effectiveFrom, row.effectiveTo, selectedWeek);
+        if (week.share === 0) return;
+        days = week.days;
+        weekShare = week.share;
+      }
+      days = shiftDays(days, displayDayShift);
+      const passesDay = selectedDay === null || operatesOn(days, selectedDay);
+
+      if (passesRegion && passesAirline && passesMarket && passesDay) {
+        const key = `${code}-${hubTime}-${row[`${prefix}FlightNo`] || 'XX'}`;
+        const target = aggregation[slotIndex][`${prefix}s`];
+        if (!target[key]) {
+          target[key] = { freq: 0, seats: 0, pax: 0, airline, flightNo: row[`${prefix}FlightNo`], terminal: row[`${prefix}Terminal`] || undefined, exactTime: hubTime, days: undefined, id: Math.random().toString(36).substr(2, 9) };
+        }
+        // Week filter keeps the share of operations inside the validity period; day view counts
+        // one operation per row on that day, seats/pax scaled down from the weekly figures
+        const weeklyFreq = (row[`${prefix}Freq`] || 0) * weekShare;
+        const scale = selectedDay === null ? weekShare : 1 / (row[`${prefix}Freq`] || 1);
+        target[key].freq += selectedDay === null ? weeklyFreq : 1;
+        target[key].seats += (row[`${prefix}Seats`] || 0) * scale;
+        target[key].pax += (row[`${prefix}Pax`] || 0) * scale;
+        target[key].days = unionDays(target[key].days, days);
+      }
+    };
+    processDirection('arrival');
+    processDirection('departure');
+  });
+
+  // Manual blocks are re-bucketed by their displayed time when the chart runs in UTC
+  const storedManual = blocks || {};
+  const displayManual: Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }> = {};
+  Object.keys(storedManual).forEach(k => {
+    const place = (f: FlightInfo, list: 'arrivals' | 'departures') => {
+      const shown = shiftFlightClock(f, -displayOffset);
+      const hour = displayOffset && shown.exactTime ? parseInt(shown.exactTime.split(':')[0]) : parseInt(k);
+      if (!displayManual[hour]) displayManual[hour] = { arrivals: [], departures: [] };
+      displayManual[hour][list].push(shown);
+    };
+    (storedManual[parseInt(k)].arrivals || []).forEach(f => place(f, 'arrivals'));
+    (storedManual[parseInt(k)].departures || []).forEach(f => place(f, 'departures'));
+  });
+
+  Object.keys(aggregation).forEach((key) => {
+    const idx = parseInt(key);
+    const manual = displayManual[idx] || { arrivals: [], departures: [] };
+    const onSelectedDay = (f: FlightInfo) => selectedDay === null || operatesOn(f.days, selectedDay);
+
+    const mapEntries = (obj: any) => Object.entries(obj).map(([keyStr, val]: [string, any]) => {
+      const code = keyStr.split('-')[0];
+      return {
+        code, freq: val.freq, seats: val.seats, pax: val.pax, ...classifyAirport(code, regions, airports),
+        airline: val.airline, flightNo: val.flightNo, terminal: val.terminal, exactTime: val.exactTime, days: val.days, id: val.id, isManual: false
+      } as FlightInfo;
+    });
+
+    slots[idx].arrivals = [...mapEntries(aggregation[idx].arrivals), ...(manual.arrivals || []).filter(onSelectedDay)];
+    slots[idx].departures = [...mapEntries(aggregation[idx].departures), ...(manual.departures || []).filter(onSelectedDay)];
+  });
+  return slots;
+};
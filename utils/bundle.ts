@@ -0,0 +1,141 @@
+
+import { AirportDataset, BundleConflictAction, WorkspaceBundle, WorkspaceSettings, WorkspaceSnapshot } from '../types';
+import { DEFAULT_REGIONS } from '../constants';
+import { SCHEMA_VERSION, migrateWorkspace } from './schema';
+import { normalizeRegions } from './regions';
+import { ManualBlocks } from './storage';
+
+/**
+ * Workspace bundles: one JSON file carrying datasets, manual blocks, scenarios, airport overrides,
+ * regions and filter settings so a workspace can move between browsers.
+ */
+
+export type WorkspaceContent = Pick<WorkspaceBundle, 'datasets' | 'manualBlocks' | 'snapshots' | 'userAirports' | 'regions'>;
+
+export interface BundleConflict {
+  code: string;
+  existing: AirportDataset;
+  incoming: AirportDataset;
+}
+
+export const createWorkspaceBundle = (content: WorkspaceContent, settings: WorkspaceSettings): WorkspaceBundle => ({
+  format: 'aerohub-workspace',
+  schemaVersion: SCHEMA_VERSION,
+  exportedAt: Date.now(),
+  ...content,
+  settings
+});
+
+/**
+ * parseWorkspaceBundle: Reads a bundle file and upgrades it to the current schema. Files from a
+ * newer build are refused.
+ */
+export const parseWorkspaceBundle = (text: string): { bundle: WorkspaceBundle } | { error: string } => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'This file is not valid JSON.' };
+  }
+  if (!data || data.format !== 'aerohub-workspace') return { error: 'This file is not an AeroHub workspace bundle.' };
+
+  const migrated = migrateWorkspace({
+    datasets: Array.isArray(data.datasets) ? data.datasets : [],
+    manualBlocks: data.manualBlocks || {},
+    snapshots: Array.isArray(data.snapshots) ? data.snapshots : []
+  }, data.schemaVersion || 1);
+  if ('error' in migrated) return { error: migrated.error.replace('workspace', 'workspace bundle') };
+
+  return {
+    bundle: {
+      ...data,
+      ...migrated,
+      schemaVersion: SCHEMA_VERSION,
+      userAirports: Array.isArray(data.userAirports) ? data.userAirports : [],
+      regions: Array.isArray(data.regions) && data.regions.length > 0 ? normalizeRegions(data.regions) : DEFAULT_REGIONS,
+      settings: data.settings || {}
+    }
+  };
+};
+
+// Incoming datasets whose hub code is already loaded
+export const findBundleConflicts = (datasets: AirportDataset[], bundle: WorkspaceBundle): BundleConflict[] =>
+  bundle.datasets.flatMap(incoming => {
+    const existing = datasets.find(d => d.code === incoming.code);
+    return existing ? [{ code: incoming.code, existing, incoming }] : [];
+  });
+
+const rekey = <T>(byId: Record<string, T>, idMap: Record<string, string>): Record<string, T> => {
+  const result: Record<string, T> = {};
+  Object.keys(byId).forEach(k => { result[idMap[k] || k] = byId[k]; });
+  return result;
+};
+
+// Moves a snapshot's blocks, fingerprints and active hub to the ids the datasets now have
+const rekeySnapshot = (s: WorkspaceSnapshot, idMap: Record<string, string>): WorkspaceSnapshot => ({
+  ...s,
+  manualBlocks: rekey(s.manualBlocks, idMap),
+  datasets: s.datasets && rekey(s.datasets, idMap),
+  activeDatasetId: s.activeDatasetId && (idMap[s.activeDatasetId] || s.activeDatasetId)
+});
+
+/**
+ * mergeWorkspaceBundle: Adds a bundle to the current workspace. Conflicting hubs follow `actions`
+ * (by incoming dataset id, default keep): keep the loaded dataset, replace it, or load both.
+ * Scenarios are re-keyed to the dataset each hub ends up under. Airport overrides and
+ * regions already present locally win.
+ */
+export const mergeWorkspaceBundle = (current: WorkspaceContent, bundle: WorkspaceBundle, actions: Record<string, BundleConflictAction>): WorkspaceContent => {
+  const newId = () => Math.random().toString(36).substr(2, 9);
+  const takenIds = new Set(current.datasets.map(d => d.id));
+  const incomingIds: Record<string, string> = {}; // Bundle dataset id -> merged id
+  const replacedIds: Record<string, string> = {}; // Local dataset id -> id of the dataset replacing it
+  let datasets = [...current.datasets];
+  const manualBlocks = { ...current.manualBlocks };
+
+  bundle.datasets.forEach(d => {
+    const existing = current.datasets.find(e => e.code === d.code);
+    const action = existing ? (actions[d.id] || 'keep') : 'both';
+    if (existing && action === 'keep') {
+      incomingIds[d.id] = existing.id;
+      return;
+    }
+    if (existing && action === 'replace') {
+      datasets = datasets.filter(e => e.id !== existing.id);
+      delete manualBlocks[existing.id];
+      takenIds.delete(existing.id);
+    }
+    const id = takenIds.has(d.id) ? newId() : d.id;
+    takenIds.add(id);
+    incomingIds[d.id] = id;
+    if (existing && action === 'replace') replacedIds[existing.id] = id;
+    datasets.push(id === d.id ? d : { ...d, id });
+    if (bundle.manualBlocks[d.id]) manualBlocks[id] = bundle.manualBlocks[d.id];
+  });
+
+  const localSnapshots = current.snapshots.map(s =>
+    [...Object.keys(s.manualBlocks), ...Object.keys(s.datasets || {})].some(k => replacedIds[k]) ? rekeySnapshot(s, replacedIds) : s
+  );
+  const snapshotIds = new Map(current.snapshots.map(s => [s.id, s.timestamp]));
+  const renamedSnapshots: Record<string, string> = {};
+  // Scenarios already present are skipped; children of a renamed scenario follow it
+  const incomingSnapshots: WorkspaceSnapshot[] = bundle.snapshots
+    .filter(s => snapshotIds.get(s.id) !== s.timestamp)
+    .map(s => {
+      const id = snapshotIds.has(s.id) ? newId() : s.id;
+      if (id !== s.id) renamedSnapshots[s.id] = id;
+      return { ...rekeySnapshot(s, incomingIds), id };
+    })
+    .map(s => s.parentId && renamedSnapshots[s.parentId] ? { ...s, parentId: renamedSnapshots[s.parentId] } : s);
+
+  const airportCodes = new Set(current.userAirports.map(a => a.code));
+  const regionIds = new Set(current.regions.map(r => r.id));
+
+  return {
+    datasets,
+    manualBlocks,
+    snapshots: [...localSnapshots, ...incomingSnapshots].sort((a, b) => b.timestamp - a.timestamp),
+    userAirports: [...current.userAirports, ...bundle.userAirports.filter(a => !airportCodes.has(a.code))],
+    regions: normalizeRegions([...current.regions, ...bundle.regions.filter(r => !regionIds.has(r.id))])
+  };
+};
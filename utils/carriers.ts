@@ -0,0 +1,43 @@
+
+import { CarrierAgreements, ConnectivityMode } from '../types';
+
+/**
+ * Connection eligibility by carrier. Online connections stay on one airline; alliance mode also
+ * allows carriers sharing an alliance, and interline mode adds bilateral interline and codeshare
+ * partners. A leg without a known carrier, such as an unassigned simulation block, is never
+ * ruled out.
+ */
+
+export const CONNECTIVITY_MODES: { id: ConnectivityMode, label: string }[] = [
+  { id: 'all', label: 'All Carriers' },
+  { id: 'online', label: 'Online' },
+  { id: 'alliance', label: 'Alliance' },
+  { id: 'interline', label: 'Interline' }
+];
+
+export const EMPTY_AGREEMENTS: CarrierAgreements = { alliances: [], interlines: [] };
+
+const normalize = (carrier: string | undefined) => (carrier || '').trim().toUpperCase();
+
+export const parseCarrierCodes = (text: string) =>
+  Array.from(new Set(text.toUpperCase().split(/[\s,;/]+/).filter(c => c.length >= 2 && c.length <= 3)));
+
+export const sharesAlliance = (a: string, b: string, agreements: CarrierAgreements) =>
+  agreements.alliances.some(al => al.carriers.includes(a) && al.carriers.includes(b));
+
+export const hasInterline = (a: string, b: string, agreements: CarrierAgreements) =>
+  agreements.interlines.some(({ carriers: [x, y] }) => (x === a && y === b) || (x === b && y === a));
+
+/**
+ * isEligibleConnection: Whether an arriving carrier may feed a departing one under the selected
+ * connectivity mode.
+ */
+export const isEligibleConnection = (arrCarrier: string | undefined, depCarrier: string | undefined, mode: ConnectivityMode = 'all', agreements: CarrierAgreements = EMPTY_AGREEMENTS) => {
+  if (mode === 'all') return true;
+  const a = normalize(arrCarrier);
+  const b = normalize(depCarrier);
+  if (!a || !b || a === b) return true;
+  if (mode === 'online') return false;
+  if (sharesAlliance(a, b, agreements)) return true;
+  return mode === 'interline' && hasInterline(a, b, agreements);
+};
@@ -0,0 +1,36 @@
+
+import { CatchmentRule } from '../types';
+import { CATCHMENT_PRESETS } from '../constants';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX } from './airports';
+import { getAirportDistanceKm } from './geo';
+
+/**
+ * Rule-based catchments. Rules are evaluated against the airport reference; include and exclude
+ * rules may also name codes that have no airport record.
+ */
+
+export const getDefaultCatchmentRules = (hubCode: string): CatchmentRule[] =>
+  CATCHMENT_PRESETS[hubCode] ? [{ id: 'preset', kind: 'include', codes: CATCHMENT_PRESETS[hubCode] }] : [];
+
+/**
+ * matchCatchmentRule: Airports a single rule pulls in (or, for exclude rules, removes), sorted by code.
+ */
+export const matchCatchmentRule = (rule: CatchmentRule, hubCode: string, homeCountry: string | undefined, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): string[] => {
+  if (rule.kind === 'include' || rule.kind === 'exclude') return [...rule.codes].sort();
+  return Object.values(airports).filter(a => {
+    if (rule.kind === 'radius') {
+      const km = getAirportDistanceKm(hubCode, a.code, airports);
+      return km !== null && rule.km !== undefined && km <= rule.km;
+    }
+    if (rule.kind === 'countries') return rule.codes.includes(a.country);
+    if (!a.state) return false;
+    return rule.codes.includes(`${a.country}-${a.state}`) || (a.country === homeCountry && rule.codes.includes(a.state));
+  }).map(a => a.code).sort();
+};
+
+export const computeCatchment = (rules: CatchmentRule[], hubCode: string, homeCountry: string | undefined, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): Set<string> => {
+  const result = new Set<string>();
+  rules.filter(r => r.kind !== 'exclude').forEach(r => matchCatchmentRule(r, hubCode, homeCountry, airports).forEach(c => result.add(c)));
+  rules.filter(r => r.kind === 'exclude').forEach(r => r.codes.forEach(c => result.delete(c)));
+  return result;
+};
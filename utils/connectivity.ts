@@ -0,0 +1,283 @@
+
+import { CarrierAgreements, ConnectivityMode, FlightInfo, HubSlot, MarketSegment, MctRule } from '../types';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX, isDomesticAirport } from './airports';
+import { isEligibleConnection } from './carriers';
+import { getCircuity } from './geo';
+import { MctContext, resolveMct } from './mct';
+import { getConnectingDays, unionDays } from './time';
+
+/**
+ * Hub connectivity engine shared by the bank chart and scenario comparisons. Works on consolidated
+ * bank slots: scheduled flights to the same port in an hour are merged, keeping the individual
+ * legs in `mergedFlights`.
+ */
+
+export interface ConnectionDetails {
+  timeMins: number;
+  focalTime: string;
+  focalFreq: number;
+  connectingTime: string;
+  connectingFreq: number;
+  airline?: string;
+  flightNo?: string;
+  mctMins: number; // Minimum connecting time applied to the pair
+  mctRule: string; // Rule that set it, "Default" when none matched
+}
+
+export interface TwoWayConnection {
+  code: string;
+  region: string;
+  subRegion?: string;
+  market: MarketSegment;
+  outbounds: ConnectionDetails[];
+  inbounds: ConnectionDetails[];
+  synergyScore: number;
+  circuity?: number; // Routed over direct distance via the hub; absent without coordinates
+}
+
+export interface CircuityExclusion {
+  code: string;
+  region: string;
+  subRegion?: string;
+  circuity: number;
+  routedKm: number;
+  directKm: number;
+  reason: string;
+}
+
+export interface ConnectivityOptions {
+  mct: number; // Hours; default when no MCT rule matches
+  mctRules?: MctRule[];
+  hubCode?: string;
+  connectivityMode?: ConnectivityMode; // Carrier pairs allowed to connect; all by default
+  carrierAgreements?: CarrierAgreements;
+  maxCircuity?: number | null; // Ports routed further than this multiple of the direct distance are excluded
+  maxConnectionWindow: number; // Hours
+  selectedDay: number | null;
+  homeCountry?: string;
+  airports?: AirportIndex;
+}
+
+// CONSOLIDATION LOGIC: Groups flights by port for visualization, but preserves individual identities for analysis.
+export const consolidateSlots = (data: HubSlot[]): HubSlot[] =>
+  data.map(slot => {
+    const groupByType = (flights: FlightInfo[]) => {
+      const manualOnes = flights.filter(f => f.isManual);
+      const autoOnes = flights.filter(f => !f.isManual);
+
+      const autoGroups: Record<string, FlightInfo[]> = {};
+      autoOnes.forEach(f => {
+        if (!autoGroups[f.code]) autoGroups[f.code] = [];
+        autoGroups[f.code].push(f);
+      });
+
+      const processedAuto = Object.values(autoGroups).map(group => {
+        if (group.length === 1) return group[0];
+        const first = group[0];
+        return {
+          ...first,
+          id: `merged-${first.code}-${Math.random()}`,
+          freq: group.reduce((sum, f) => sum + f.freq, 0),
+          days: group.reduce<string | undefined>((acc, f) => unionDays(acc, f.days || ''), undefined),
+          seats: group.reduce((sum, f) => sum + (f.seats || 0), 0),
+          pax: group.reduce((sum, f) => sum + (f.pax || 0), 0),
+          isMerged: true,
+          mergedFlights: group
+        } as FlightInfo & { isMerged: boolean, mergedFlights: FlightInfo[] };
+      });
+
+      return [...processedAuto, ...manualOnes];
+    };
+    return {
+      ...slot,
+      arrivals: groupByType(slot.arrivals),
+      departures: groupByType(slot.departures)
+    };
+  });
+
+// Manual blocks carry codes like "DEL 6E NEW"; distances are measured from their station
+const station = (code: string) => code.split(' ')[0].toUpperCase();
+
+// Individual legs of a consolidated block
+const legsOf = (block: FlightInfo): FlightInfo[] => (block as any).mergedFlights || [block];
+
+export const getSlotMinutes = (slotIndex: number, exactTime?: string) => {
+  if (exactTime && exactTime.includes(':')) {
+    const [h, m] = exactTime.split(':').map(Number);
+    return h * 60 + m;
+  }
+  return slotIndex * 60;
+};
+
+/**
+ * getDayOverlap: Weekdays on which an arrival/departure pair actually connects.
+ * A departure earlier on the clock than the arrival is an overnight connection and must run the next day.
+ * In the per-day view the pair must touch the selected day. Returns null when the legs never meet.
+ */
+export const getDayOverlap = (arr: FlightInfo, dep: FlightInfo, arrMins: number, depMins: number, selectedDay: number | null) => {
+  const overnight = depMins < arrMins;
+  const days = getConnectingDays(arr.days, dep.days, overnight);
+  if (!days) return null;
+  if (selectedDay === null) return days;
+  const nextDay = (d: number) => (d % 7) + 1;
+  const touchesDay = days.split('').some(d => parseInt(d) === selectedDay || (overnight && nextDay(parseInt(d)) === selectedDay));
+  return touchesDay ? days : null;
+};
+
+// Connecting frequency: the days the pair meets when both patterns are known, else the less frequent leg
+const getConnectingFreq = (arr: FlightInfo, dep: FlightInfo, overlap: string, selectedDay: number | null) => {
+  if (selectedDay !== null) return 1;
+  return arr.days && dep.days ? overlap.length : Math.min(arr.freq, dep.freq);
+};
+
+/**
+ * getTwoWaySummary: Deep connectivity analysis engine. Built on getConnectionPairs, keeping the
+ * shortest connection for each flight at the other ports.
+ */
+export const getTwoWaySummary = (slots: HubSlot[], airportCode: string, options: ConnectivityOptions): TwoWayConnection[] => {
+  const { homeCountry, airports = DEFAULT_AIRPORT_INDEX } = options;
+  const portSummaryMap: Record<string, TwoWayConnection> = {};
+
+  // Shortest connection per leg at the other end; the first pair found wins ties
+  const best = new Map<FlightInfo, ConnectionDetails>();
+  getConnectionPairs(slots, options, airportCode).forEach(pair => {
+    const outbound = pair.arrival.code === airportCode;
+    const leg = outbound ? pair.departure : pair.arrival;
+    const current = best.get(leg);
+    if (current && current.timeMins <= pair.elapsedMins) return;
+    best.set(leg, {
+      timeMins: pair.elapsedMins,
+      focalTime: outbound ? pair.arrivalTime : pair.departureTime,
+      focalFreq: (outbound ? pair.arrival : pair.departure).freq,
+      connectingTime: outbound ? pair.departureTime : pair.arrivalTime,
+      connectingFreq: pair.frequency,
+      airline: leg.airline,
+      flightNo: leg.flightNo,
+      mctMins: pair.mctMins,
+      mctRule: pair.mctRule
+    });
+  });
+
+  const addToPort = (leg: FlightInfo, direction: 'outbounds' | 'inbounds') => {
+    const connection = best.get(leg);
+    if (!connection) return;
+    if (!portSummaryMap[leg.code]) {
+      portSummaryMap[leg.code] = {
+        code: leg.code,
+        region: leg.region,
+        subRegion: leg.subRegion,
+        market: isDomesticAirport(leg.code, homeCountry, airports) ? MarketSegment.Domestic : MarketSegment.International,
+        outbounds: [],
+        inbounds: [],
+        synergyScore: 0,
+        circuity: options.hubCode ? getCircuity(station(airportCode), options.hubCode, station(leg.code), airports)?.ratio : undefined
+      };
+    }
+    const list = portSummaryMap[leg.code][direction];
+    if (!list.some(c => c.connectingTime === connection.connectingTime && c.flightNo === connection.flightNo)) list.push(connection);
+  };
+
+  slots.forEach(slot => {
+    slot.departures.forEach(block => legsOf(block).forEach(leg => addToPort(leg, 'outbounds')));
+    slot.arrivals.forEach(block => legsOf(block).forEach(leg => addToPort(leg, 'inbounds')));
+  });
+
+  Object.values(portSummaryMap).forEach(conn => {
+    const inVol = conn.inbounds.reduce((s, i) => s + i.connectingFreq, 0);
+    const outVol = conn.outbounds.reduce((s, o) => s + o.connectingFreq, 0);
+    const balance = Math.min(inVol, outVol) / (Math.max(inVol, outVol) || 1);
+    conn.synergyScore = Math.sqrt(inVol * outVol) * (1 + balance);
+  });
+
+  return Object.values(portSummaryMap).sort((a, b) => b.synergyScore - a.synergyScore);
+};
+
+/**
+ * getCircuityExclusions: Ports that would connect with `airportCode` but route further than the
+ * circuity limit allows, with the reason they were left out.
+ */
+export const getCircuityExclusions = (slots: HubSlot[], airportCode: string, options: ConnectivityOptions): CircuityExclusion[] => {
+  const { maxCircuity, hubCode, airports = DEFAULT_AIRPORT_INDEX } = options;
+  if (!maxCircuity || !hubCode) return [];
+  return getTwoWaySummary(slots, airportCode, { ...options, maxCircuity: null })
+    .flatMap(conn => {
+      const circuity = getCircuity(station(airportCode), hubCode, station(conn.code), airports);
+      if (!circuity || circuity.ratio <= maxCircuity) return [];
+      const ratio = Number.isFinite(circuity.ratio) ? `${circuity.ratio.toFixed(2)}× the direct distance` : 'a return to the origin';
+      return [{
+        code: conn.code,
+        region: conn.region,
+        subRegion: conn.subRegion,
+        circuity: circuity.ratio,
+        routedKm: circuity.routedKm,
+        directKm: circuity.directKm,
+        reason: `Routing via ${hubCode} is ${ratio} (limit ${maxCircuity}×)`
+      }];
+    })
+    .sort((a, b) => b.circuity - a.circuity);
+};
+
+export interface ConnectionPair {
+  arrival: FlightInfo;
+  departure: FlightInfo;
+  arrivalTime: string;
+  departureTime: string;
+  elapsedMins: number;
+  mctMins: number;
+  mctRule: string;
+  frequency: number; // Weekly connecting frequency, or 1 in the per-day view
+}
+
+/**
+ * getConnectionPairs: Every valid arrival→departure pair across the bank under the MCT, window,
+ * day, carrier and circuity settings; with `focalCode`, only the pairs arriving from or departing
+ * to that port. Pairs returning to the station they came from are not connections and are skipped.
+ */
+export const getConnectionPairs = (slots: HubSlot[], options: ConnectivityOptions, focalCode?: string): ConnectionPair[] => {
+  const { selectedDay, homeCountry, airports = DEFAULT_AIRPORT_INDEX, connectivityMode, carrierAgreements, maxCircuity, hubCode } = options;
+  const mctContext: MctContext = { defaultMins: Math.round(options.mct * 60), rules: options.mctRules, hubCode, homeCountry, airports };
+  const windowMins = Math.round(options.maxConnectionWindow * 60);
+
+  const flatten = (type: 'arr' | 'dep') => slots.flatMap((slot, sIdx) =>
+    (type === 'arr' ? slot.arrivals : slot.departures).flatMap(f => legsOf(f).map(leg => {
+      const time = leg.exactTime || `${sIdx.toString().padStart(2, '0')}:00`;
+      return { flight: leg, time, mins: getSlotMinutes(sIdx, time), station: station(leg.code) };
+    })));
+
+  const circuitous: Record<string, boolean> = {};
+  const isCircuitous = (origin: string, destination: string) => {
+    if (!maxCircuity || !hubCode) return false;
+    const key = `${origin}-${destination}`;
+    if (!(key in circuitous)) {
+      const circuity = getCircuity(origin, hubCode, destination, airports);
+      circuitous[key] = !!circuity && circuity.ratio > maxCircuity;
+    }
+    return circuitous[key];
+  };
+
+  const departures = flatten('dep');
+  const focalDepartures = focalCode ? departures.filter(d => d.flight.code === focalCode) : departures;
+  const pairs: ConnectionPair[] = [];
+  flatten('arr').forEach(arr => {
+    (!focalCode || arr.flight.code === focalCode ? departures : focalDepartures).forEach(dep => {
+      if (arr.station === dep.station || isCircuitous(arr.station, dep.station)) return;
+      if (!isEligibleConnection(arr.flight.airline, dep.flight.airline, connectivityMode, carrierAgreements)) return;
+      const mct = resolveMct(arr.flight, dep.flight, mctContext);
+      const elapsedMins = (dep.mins - arr.mins + 1440) % 1440;
+      if (elapsedMins < mct.minutes || elapsedMins > mct.minutes + windowMins) return;
+      const overlap = getDayOverlap(arr.flight, dep.flight, arr.mins, dep.mins, selectedDay);
+      if (!overlap) return;
+      pairs.push({
+        arrival: arr.flight,
+        departure: dep.flight,
+        arrivalTime: arr.time,
+        departureTime: dep.time,
+        elapsedMins,
+        mctMins: mct.minutes,
+        mctRule: mct.label,
+        frequency: getConnectingFreq(arr.flight, dep.flight, overlap, selectedDay)
+      });
+    });
+  });
+  return pairs;
+};
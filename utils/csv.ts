@@ -0,0 +1,272 @@
+
+import { ImportReport, MalformedTime, ImportIssue, ColumnMapping, MappableField, MappingProfile } from '../types';
+import { normalizeTime, parseDays } from './time';
+import { normalizeDate } from './season';
+import { AirportIndex } from './airports';
+
+export interface CSVRecord {
+  line: number; // 1-based line on which the record starts
+  fields: string[];
+}
+
+/**
+ * parseCSV: RFC 4180 tokenizer.
+ * Handles quoted fields (embedded commas, line breaks and "" escapes),
+ * CRLF / LF / CR line endings and a leading UTF-8 BOM. Blank lines are skipped.
+ */
+export const parseCSV = (text: string): CSVRecord[] => {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const records: CSVRecord[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const endRecord = () => {
+    fields.push(field);
+    const isBlank = fields.length === 1 && fields[0].trim() === '';
+    if (!isBlank) records.push({ line: recordLine, fields });
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') { field += '"'; i++; }
+        else inQuotes = false;
+      } else {
+        if (ch === '\n' || (ch === '\r' && input[i + 1] !== '\n')) line++;
+        field += ch;
+      }
+      continue;
+    }
+    if (ch === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else if (ch === '\r' || ch === '\n') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      endRecord();
+      line++;
+      recordLine = line;
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== '' || fields.length > 0) endRecord();
+
+  return records;
+};
+
+/**
+ * countDataRows: Records below the header with at least one non-blank field. Spreadsheet exports often
+ * pad a file with rows of empty cells, which parseCSV keeps.
+ */
+export const countDataRows = (records: CSVRecord[]): number =>
+  records.slice(1).filter(r => r.fields.some(f => f.trim() !== '')).length;
+
+/**
+ * serializeCSV: Inverse of parseCSV. Fields containing commas, quotes or line breaks are quoted.
+ */
+export const serializeCSV = (rows: string[][]): string =>
+  rows.map(row => row.map(value => {
+    const v = value ?? '';
+    return /[",\r\n]/.test(v) ? `"${v.replace(/"/g, '""')}"` : v;
+  }).join(',')).join('\r\n') + '\r\n';
+
+export const CSV_FIELDS: { key: MappableField, label: string, group: 'Arrival' | 'Hub' | 'Departure' | 'Validity', required?: boolean }[] = [
+  { key: 'arrivalAirline', label: 'Airline', group: 'Arrival' },
+  { key: 'arrivalFlightNo', label: 'Flight No', group: 'Arrival' },
+  { key: 'arrivalCode', label: 'Origin Airport', group: 'Arrival' },
+  { key: 'arrivalDays', label: 'Days of Operation', group: 'Arrival' },
+  { key: 'arrivalSeats', label: 'Seats', group: 'Arrival' },
+  { key: 'arrivalPax', label: 'Pax', group: 'Arrival' },
+  { key: 'arrivalTime', label: 'Departure Time (Origin)', group: 'Arrival' },
+  { key: 'arrivalTerminal', label: 'Hub Terminal', group: 'Arrival' },
+  { key: 'hub_time', label: 'Hub Time', group: 'Hub', required: true },
+  { key: 'departureCode', label: 'Destination Airport', group: 'Departure' },
+  { key: 'departureTime', label: 'Arrival Time (Destination)', group: 'Departure' },
+  { key: 'departureDays', label: 'Days of Operation', group: 'Departure' },
+  { key: 'departureSeats', label: 'Seats', group: 'Departure' },
+  { key: 'departurePax', label: 'Pax', group: 'Departure' },
+  { key: 'departureFlightNo', label: 'Flight No', group: 'Departure' },
+  { key: 'departureAirline', label: 'Airline', group: 'Departure' },
+  { key: 'departureTerminal', label: 'Hub Terminal', group: 'Departure' },
+  { key: 'effectiveFrom', label: 'Effective From', group: 'Validity' },
+  { key: 'effectiveTo', label: 'Effective To', group: 'Validity' },
+];
+
+export const normalizeHeaders = (headers: string[]) => headers.map(h => h.trim().toLowerCase());
+
+/**
+ * guessColumnMapping: Keyword-based first guess for an unseen layout.
+ * Repeated columns (airline, flight no, days, seats, pax) are assigned arrival-side first, then departure-side.
+ */
+export const guessColumnMapping = (rawHeaders: string[]): ColumnMapping => {
+  const headers = normalizeHeaders(rawHeaders);
+  const mapping: ColumnMapping = {};
+
+  // Validity columns go first so "effective from" is not mistaken for the origin ("from") column
+  const isDateHeader = (h: string) => /effective|valid|date|period/.test(h);
+  const validityFrom = headers.findIndex(h => isDateHeader(h) && /from|start|begin/.test(h));
+  const validityTo = headers.findIndex(h => isDateHeader(h) && /\bto\b|until|end|till/.test(h));
+  if (validityFrom !== -1) mapping.effectiveFrom = validityFrom;
+  if (validityTo !== -1) mapping.effectiveTo = validityTo;
+
+  const allMatching = (test: (h: string) => boolean) => headers.reduce((acc: number[], h, i) => !isDateHeader(h) && test(h) ? [...acc, i] : acc, []);
+  const findIdx = (keywords: string[]) => {
+    let idx = headers.findIndex(h => !isDateHeader(h) && keywords.some(k => h === k));
+    if (idx !== -1) return idx;
+    return headers.findIndex(h => !isDateHeader(h) && keywords.some(k => h.includes(k)));
+  };
+  const assignPair = (arrKey: MappableField, depKey: MappableField, indices: number[]) => {
+    if (indices.length > 0) mapping[arrKey] = indices[0];
+    if (indices.length > 1) mapping[depKey] = indices[1];
+  };
+
+  assignPair('arrivalAirline', 'departureAirline', allMatching(h => h.includes('airline') || h === 'carrier'));
+  assignPair('arrivalFlightNo', 'departureFlightNo', allMatching(h => /flight\s*(no|num|#)|flt\s*no/.test(h)));
+  assignPair('arrivalDays', 'departureDays', allMatching(h => h.includes('days') || h === 'dow' || h === 'doop'));
+  assignPair('arrivalSeats', 'departureSeats', allMatching(h => h.includes('seats')));
+  assignPair('arrivalPax', 'departurePax', allMatching(h => h.includes('pax')));
+  assignPair('arrivalTerminal', 'departureTerminal', allMatching(h => h.includes('terminal')));
+
+  const single: [MappableField, number][] = [
+    ['arrivalCode', findIdx(['origin', 'origin airport', 'from'])],
+    ['arrivalTime', headers.findIndex(h => h.includes('departure time'))],
+    ['hub_time', headers.findIndex(h => h.includes('hub time'))],
+    ['departureTime', headers.findIndex(h => h.includes('arrival time'))],
+    ['departureCode', findIdx(['destination', 'arrival airport', 'to', 'arrival'])],
+  ];
+  single.forEach(([key, idx]) => { if (idx !== -1) mapping[key] = idx; });
+
+  return mapping;
+};
+
+/**
+ * findMatchingProfile: A saved profile applies automatically when its header signature is identical.
+ */
+export const findMatchingProfile = (rawHeaders: string[], profiles: MappingProfile[]): MappingProfile | null => {
+  const signature = normalizeHeaders(rawHeaders).join('|');
+  return profiles.find(p => p.headers.join('|') === signature) || null;
+};
+
+/**
+ * parseCSVData: Converts tokenized records into dataset rows using a column mapping, plus a validation report.
+ * Rows without a usable hub time, without any airport code or with an inverted validity period are
+ * rejected; malformed leg times or dates and airport codes missing from the airport reference are reported but kept.
+ */
+export const parseCSVData = (records: CSVRecord[], mapping: ColumnMapping, fileName: string, airports: AirportIndex): { rows: any[], report: ImportReport } => {
+  const report: ImportReport = {
+    fileName,
+    totalRows: Math.max(records.length - 1, 0),
+    acceptedRows: 0,
+    rejected: [],
+    malformedTimes: [],
+    unknownAirports: []
+  };
+  if (countDataRows(records) === 0) {
+    if (records.length === 0) report.rejected.push({ line: 1, reason: 'File is empty' });
+    else report.rejected.push({ line: records[0].line, reason: 'No data rows found' });
+    return { rows: [], report };
+  }
+  if (mapping.hub_time === undefined) {
+    report.rejected.push({ line: records[0].line, reason: 'No column mapped to Hub Time' });
+    return { rows: [], report };
+  }
+
+  const rejected: ImportIssue[] = [];
+  const malformedTimes: MalformedTime[] = [];
+  const unknownCounts: Record<string, number> = {};
+
+  const checkTime = (line: number, field: string, value: string): string => {
+    if (!value) return '';
+    const normalized = normalizeTime(value);
+    if (normalized) return normalized;
+    malformedTimes.push({ line, field, value });
+    return '';
+  };
+
+  const rows: any[] = [];
+  records.slice(1).forEach(({ line, fields }) => {
+    const cols = fields.map(c => c.trim());
+    const get = (key: MappableField) => mapping[key] === undefined ? '' : (cols[mapping[key]!] || '');
+
+    const rawHubTime = get('hub_time');
+    if (!rawHubTime) {
+      rejected.push({ line, reason: 'Missing hub time' });
+      return;
+    }
+    const hubTime = checkTime(line, 'Hub Time', rawHubTime);
+    if (!hubTime) {
+      rejected.push({ line, reason: `Malformed hub time "${rawHubTime}"` });
+      return;
+    }
+
+    const arrivalCode = get('arrivalCode').toUpperCase();
+    const departureCode = get('departureCode').toUpperCase();
+    if (!arrivalCode && !departureCode) {
+      rejected.push({ line, reason: 'No origin or destination airport' });
+      return;
+    }
+    [arrivalCode, departureCode].forEach(code => {
+      if (code && !airports[code]) unknownCounts[code] = (unknownCounts[code] || 0) + 1;
+    });
+
+    const checkDate = (field: string, value: string): string => {
+      if (!value) return '';
+      const normalized = normalizeDate(value);
+      if (normalized) return normalized;
+      malformedTimes.push({ line, field, value });
+      return '';
+    };
+    const effectiveFrom = checkDate('Effective From', get('effectiveFrom'));
+    const effectiveTo = checkDate('Effective To', get('effectiveTo'));
+    if (effectiveFrom && effectiveTo && effectiveFrom > effectiveTo) {
+      rejected.push({ line, reason: `Validity ends (${effectiveTo}) before it starts (${effectiveFrom})` });
+      return;
+    }
+
+    const arrivalDays = parseDays(get('arrivalDays'));
+    const departureDays = parseDays(get('departureDays'));
+
+    rows.push({
+      arrivalAirline: get('arrivalAirline'),
+      arrivalFlightNo: get('arrivalFlightNo'),
+      arrivalCode,
+      arrivalDays,
+      arrivalFreq: arrivalDays.length,
+      arrivalSeats: parseInt(get('arrivalSeats')) || 0,
+      arrivalPax: parseInt(get('arrivalPax')) || 0,
+      arrivalTime: checkTime(line, 'Departure Time', get('arrivalTime')),
+      arrivalTerminal: get('arrivalTerminal').toUpperCase(),
+      hub_time: hubTime,
+      departureCode,
+      departureTime: checkTime(line, 'Arrival Time', get('departureTime')),
+      departureDays,
+      departureFreq: departureDays.length,
+      departureSeats: parseInt(get('departureSeats')) || 0,
+      departurePax: parseInt(get('departurePax')) || 0,
+      departureFlightNo: get('departureFlightNo'),
+      departureAirline: get('departureAirline'),
+      departureTerminal: get('departureTerminal').toUpperCase(),
+      effectiveFrom,
+      effectiveTo,
+      _raw: cols
+    });
+  });
+
+  report.acceptedRows = rows.length;
+  report.rejected = rejected;
+  report.malformedTimes = malformedTimes;
+  report.unknownAirports = Object.entries(unknownCounts)
+    .map(([code, count]) => ({ code, count }))
+    .sort((a, b) => b.count - a.count);
+
+  return { rows, report };
+};
@@ -0,0 +1,260 @@
+
+import { AirportDataset, ColumnMapping, FlightInfo, MappableField } from '../types';
+import { CSV_FIELDS, serializeCSV } from './csv';
+import { SsimExportLeg, getArrivalDateVariation, serializeSsim } from './ssim';
+import { getMins, minsToTime, parseDays, shiftDays } from './time';
+import { addDays, normalizeDate } from './season';
+import { getRowUtcOffset, shiftClock } from './timezone';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX } from './airports';
+
+type HubBlocks = Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }>;
+type Side = 'arrival' | 'departure';
+
+const SIDE_FIELDS: Record<Side, string[]> = {
+  arrival: ['arrivalAirline', 'arrivalFlightNo', 'arrivalCode', 'arrivalDays', 'arrivalFreq', 'arrivalSeats', 'arrivalPax', 'arrivalTime', 'arrivalEquipment', 'arrivalTerminal'],
+  departure: ['departureCode', 'departureTime', 'departureDays', 'departureFreq', 'departureSeats', 'departurePax', 'departureFlightNo', 'departureAirline', 'departureEquipment', 'departureTerminal']
+};
+
+// Layout used when a dataset has no source CSV layout (e.g. SSIM imports); guessColumnMapping reads it back
+const DEFAULT_EXPORT_HEADERS: Record<MappableField, string> = {
+  arrivalAirline: 'Arr Airline',
+  arrivalFlightNo: 'Arr Flight No',
+  arrivalCode: 'Origin',
+  arrivalDays: 'Arr Days',
+  arrivalSeats: 'Arr Seats',
+  arrivalPax: 'Arr Pax',
+  arrivalTime: 'Departure Time',
+  arrivalTerminal: 'Arr Hub Terminal',
+  hub_time: 'Hub Time',
+  departureCode: 'Destination',
+  departureTime: 'Arrival Time',
+  departureDays: 'Dep Days',
+  departureSeats: 'Dep Seats',
+  departurePax: 'Dep Pax',
+  departureFlightNo: 'Dep Flight No',
+  departureAirline: 'Dep Airline',
+  departureTerminal: 'Dep Hub Terminal',
+  effectiveFrom: 'Effective From',
+  effectiveTo: 'Effective To'
+};
+
+const clearSide = (row: any, side: Side) => {
+  const next = { ...row };
+  SIDE_FIELDS[side].forEach(k => { next[k] = typeof row[k] === 'number' ? 0 : ''; });
+  return next;
+};
+
+const blockStation = (f: FlightInfo) => {
+  const station = f.code.split(' ')[0].toUpperCase();
+  return /^[A-Z]{3}$/.test(station) && station !== 'NEW' ? station : '';
+};
+
+const blockToRow = (f: FlightInfo, side: Side): any => {
+  const row: any = { hub_time: f.exactTime || '', _manual: f.code };
+  (['arrival', 'departure'] as Side[]).forEach(s => SIDE_FIELDS[s].forEach(k => { row[k] = ''; }));
+  row[`${side}Code`] = blockStation(f);
+  row[`${side}Airline`] = f.airline || '';
+  row[`${side}FlightNo`] = f.flightNo || '';
+  row[`${side}Days`] = f.days || '';
+  row[`${side}Freq`] = f.freq || 0;
+  row[`${side}Seats`] = f.seats || 0;
+  row[`${side}Pax`] = f.pax || 0;
+  row[`${side}Terminal`] = f.terminal || '';
+  return row;
+};
+
+/**
+ * buildEffectiveSchedule: The hub's rows as they stand after manual retiming.
+ * Each manual block that traces back to CSV rows (same station, airline, flight no and
+ * hub time equal to its originalHubTime) moves those rows by its exactTime delta.
+ * Blocks with no source rows (new injections, SYNC blocks without an anchor row, extra copies)
+ * are appended as rows of their own. A row whose two sides end up at different hub times is split.
+ */
+export const buildEffectiveSchedule = (dataset: AirportDataset, blocks: HubBlocks = {}): any[] => {
+  const rows = dataset.data;
+  const retimed: Partial<Record<Side, string>>[] = rows.map(() => ({}));
+  const consumed: Record<Side, Set<number>> = { arrival: new Set(), departure: new Set() };
+  const extra: any[] = [];
+
+  const applyBlock = (f: FlightInfo, side: Side) => {
+    const station = blockStation(f);
+    const delta = f.originalHubTime && f.exactTime ? getMins(f.exactTime) - getMins(f.originalHubTime) : 0;
+    const merged: FlightInfo[] | undefined = (f as any).mergedFlights;
+    const sources = merged
+      ? merged.map(m => ({ flightNo: m.flightNo, time: m.exactTime }))
+      : [{ flightNo: f.flightNo, time: f.originalHubTime }];
+
+    let matched = false;
+    if (station) {
+      sources.forEach(src => {
+        if (!src.time) return;
+        rows.forEach((r, i) => {
+          if (consumed[side].has(i)) return;
+          if ((r[`${side}Code`] || '').toUpperCase() !== station || r.hub_time !== src.time) return;
+          if (src.flightNo && r[`${side}FlightNo`] !== src.flightNo) return;
+          if (f.airline && !(r[`${side}Airline`] || '').toUpperCase().includes(f.airline.toUpperCase())) return;
+          consumed[side].add(i);
+          retimed[i][side] = minsToTime(getMins(r.hub_time) + delta);
+          matched = true;
+        });
+      });
+    }
+    if (!matched) extra.push(blockToRow(f, side));
+  };
+
+  Object.values(blocks).forEach(slot => {
+    (slot.arrivals || []).forEach(f => applyBlock(f, 'arrival'));
+    (slot.departures || []).forEach(f => applyBlock(f, 'departure'));
+  });
+
+  const result: any[] = [];
+  rows.forEach((r, i) => {
+    const hasArr = !!r.arrivalCode;
+    const hasDep = !!r.departureCode;
+    const arrTime = retimed[i].arrival ?? r.hub_time;
+    const depTime = retimed[i].departure ?? r.hub_time;
+    if (hasArr && hasDep && arrTime !== depTime) {
+      result.push({ ...clearSide(r, 'departure'), hub_time: arrTime });
+      result.push({ ...clearSide(r, 'arrival'), hub_time: depTime });
+    } else {
+      result.push({ ...r, hub_time: hasArr ? arrTime : depTime });
+    }
+  });
+
+  return [...result, ...extra];
+};
+
+const formatDays = (days: string) => '1234567'.split('').map(d => days.includes(d) ? d : '.').join('');
+
+const formatField = (field: MappableField, row: any, rawValue: string): string => {
+  const side: Side | null = field.startsWith('arrival') ? 'arrival' : field.startsWith('departure') ? 'departure' : null;
+  if (side && !row[`${side}Code`] && !row[`${side}Airline`] && !row[`${side}FlightNo`]) return '';
+  const value = row[field];
+  if (field === 'effectiveFrom' || field === 'effectiveTo') {
+    if (!value) return '';
+    return normalizeDate(rawValue) === value ? rawValue : value;
+  }
+  if (field === 'arrivalDays' || field === 'departureDays') {
+    if (!value) return '';
+    return parseDays(rawValue) === value ? rawValue : formatDays(value);
+  }
+  if (value === undefined || value === null) return '';
+  return String(value);
+};
+
+// Reverses localizeUtcRows for datasets whose source file was in UTC, using the offsets stored on each row
+const toUtcRow = (row: any): any => {
+  const next = { ...row };
+  if (typeof row.hubUtcOffset === 'number' && row.hub_time) {
+    const hub = shiftClock(row.hub_time, -row.hubUtcOffset);
+    next.hub_time = hub.time;
+    if (hub.dayShift) {
+      next.arrivalDays = shiftDays(row.arrivalDays || '', hub.dayShift);
+      next.departureDays = shiftDays(row.departureDays || '', hub.dayShift);
+      if (row.effectiveFrom) next.effectiveFrom = addDays(row.effectiveFrom, hub.dayShift);
+      if (row.effectiveTo) next.effectiveTo = addDays(row.effectiveTo, hub.dayShift);
+    }
+  }
+  if (typeof row.originUtcOffset === 'number' && row.arrivalTime) next.arrivalTime = shiftClock(row.arrivalTime, -row.originUtcOffset).time;
+  if (typeof row.destinationUtcOffset === 'number' && row.departureTime) next.departureTime = shiftClock(row.departureTime, -row.destinationUtcOffset).time;
+  return next;
+};
+
+/**
+ * exportScheduleCSV: Writes rows back in the dataset's original column layout when it came from a CSV,
+ * keeping unmapped columns from the source row; otherwise uses the default layout.
+ * Source layouts get their times back on the basis (local or UTC) the file used.
+ */
+export const exportScheduleCSV = (dataset: AirportDataset, rows: any[]): string => {
+  let headers: string[];
+  let mapping: ColumnMapping;
+  if (dataset.sourceHeaders && dataset.columnMapping) {
+    headers = dataset.sourceHeaders;
+    mapping = dataset.columnMapping;
+  } else {
+    headers = CSV_FIELDS.map(f => DEFAULT_EXPORT_HEADERS[f.key]);
+    mapping = {};
+    CSV_FIELDS.forEach((f, i) => { mapping[f.key] = i; });
+  }
+
+  const body = rows.map(localRow => {
+    const row = dataset.sourceHeaders && dataset.timeMode === 'utc' ? toUtcRow(localRow) : localRow;
+    const out = headers.map((_, i) => (row._raw && row._raw[i]) || '');
+    (Object.entries(mapping) as [MappableField, number][]).forEach(([field, idx]) => {
+      out[idx] = formatField(field, row, (row._raw && row._raw[idx]) || '');
+    });
+    return out;
+  });
+
+  return serializeCSV([headers, ...body]);
+};
+
+const isCarrierCode = (value: string) => /^[A-Z0-9]{2,3}$/.test(value);
+
+/**
+ * exportScheduleSSIM: One type 3 leg per row side (origin -> hub, hub -> destination).
+ * Sides without a station or the far-end time cannot form a leg and are counted as skipped.
+ * Rows without a day pattern are written as operating on their first N weekdays.
+ * Carriers that are not 2-3 character codes are written as "YY".
+ */
+export const exportScheduleSSIM = (dataset: AirportDataset, rows: any[], airports: AirportIndex = DEFAULT_AIRPORT_INDEX): { text: string, skipped: number } => {
+  const legs: SsimExportLeg[] = [];
+  let skipped = 0;
+  const hubCode = dataset.code;
+
+  rows.forEach(row => {
+    (['arrival', 'departure'] as Side[]).forEach(side => {
+      const station = (row[`${side}Code`] || '').toUpperCase();
+      if (!station && !row[`${side}FlightNo`]) return;
+      const farTime = side === 'arrival' ? row.arrivalTime : row.departureTime;
+      if (!/^[A-Z]{3}$/.test(station) || !farTime || !row.hub_time) {
+        skipped++;
+        return;
+      }
+
+      const freq = row[`${side}Freq`] || 0;
+      const hubDays = row[`${side}Days`] || '1234567'.slice(0, Math.min(7, Math.max(1, freq)));
+      const airline = (row[`${side}Airline`] || '').toUpperCase();
+      const hubOffset = getRowUtcOffset(row, 'hub', hubCode, undefined, airports) ?? 0;
+      const farOffset = getRowUtcOffset(row, side === 'arrival' ? 'origin' : 'destination', hubCode, undefined, airports) ?? 0;
+      const seats = row[`${side}Seats`] || 0;
+
+      const leg: SsimExportLeg = side === 'arrival'
+        ? { airline: '', flightNo: '', departureStation: station, std: farTime, departureUtcOffset: farOffset, arrivalStation: hubCode, sta: row.hub_time, arrivalUtcOffset: hubOffset, days: '', periodFrom: row.effectiveFrom || '', periodTo: row.effectiveTo || '' }
+        : { airline: '', flightNo: '', departureStation: hubCode, std: row.hub_time, departureUtcOffset: hubOffset, arrivalStation: station, sta: farTime, arrivalUtcOffset: farOffset, days: hubDays, periodFrom: row.effectiveFrom || '', periodTo: row.effectiveTo || '' };
+
+      // SSIM days are departure days; arrivals are stored by their hub (arrival) day
+      if (side === 'arrival') {
+        const dateVariation = getArrivalDateVariation(leg.std, leg.departureUtcOffset, leg.sta, leg.arrivalUtcOffset);
+        leg.days = shiftDays(hubDays, -dateVariation);
+        if (dateVariation) {
+          leg.periodFrom = leg.periodFrom && addDays(leg.periodFrom, -dateVariation);
+          leg.periodTo = leg.periodTo && addDays(leg.periodTo, -dateVariation);
+        }
+      }
+      leg.airline = isCarrierCode(airline) ? airline : 'YY';
+      leg.flightNo = ((row[`${side}FlightNo`] || '').match(/(\d{1,4})[A-Z]?$/) || [])[1] || '0';
+      leg.equipment = row[`${side}Equipment`] || '';
+      if (side === 'arrival') leg.arrivalTerminal = row.arrivalTerminal || '';
+      else leg.departureTerminal = row.departureTerminal || '';
+      leg.seatsPerFlight = freq > 0 && seats > 0 ? Math.round(seats / freq) : undefined;
+      legs.push(leg);
+    });
+  });
+
+  const carrierCounts: Record<string, number> = {};
+  legs.forEach(l => { carrierCounts[l.airline] = (carrierCounts[l.airline] || 0) + 1; });
+  const airline = Object.entries(carrierCounts).sort((a, b) => b[1] - a[1])[0]?.[0] || 'YY';
+
+  return { text: serializeSsim(legs, { airline, title: `${hubCode} EFFECTIVE SCHEDULE` }), skipped };
+};
+
+export const downloadFile = (fileName: string, content: string, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
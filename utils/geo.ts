@@ -0,0 +1,43 @@
+
+import { AirportIndex, DEFAULT_AIRPORT_INDEX, getAirport } from './airports';
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => deg * Math.PI / 180;
+
+/**
+ * greatCircleKm: Haversine distance between two coordinates.
+ */
+export const greatCircleKm = (a: { lat: number, lon: number }, b: { lat: number, lon: number }) => {
+  const dLat = toRad(b.lat - a.lat);
+  const dLon = toRad(b.lon - a.lon);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+// Null when either airport has no coordinates
+export const getAirportDistanceKm = (from: string, to: string, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): number | null => {
+  const a = getAirport(from, airports);
+  const b = getAirport(to, airports);
+  if (a?.lat === undefined || a.lon === undefined || b?.lat === undefined || b.lon === undefined) return null;
+  return greatCircleKm({ lat: a.lat, lon: a.lon }, { lat: b.lat, lon: b.lon });
+};
+
+export interface Circuity {
+  ratio: number; // Routed over direct distance; Infinity when origin and destination coincide
+  routedKm: number;
+  directKm: number;
+}
+
+/**
+ * getCircuity: How far out of the way a connection over the hub runs, as origin→hub→destination
+ * over origin→destination. Null when any of the airports has no coordinates.
+ */
+export const getCircuity = (origin: string, hub: string, destination: string, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): Circuity | null => {
+  const first = getAirportDistanceKm(origin, hub, airports);
+  const second = getAirportDistanceKm(hub, destination, airports);
+  const directKm = getAirportDistanceKm(origin, destination, airports);
+  if (first === null || second === null || directKm === null) return null;
+  const routedKm = first + second;
+  return { ratio: directKm > 0 ? routedKm / directKm : Infinity, routedKm, directKm };
+};
@@ -0,0 +1,51 @@
+
+/**
+ * Undo/redo history. Entries hold the state before and after a change; states are treated as
+ * immutable, so consecutive entries share everything that did not change.
+ */
+
+export interface HistoryEntry<T> {
+  id: string;
+  label: string;
+  timestamp: number;
+  before: T;
+  after: T;
+}
+
+export interface History<T> {
+  past: HistoryEntry<T>[]; // Oldest first
+  future: HistoryEntry<T>[]; // Next redo first
+}
+
+export const HISTORY_LIMIT = 100;
+
+export const emptyHistory = <T>(): History<T> => ({ past: [], future: [] });
+
+// Recording a change drops anything that could have been redone
+export const pushHistory = <T>(history: History<T>, label: string, before: T, after: T): History<T> => ({
+  past: [...history.past, { id: Math.random().toString(36).substr(2, 9), label, timestamp: Date.now(), before, after }].slice(-HISTORY_LIMIT),
+  future: []
+});
+
+/**
+ * travelHistory: Moves `steps` entries back (negative) or forward (positive). Returns the state to
+ * apply, or null when there is nothing to move over.
+ */
+export const travelHistory = <T>(history: History<T>, steps: number): { history: History<T>, state: T } | null => {
+  if (steps < 0) {
+    const count = Math.min(-steps, history.past.length);
+    if (count === 0) return null;
+    const undone = history.past.slice(history.past.length - count);
+    return {
+      history: { past: history.past.slice(0, history.past.length - count), future: [...undone, ...history.future] },
+      state: undone[0].before
+    };
+  }
+  const count = Math.min(steps, history.future.length);
+  if (count === 0) return null;
+  const redone = history.future.slice(0, count);
+  return {
+    history: { past: [...history.past, ...redone], future: history.future.slice(count) },
+    state: redone[redone.length - 1].after
+  };
+};
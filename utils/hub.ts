@@ -0,0 +1,26 @@
+
+import { AirportDataset } from '../types';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX, getAirport } from './airports';
+import { computeCatchment, getDefaultCatchmentRules } from './catchment';
+
+/**
+ * Per-dataset hub configuration. Every analysis that used to assume a particular hub reads
+ * the home country, focus port and catchment from here.
+ */
+
+export interface HubProfile {
+  hubCode: string;
+  homeCountry?: string; // Undefined when the hub airport is unknown; nothing is domestic then
+  focusCode: string;
+  catchment: Set<string>;
+}
+
+export const getHubProfile = (dataset: AirportDataset, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): HubProfile => {
+  const homeCountry = dataset.homeCountry || getAirport(dataset.code, airports)?.country;
+  return {
+    hubCode: dataset.code,
+    homeCountry,
+    focusCode: dataset.focusCode || dataset.code,
+    catchment: computeCatchment(dataset.catchmentRules ?? getDefaultCatchmentRules(dataset.code), dataset.code, homeCountry, airports)
+  };
+};
@@ -0,0 +1,259 @@
+
+import { AirportDataset, CarrierAgreements, ConnectivityMode, FlightInfo, MctRule } from '../types';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX } from './airports';
+import { isEligibleConnection } from './carriers';
+import { buildEffectiveSchedule } from './export';
+import { getCircuity } from './geo';
+import { getHubProfile } from './hub';
+import { normalizeFlightNo } from './links';
+import { MctContext, resolveMct } from './mct';
+import { getWeekOperation } from './season';
+import { ManualBlocks } from './storage';
+import { getMins, minsToTime } from './time';
+import { getAirportUtcOffset } from './timezone';
+
+/**
+ * Itinerary search through the loaded hubs. Each hub's schedule is taken as it stands after
+ * manual retiming and cut to the rows valid in the search week; journeys are chained one weekday at a time in each station's local time, with
+ * every connection held to that hub's MCT rules, the connection window, the carrier
+ * eligibility mode and the circuity limit. A flight between two hubs is timed at the far hub from that hub's own
+ * schedule when the same flight number appears there.
+ */
+
+export interface ItinerarySearchOptions {
+  mct: number; // Hours; default when no MCT rule matches
+  mctRules?: MctRule[];
+  maxConnectionWindow: number; // Hours
+  connectivityMode?: ConnectivityMode;
+  carrierAgreements?: CarrierAgreements;
+  maxCircuity?: number | null; // Connections routed further than this multiple of the direct distance are skipped
+  airports?: AirportIndex;
+  maxStops: 1 | 2;
+  day: number | null; // ISO weekday of departure from the origin, null for any day
+  week: string; // Monday ISO date of the search week; rows outside their validity period that week are left out
+}
+
+export interface ItineraryLeg {
+  from: string;
+  to: string;
+  airline?: string;
+  flightNo?: string;
+  departure?: string; // Local time at `from`; absent when the schedule has no time for that end
+  arrival?: string; // Local time at `to`
+  retimed: boolean; // Moved or added by a manual block
+}
+
+export interface ItineraryConnection {
+  hub: string;
+  minutes: number;
+  mctMins: number;
+  mctRule: string;
+}
+
+export interface Itinerary {
+  id: string;
+  legs: ItineraryLeg[];
+  connections: ItineraryConnection[];
+  connectionMins: number;
+  elapsedMins: number | null; // Origin departure to destination arrival; null when a leg end time or time zone is unknown
+  days: string; // Days of travel: departure days at the origin when known, else arrival days at the first hub
+}
+
+interface HubLeg {
+  station: string; // Far end of the leg
+  airline?: string;
+  flightNo?: string;
+  terminal?: string;
+  days: string; // Operating days at the hub
+  hubMins: number;
+  outerTime?: string; // Local time at the far end
+  retimed: boolean;
+}
+
+interface HubSchedule {
+  code: string;
+  offset: number | null; // Minutes ahead of UTC
+  mctContext: MctContext;
+  arrivals: HubLeg[];
+  departures: HubLeg[];
+}
+
+interface LegTiming {
+  leg: ItineraryLeg;
+  depDay: number; // Local weekday at `from`, 1–7
+  arrWeekMins: number; // Local minute of the week at `to`
+  blockMins: number | null;
+}
+
+const WEEK = 7 * 1440;
+const ALL_DAYS = '1234567';
+
+const mod = (value: number, base: number) => ((value % base) + base) % base;
+
+const dayOf = (weekMins: number) => Math.floor(mod(weekMins, WEEK) / 1440) + 1;
+
+// Flight time between two local clock readings; null without both time zones
+const blockTime = (depMins: number, depOffset: number | null, arrMins: number, arrOffset: number | null) =>
+  depOffset === null || arrOffset === null ? null : mod((arrMins - arrOffset) - (depMins - depOffset), 1440);
+
+/**
+ * buildHubSchedule: A hub's arrival and departure legs after manual retiming, on the days they
+ * operate in the search week. The far-end time of a retimed leg moves with its hub time.
+ */
+const buildHubSchedule = (dataset: AirportDataset, blocks: ManualBlocks[string] | undefined, options: ItinerarySearchOptions): HubSchedule => {
+  const airports = options.airports || DEFAULT_AIRPORT_INDEX;
+  const tagged = { ...dataset, data: dataset.data.map((row, i) => ({ ...row, _source: i })) };
+  const schedule: HubSchedule = {
+    code: dataset.code,
+    offset: getAirportUtcOffset(dataset.code, options.week, airports),
+    mctContext: { defaultMins: Math.round(options.mct * 60), rules: options.mctRules, hubCode: dataset.code, homeCountry: getHubProfile(dataset, airports).homeCountry, airports },
+    arrivals: [],
+    departures: []
+  };
+
+  buildEffectiveSchedule(tagged, blocks).forEach(row => {
+    if (!row.hub_time || !row.hub_time.includes(':')) return;
+    const source = row._source !== undefined ? dataset.data[row._source] : undefined;
+    const delta = source ? getMins(row.hub_time) - getMins(source.hub_time) : 0;
+    (['arrival', 'departure'] as const).forEach(side => {
+      const station = (row[`${side}Code`] || '').toUpperCase();
+      if (!/^[A-Z]{3}$/.test(station) || station === dataset.code) return;
+      const week = getWeekOperation(row[`${side}Days`] || '', row.effectiveFrom, row.effectiveTo, options.week);
+      if (week.share === 0) return;
+      const outer = row[`${side}Time`];
+      (side === 'arrival' ? schedule.arrivals : schedule.departures).push({
+        station,
+        airline: row[`${side}Airline`] || undefined,
+        flightNo: row[`${side}FlightNo`] || undefined,
+        terminal: row[`${side}Terminal`] || undefined,
+        days: week.days || ALL_DAYS,
+        hubMins: getMins(row.hub_time),
+        outerTime: outer && outer.includes(':') ? minsToTime(getMins(outer) + delta) : undefined,
+        retimed: !source || delta !== 0
+      });
+    });
+  });
+  return schedule;
+};
+
+const asFlight = (leg: HubLeg): FlightInfo => ({ code: leg.station, airline: leg.airline, flightNo: leg.flightNo, terminal: leg.terminal, freq: 0, region: '' });
+
+// Departure instances at a hub leaving within the connection window of a local arrival minute
+const connectingDays = (arrWeekMins: number, dep: HubLeg, mctMins: number, windowMins: number) =>
+  dep.days.split('').map(d => {
+    const depWeekMins = (parseInt(d) - 1) * 1440 + dep.hubMins;
+    return { depWeekMins, minutes: mod(depWeekMins - arrWeekMins, WEEK) };
+  }).filter(c => c.minutes >= mctMins && c.minutes <= mctMins + windowMins);
+
+/**
+ * searchItineraries: One-stop journeys through any loaded hub and, when allowed, two-stop
+ * journeys through two of them. Ranked by elapsed time, then time spent connecting.
+ */
+export const searchItineraries = (
+  origin: string,
+  destination: string,
+  datasets: AirportDataset[],
+  manualBlocks: ManualBlocks,
+  options: ItinerarySearchOptions
+): Itinerary[] => {
+  const airports = options.airports || DEFAULT_AIRPORT_INDEX;
+  const from = origin.trim().toUpperCase();
+  const to = destination.trim().toUpperCase();
+  if (!from || !to || from === to) return [];
+
+  const windowMins = Math.round(options.maxConnectionWindow * 60);
+  const offsetOf = (code: string) => getAirportUtcOffset(code, options.week, airports);
+  const originOffset = offsetOf(from);
+  const destinationOffset = offsetOf(to);
+  const hubs = datasets.filter(d => d.code !== from && d.code !== to).map(d => buildHubSchedule(d, manualBlocks[d.id], options));
+  const eligible = (arr: HubLeg, dep: HubLeg) => isEligibleConnection(arr.airline, dep.airline, options.connectivityMode, options.carrierAgreements);
+  // As in the bank chart, stations without coordinates are never held to the limit
+  const circuitous = (prev: string, hub: string, next: string) => {
+    const circuity = options.maxCircuity ? getCircuity(prev, hub, next, airports) : null;
+    return circuity !== null && circuity.ratio > options.maxCircuity!;
+  };
+
+  // First leg into a hub, timed from its hub arrival on each operating day
+  const inbound = (hub: HubSchedule, arr: HubLeg) => arr.days.split('').map(d => {
+    const arrWeekMins = (parseInt(d) - 1) * 1440 + arr.hubMins;
+    const blockMins = arr.outerTime ? blockTime(getMins(arr.outerTime), originOffset, arr.hubMins, hub.offset) : null;
+    const depDay = blockMins !== null ? dayOf(arrWeekMins - blockMins - hub.offset! + originOffset!) : parseInt(d);
+    return { arrWeekMins, depDay, blockMins };
+  });
+
+  const leg = (dep: { station: string }, arr: { station: string }, hubLeg: HubLeg, departure?: string, arrival?: string): ItineraryLeg => ({
+    from: dep.station, to: arr.station, airline: hubLeg.airline, flightNo: hubLeg.flightNo, departure, arrival, retimed: hubLeg.retimed
+  });
+
+  const results: Record<string, Itinerary> = {};
+  const record = (legs: ItineraryLeg[], connections: ItineraryConnection[], blocks: (number | null)[], depDay: number) => {
+    if (options.day !== null && depDay !== options.day) return;
+    const connectionMins = connections.reduce((n, c) => n + c.minutes, 0);
+    const elapsedMins = blocks.every(b => b !== null) ? (blocks as number[]).reduce((n, b) => n + b, connectionMins) : null;
+    // Days that give the same journey, with the same connection times, are one itinerary
+    const key = [...legs.map(l => `${l.from}${l.airline}${l.flightNo}${l.departure}${l.arrival}`), ...connections.map(c => c.minutes)].join('|');
+    if (!results[key]) results[key] = { id: key, legs, connections, connectionMins, elapsedMins, days: '' };
+    if (!results[key].days.includes(depDay.toString())) results[key].days = results[key].days.split('').concat(depDay.toString()).sort().join('');
+  };
+
+  hubs.forEach(hub => {
+    const hubPoint = { station: hub.code };
+    hub.arrivals.filter(a => a.station === from).forEach(arr => {
+      const arrTime = minsToTime(arr.hubMins);
+      const firstLeg = leg({ station: from }, hubPoint, arr, arr.outerTime, arrTime);
+      const instances = inbound(hub, arr);
+
+      // One stop
+      hub.departures.filter(d => d.station === to && eligible(arr, d) && !circuitous(from, hub.code, to)).forEach(dep => {
+        const mct = resolveMct(asFlight(arr), asFlight(dep), hub.mctContext);
+        const lastBlock = dep.outerTime ? blockTime(dep.hubMins, hub.offset, getMins(dep.outerTime), destinationOffset) : null;
+        const lastLeg = leg(hubPoint, { station: to }, dep, minsToTime(dep.hubMins), dep.outerTime);
+        instances.forEach(inst => connectingDays(inst.arrWeekMins, dep, mct.minutes, windowMins).forEach(c => {
+          record([firstLeg, lastLeg], [{ hub: hub.code, minutes: c.minutes, mctMins: mct.minutes, mctRule: mct.label }], [inst.blockMins, lastBlock], inst.depDay);
+        }));
+      });
+
+      // Two stops: on to a second hub, timed there from that hub's arrival of the same flight
+      if (options.maxStops < 2) return;
+      hubs.filter(next => next.code !== hub.code && !circuitous(from, hub.code, next.code) && !circuitous(hub.code, next.code, to)).forEach(next => {
+        const nextPoint = { station: next.code };
+        hub.departures.filter(m => m.station === next.code && eligible(arr, m)).forEach(mid => {
+          const flightNo = normalizeFlightNo(mid.flightNo);
+          const counterpart = flightNo ? next.arrivals.find(a => a.station === hub.code && a.airline === mid.airline && normalizeFlightNo(a.flightNo) === flightNo) : undefined;
+          const midArrMins = counterpart ? counterpart.hubMins : mid.outerTime ? getMins(mid.outerTime) : null;
+          if (midArrMins === null) return;
+          const midBlock = blockTime(mid.hubMins, hub.offset, midArrMins, next.offset);
+          // Without both time zones the far hub's clock is taken to run with this one's
+          const zoneShift = hub.offset !== null && next.offset !== null ? next.offset - hub.offset : 0;
+          const midArrival: HubLeg = { ...mid, station: hub.code, terminal: counterpart?.terminal };
+          const firstMct = resolveMct(asFlight(arr), asFlight(mid), hub.mctContext);
+          const midLeg = leg(hubPoint, nextPoint, mid, minsToTime(mid.hubMins), minsToTime(midArrMins));
+
+          next.departures.filter(d => d.station === to && isEligibleConnection(mid.airline, d.airline, options.connectivityMode, options.carrierAgreements)).forEach(dep => {
+            const secondMct = resolveMct(asFlight(midArrival), asFlight(dep), next.mctContext);
+            const lastBlock = dep.outerTime ? blockTime(dep.hubMins, next.offset, getMins(dep.outerTime), destinationOffset) : null;
+            const lastLeg = leg(nextPoint, { station: to }, dep, minsToTime(dep.hubMins), dep.outerTime);
+            instances.forEach(inst => connectingDays(inst.arrWeekMins, mid, firstMct.minutes, windowMins).forEach(c1 => {
+              const arrWeekMins = c1.depWeekMins + mod(midArrMins - mid.hubMins - zoneShift, 1440) + zoneShift;
+              connectingDays(arrWeekMins, dep, secondMct.minutes, windowMins).forEach(c2 => {
+                record(
+                  [firstLeg, midLeg, lastLeg],
+                  [
+                    { hub: hub.code, minutes: c1.minutes, mctMins: firstMct.minutes, mctRule: firstMct.label },
+                    { hub: next.code, minutes: c2.minutes, mctMins: secondMct.minutes, mctRule: secondMct.label }
+                  ],
+                  [inst.blockMins, midBlock, lastBlock],
+                  inst.depDay
+                );
+              });
+            }));
+          });
+        });
+      });
+    });
+  });
+
+  return Object.values(results).sort((a, b) =>
+    (a.elapsedMins ?? Infinity) - (b.elapsedMins ?? Infinity) || a.connectionMins - b.connectionMins || a.legs.length - b.legs.length
+  );
+};
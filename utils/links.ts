@@ -0,0 +1,220 @@
+
+import { AirportDataset, FlightInfo, RegionDefinition } from '../types';
+import { AirportIndex } from './airports';
+import { classifyAirport } from './regions';
+import { ManualBlocks } from './storage';
+import { getMins, minsToTime } from './time';
+
+/**
+ * Cross-hub links between manual blocks. A block moved at one hub carries the same flight's block
+ * at the other hub along with it, but only through an explicit link stored on both blocks. Links
+ * are made automatically only when the flight's identity (airline, flight number, operating days)
+ * picks out a single counterpart; anything else is left for the user to link by hand.
+ */
+
+export interface LinkEnd {
+  datasetId: string;
+  hub: string;
+  hour: number;
+  type: 'arr' | 'dep';
+  flight: FlightInfo;
+}
+
+export interface HubLinkRecord {
+  id: string;
+  a: LinkEnd;
+  b?: LinkEnd; // Absent when the counterpart block is gone
+  confirmed: boolean;
+  broken: boolean; // Counterpart missing or no longer pointing back
+}
+
+export interface LinkContext {
+  datasets: AirportDataset[];
+  regions: RegionDefinition[];
+  airports: AirportIndex;
+}
+
+type HubSlots = ManualBlocks[string];
+
+const station = (f: FlightInfo) => f.code.split(' ')[0].toUpperCase();
+
+const airlineOf = (f: FlightInfo) => (f.airline || (f.code.split(' ').length > 1 ? f.code.split(' ')[1] : '')).toUpperCase();
+
+// "6E 0123", "6E123" and "123" are the same number; suffix letters are kept
+export const normalizeFlightNo = (value: string | undefined) => {
+  const match = value?.toUpperCase().match(/(\d{1,4}[A-Z]?)$/);
+  return match ? match[1].replace(/^0+(?=\d)/, '') : value?.toUpperCase() || undefined;
+};
+
+// A merged block stands for several flights, so its first flight number identifies none of them
+const flightNoOf = (f: FlightInfo) => 'mergedFlights' in f ? undefined : normalizeFlightNo(f.flightNo);
+
+export const flightIdentity = (f: FlightInfo) => {
+  const name = [airlineOf(f), flightNoOf(f)].filter(Boolean).join(' ');
+  return name ? `${name}${f.days ? ` · ${f.days}` : ''}` : f.code;
+};
+
+export const findBlock = (slots: HubSlots | undefined, blockId: string): { hour: number, type: 'arr' | 'dep', flight: FlightInfo } | undefined => {
+  for (const k of Object.keys(slots || {})) {
+    const hour = parseInt(k);
+    const arr = (slots![hour].arrivals || []).find(f => f.id === blockId);
+    if (arr) return { hour, type: 'arr', flight: arr };
+    const dep = (slots![hour].departures || []).find(f => f.id === blockId);
+    if (dep) return { hour, type: 'dep', flight: dep };
+  }
+  return undefined;
+};
+
+// Replaces one block, moving it to the hour of its new time; other hours keep their identity
+const replaceBlock = (blocks: ManualBlocks, datasetId: string, blockId: string, update: (f: FlightInfo) => FlightInfo): ManualBlocks => {
+  const slots = blocks[datasetId];
+  const found = findBlock(slots, blockId);
+  if (!found) return blocks;
+  const next = update(found.flight);
+  const list = found.type === 'arr' ? 'arrivals' : 'departures';
+  const hour = next.exactTime ? parseInt(next.exactTime.split(':')[0]) : found.hour;
+  const targetHour = isNaN(hour) ? found.hour : hour;
+  const result: HubSlots = { ...slots, [found.hour]: { ...slots[found.hour], [list]: slots[found.hour][list].filter(f => f.id !== blockId) } };
+  const target = result[targetHour] || { arrivals: [], departures: [] };
+  result[targetHour] = { ...target, [list]: targetHour === found.hour ? slots[found.hour][list].map(f => f.id === blockId ? next : f) : [...(target[list] || []), next] };
+  return { ...blocks, [datasetId]: result };
+};
+
+const insertBlock = (blocks: ManualBlocks, datasetId: string, type: 'arr' | 'dep', flight: FlightInfo): ManualBlocks => {
+  const slots = blocks[datasetId] || {};
+  const hour = parseInt(flight.exactTime!.split(':')[0]);
+  const list = type === 'arr' ? 'arrivals' : 'departures';
+  const slot = slots[hour] || { arrivals: [], departures: [] };
+  return { ...blocks, [datasetId]: { ...slots, [hour]: { ...slot, [list]: [...(slot[list] || []), flight] } } };
+};
+
+/**
+ * listHubLinks: Every link across the loaded hubs, once per pair. Ends whose counterpart is
+ * missing or points elsewhere are reported as broken.
+ */
+export const listHubLinks = (blocks: ManualBlocks, datasets: AirportDataset[]): HubLinkRecord[] => {
+  const records: HubLinkRecord[] = [];
+  datasets.forEach(dataset => {
+    Object.keys(blocks[dataset.id] || {}).forEach(k => {
+      const hour = parseInt(k);
+      const slot = blocks[dataset.id][hour];
+      const ends: LinkEnd[] = [
+        ...(slot.arrivals || []).map(flight => ({ datasetId: dataset.id, hub: dataset.code, hour, type: 'arr' as const, flight })),
+        ...(slot.departures || []).map(flight => ({ datasetId: dataset.id, hub: dataset.code, hour, type: 'dep' as const, flight }))
+      ];
+      ends.filter(a => a.flight.link).forEach(a => {
+        const link = a.flight.link!;
+        const target = datasets.find(d => d.code === link.hub);
+        const found = target ? findBlock(blocks[target.id], link.blockId) : undefined;
+        const b = target && found ? { datasetId: target.id, hub: target.code, ...found } : undefined;
+        const broken = !b || b.flight.link?.blockId !== a.flight.id || b.flight.link?.hub !== a.hub;
+        // Intact pairs are listed from the end that sorts first
+        if (!broken && `${b!.hub}:${b!.flight.id}` < `${a.hub}:${a.flight.id}`) return;
+        records.push({ id: `${a.hub}:${a.flight.id}`, a, b, confirmed: !!link.confirmed && !broken, broken });
+      });
+    });
+  });
+  return records;
+};
+
+/**
+ * breakLink: Removes the link from a block and from its counterpart when that still points back.
+ */
+export const breakLink = (blocks: ManualBlocks, datasets: AirportDataset[], datasetId: string, blockId: string): ManualBlocks => {
+  const hub = datasets.find(d => d.id === datasetId)?.code;
+  const link = findBlock(blocks[datasetId], blockId)?.flight.link;
+  if (!link) return blocks;
+  let result = replaceBlock(blocks, datasetId, blockId, ({ link: _, ...f }) => f);
+  const target = datasets.find(d => d.code === link.hub);
+  const counterpart = target ? findBlock(result[target.id], link.blockId) : undefined;
+  if (target && counterpart?.flight.link?.blockId === blockId && counterpart.flight.link.hub === hub) {
+    result = replaceBlock(result, target.id, link.blockId, ({ link: _, ...f }) => f);
+  }
+  return result;
+};
+
+/**
+ * setLink: Links two blocks at different hubs, dropping any links either had before. Ends
+ * without an anchor are anchored at their current time so later moves have a base.
+ */
+export const setLink = (blocks: ManualBlocks, datasets: AirportDataset[], a: { datasetId: string, blockId: string }, b: { datasetId: string, blockId: string }, confirmed: boolean): ManualBlocks => {
+  const hubA = datasets.find(d => d.id === a.datasetId)?.code;
+  const hubB = datasets.find(d => d.id === b.datasetId)?.code;
+  if (!hubA || !hubB || hubA === hubB) return blocks;
+  let result = breakLink(breakLink(blocks, datasets, a.datasetId, a.blockId), datasets, b.datasetId, b.blockId);
+  const anchor = (f: FlightInfo) => f.originalHubTime || f.exactTime;
+  result = replaceBlock(result, a.datasetId, a.blockId, f => ({ ...f, originalHubTime: anchor(f), link: { hub: hubB, blockId: b.blockId, confirmed } }));
+  result = replaceBlock(result, b.datasetId, b.blockId, f => ({ ...f, originalHubTime: anchor(f), link: { hub: hubA, blockId: a.blockId, confirmed } }));
+  return result;
+};
+
+// Candidates carry the same airline code and flight number; days only break ties. A focal block
+// without both has no identity to match on and is left for linking by hand
+const pickCounterpart = <T>(focal: FlightInfo, candidates: T[], identity: (c: T) => { airline: string, flightNo?: string, days?: string }): T | undefined => {
+  const flightNo = flightNoOf(focal);
+  const airline = airlineOf(focal).trim();
+  if (!flightNo || !airline) return undefined;
+  let matches = candidates.filter(c => {
+    const id = identity(c);
+    return id.airline.trim().toUpperCase() === airline && id.flightNo === flightNo;
+  });
+  if (matches.length > 1 && focal.days) {
+    const sameDays = matches.filter(c => identity(c).days === focal.days);
+    if (sameDays.length > 0) matches = sameDays;
+  }
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+/**
+ * syncLinkedBlocks: Carries a block's move to its linked counterpart, applying the same delta
+ * from anchor. An unlinked block is first linked to its counterpart at the other hub — an
+ * unlinked manual block there, else a new SYNC block from the schedule — when exactly one fits.
+ */
+export const syncLinkedBlocks = (blocks: ManualBlocks, source: AirportDataset, focal: FlightInfo, type: 'arr' | 'dep', context: LinkContext): ManualBlocks => {
+  if (!focal.id || !focal.originalHubTime || !focal.exactTime) return blocks;
+  const delta = getMins(focal.exactTime) - getMins(focal.originalHubTime);
+  let result = blocks;
+  let link = focal.link;
+
+  if (!link) {
+    const target = context.datasets.find(d => d.code === station(focal));
+    if (!target || target.id === source.id) return blocks;
+    const reciprocalType = type === 'arr' ? 'dep' : 'arr';
+    const typeKey = reciprocalType === 'arr' ? 'arrival' : 'departure';
+
+    const slots = blocks[target.id] || {};
+    const unlinked = Object.keys(slots).flatMap(k => (reciprocalType === 'arr' ? slots[parseInt(k)].arrivals : slots[parseInt(k)].departures) || [])
+      .filter(f => !f.link && station(f) === source.code);
+    const existing = pickCounterpart(focal, unlinked, f => ({ airline: airlineOf(f), flightNo: flightNoOf(f), days: f.days }));
+
+    let counterpartId = existing?.id;
+    if (!existing) {
+      const rows = target.data.filter(row => row[`${typeKey}Code`]?.toUpperCase() === source.code && row.hub_time);
+      const row = pickCounterpart(focal, rows, r => ({ airline: r[`${typeKey}Airline`] || '', flightNo: normalizeFlightNo(r[`${typeKey}FlightNo`]), days: r[`${typeKey}Days`] }));
+      if (!row) return blocks;
+      const airline = row[`${typeKey}Airline`] || focal.airline;
+      const syncFlight: FlightInfo = {
+        id: Math.random().toString(36).substr(2, 9),
+        code: `${source.code}${airline ? ' ' + airline : ''} SYNC`,
+        airline,
+        flightNo: row[`${typeKey}FlightNo`],
+        freq: focal.freq,
+        days: row[`${typeKey}Days`] || '',
+        ...classifyAirport(source.code, context.regions, context.airports),
+        isManual: true,
+        exactTime: row.hub_time,
+        originalHubTime: row.hub_time // Seal the anchor for the other hub
+      };
+      result = insertBlock(result, target.id, reciprocalType, syncFlight);
+      counterpartId = syncFlight.id;
+    }
+    result = setLink(result, context.datasets, { datasetId: source.id, blockId: focal.id }, { datasetId: target.id, blockId: counterpartId! }, false);
+    link = findBlock(result[source.id], focal.id)?.flight.link;
+    if (!link) return blocks;
+  }
+
+  const target = context.datasets.find(d => d.code === link!.hub);
+  if (!target) return result;
+  // The delta is a duration, so it carries across time zones; each anchor stays in its hub's local time
+  return replaceBlock(result, target.id, link.blockId, f => ({ ...f, exactTime: minsToTime(getMins(f.originalHubTime || f.exactTime || '00:00') + delta) }));
+};
@@ -0,0 +1,81 @@
+
+import { ConnectionStatus, FlightInfo, MctRule } from '../types';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX, isDomesticAirport } from './airports';
+
+/**
+ * Minimum connecting times. Rules follow IATA MCT records: each names a connection status and
+ * optionally arriving/departing carriers and hub terminals. Of the rules matching a connection
+ * the most specific wins; carrier exceptions outrank terminal rules, which outrank status rules.
+ * Connections no rule matches use the default MCT.
+ */
+
+export interface MctContext {
+  defaultMins: number;
+  rules?: MctRule[];
+  hubCode?: string;
+  homeCountry?: string;
+  airports?: AirportIndex;
+}
+
+export interface AppliedMct {
+  minutes: number;
+  rule?: MctRule; // Absent when the default applies
+  label: string;
+}
+
+export const CONNECTION_STATUSES: ConnectionStatus[] = ['DD', 'DI', 'ID', 'II'];
+
+const station = (f: FlightInfo) => f.code.split(' ')[0].toUpperCase();
+
+export const getConnectionStatus = (arr: FlightInfo, dep: FlightInfo, homeCountry: string | undefined, airports: AirportIndex): ConnectionStatus => {
+  const leg = (f: FlightInfo) => isDomesticAirport(station(f), homeCountry, airports) ? 'D' : 'I';
+  return `${leg(arr)}${leg(dep)}` as ConnectionStatus;
+};
+
+const SPECIFICITY: [keyof MctRule, number][] = [
+  ['arrivalCarrier', 16], ['departureCarrier', 16],
+  ['arrivalTerminal', 4], ['departureTerminal', 4],
+  ['status', 2], ['hub', 1]
+];
+
+export const getRuleSpecificity = (rule: MctRule) =>
+  SPECIFICITY.reduce((n, [key, weight]) => rule[key] ? n + weight : n, 0);
+
+const same = (ruleValue: string | undefined, value: string | undefined) =>
+  !ruleValue || ruleValue.toUpperCase() === (value || '').toUpperCase();
+
+export const describeMctRule = (rule: MctRule) => {
+  const parts = [
+    rule.hub,
+    rule.status,
+    (rule.arrivalCarrier || rule.departureCarrier) && `${rule.arrivalCarrier || '**'}→${rule.departureCarrier || '**'}`,
+    (rule.arrivalTerminal || rule.departureTerminal) && `T${rule.arrivalTerminal || '*'}→T${rule.departureTerminal || '*'}`
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'All connections';
+};
+
+/**
+ * resolveMct: The minimum connecting time for an arrival feeding a departure. Equally specific
+ * rules are taken in table order.
+ */
+export const resolveMct = (arr: FlightInfo, dep: FlightInfo, context: MctContext): AppliedMct => {
+  const { rules = [], hubCode, homeCountry, airports = DEFAULT_AIRPORT_INDEX } = context;
+  let best: MctRule | undefined;
+  let bestScore = -1;
+  if (rules.length > 0) {
+    const status = getConnectionStatus(arr, dep, homeCountry, airports);
+    rules.forEach(rule => {
+      const matches = same(rule.hub, hubCode) && (!rule.status || rule.status === status) &&
+        same(rule.arrivalCarrier, arr.airline) && same(rule.departureCarrier, dep.airline) &&
+        same(rule.arrivalTerminal, arr.terminal) && same(rule.departureTerminal, dep.terminal);
+      const score = getRuleSpecificity(rule);
+      if (matches && score > bestScore) {
+        best = rule;
+        bestScore = score;
+      }
+    });
+  }
+  return best
+    ? { minutes: best.minutes, rule: best, label: describeMctRule(best) }
+    : { minutes: context.defaultMins, label: 'Default' };
+};
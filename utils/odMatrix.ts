@@ -0,0 +1,89 @@
+
+import { HubSlot, RegionDefinition } from '../types';
+import { ConnectionPair, ConnectivityOptions, getConnectionPairs } from './connectivity';
+import { getTopLevelRegions } from './regions';
+
+/**
+ * Origin × destination connectivity for one hub. Rows are the stations feeding the hub, columns
+ * the stations it connects them to; each cell totals the valid flight pairs between the two.
+ */
+
+export interface OdPort {
+  code: string;
+  region: string;
+  subRegion?: string;
+  connections: number; // Weekly connecting frequency across the row or column
+  bestMins: number;
+}
+
+export interface OdCell {
+  origin: string;
+  destination: string;
+  connections: number;
+  bestMins: number; // Shortest elapsed connecting time
+  pairs: ConnectionPair[];
+}
+
+export interface OdMatrix {
+  origins: OdPort[];
+  destinations: OdPort[];
+  cells: Record<string, OdCell>; // By odCellKey
+  maxConnections: number;
+}
+
+export type OdSort = 'connections' | 'best' | 'code';
+
+export const odCellKey = (origin: string, destination: string) => `${origin}-${destination}`;
+
+const station = (code: string) => code.split(' ')[0].toUpperCase();
+
+const addToPort = (ports: Record<string, OdPort>, code: string, source: { region: string, subRegion?: string }, pair: ConnectionPair) => {
+  if (!ports[code]) ports[code] = { code, region: source.region, subRegion: source.subRegion, connections: 0, bestMins: Infinity };
+  ports[code].connections += pair.frequency;
+  ports[code].bestMins = Math.min(ports[code].bestMins, pair.elapsedMins);
+};
+
+/**
+ * buildOdMatrix: Aggregates every valid connection at the hub by origin and destination station.
+ * Manual blocks count towards their station.
+ */
+export const buildOdMatrix = (slots: HubSlot[], options: ConnectivityOptions): OdMatrix => {
+  const origins: Record<string, OdPort> = {};
+  const destinations: Record<string, OdPort> = {};
+  const cells: Record<string, OdCell> = {};
+
+  getConnectionPairs(slots, options).forEach(pair => {
+    const origin = station(pair.arrival.code);
+    const destination = station(pair.departure.code);
+    const key = odCellKey(origin, destination);
+    if (!cells[key]) cells[key] = { origin, destination, connections: 0, bestMins: Infinity, pairs: [] };
+    cells[key].connections += pair.frequency;
+    cells[key].bestMins = Math.min(cells[key].bestMins, pair.elapsedMins);
+    cells[key].pairs.push(pair);
+    addToPort(origins, origin, pair.arrival, pair);
+    addToPort(destinations, destination, pair.departure, pair);
+  });
+
+  Object.values(cells).forEach(cell => cell.pairs.sort((a, b) => a.elapsedMins - b.elapsedMins));
+  return {
+    origins: Object.values(origins),
+    destinations: Object.values(destinations),
+    cells,
+    maxConnections: Math.max(0, ...Object.values(cells).map(c => c.connections))
+  };
+};
+
+/**
+ * sortOdPorts: Orders rows or columns. Grouping by region keeps the taxonomy's region order and
+ * sorts within each region.
+ */
+export const sortOdPorts = (ports: OdPort[], sort: OdSort, groupByRegion: boolean, regions: RegionDefinition[]): OdPort[] => {
+  const regionOrder = getTopLevelRegions(regions).map(r => r.id);
+  const rank = (p: OdPort) => regionOrder.includes(p.region) ? regionOrder.indexOf(p.region) : regionOrder.length;
+  const compare = (a: OdPort, b: OdPort) => {
+    if (sort === 'connections') return b.connections - a.connections || a.code.localeCompare(b.code);
+    if (sort === 'best') return a.bestMins - b.bestMins || a.code.localeCompare(b.code);
+    return a.code.localeCompare(b.code);
+  };
+  return [...ports].sort((a, b) => (groupByRegion ? rank(a) - rank(b) : 0) || compare(a, b));
+};
@@ -0,0 +1,101 @@
+
+import { Region, RegionDefinition } from '../types';
+import { DEFAULT_REGIONS } from '../constants';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX, getAirport } from './airports';
+
+/**
+ * Region taxonomy helpers. Regions are user-defined and may have one level of sub-regions;
+ * flights carry the top-level id plus the sub-region id when one matches.
+ */
+
+export type RegionIndex = Record<string, RegionDefinition>;
+
+// Catch-all for airports no region claims; always present and never deletable
+export const UNKNOWN_REGION_ID: string = Region.Unknown;
+
+export interface RegionAssignment {
+  region: string;
+  subRegion?: string;
+}
+
+export const buildRegionIndex = (regions: RegionDefinition[]): RegionIndex => {
+  const index: RegionIndex = {};
+  regions.forEach(r => { index[r.id] = r; });
+  return index;
+};
+
+export const getTopLevelRegions = (regions: RegionDefinition[]) => regions.filter(r => !r.parentId);
+
+/**
+ * restoreSelectedRegions: Saved region visibility, with top-level regions added since it was saved
+ * switched on. Settings without `knownRegions` predate the Unknown region.
+ */
+export const restoreSelectedRegions = (selected: string[], knownRegions: string[] | undefined, regions: RegionDefinition[]): string[] => {
+  const known = new Set(knownRegions ?? getTopLevelRegions(regions).map(r => r.id).filter(id => id !== UNKNOWN_REGION_ID));
+  const added = getTopLevelRegions(regions).map(r => r.id).filter(id => !known.has(id) && !selected.includes(id));
+  return [...selected, ...added];
+};
+
+export const getSubRegions = (regions: RegionDefinition[], parentId: string) => regions.filter(r => r.parentId === parentId);
+
+/**
+ * normalizeRegions: Drops sub-regions whose parent is gone and restores the Unknown region.
+ */
+export const normalizeRegions = (regions: RegionDefinition[]): RegionDefinition[] => {
+  const ids = new Set(regions.map(r => r.id));
+  const kept = regions.filter(r => !r.parentId || ids.has(r.parentId));
+  if (ids.has(UNKNOWN_REGION_ID)) return kept;
+  return [...kept, DEFAULT_REGIONS.find(r => r.id === UNKNOWN_REGION_ID)!];
+};
+
+// Explicit airport codes beat countries, which beat reference regions
+const matchScore = (def: RegionDefinition, code: string, airports: AirportIndex) => {
+  if (def.airports.includes(code)) return 3;
+  const airport = getAirport(code, airports);
+  if (airport && def.countries.includes(airport.country)) return 2;
+  if (def.baseRegions.includes(airport?.region || Region.Unknown)) return 1;
+  return 0;
+};
+
+/**
+ * classifyAirport: Resolves a code to the most specific matching region. On equal evidence a
+ * sub-region wins over a top-level region.
+ */
+export const classifyAirport = (code: string, regions: RegionDefinition[], airports: AirportIndex = DEFAULT_AIRPORT_INDEX): RegionAssignment => {
+  const upper = (code || '').toUpperCase();
+  let best: RegionDefinition | null = null;
+  let bestScore = 0;
+  for (const def of regions) {
+    const score = matchScore(def, upper, airports);
+    if (score === 0) continue;
+    if (score > bestScore || (score === bestScore && def.parentId && !best?.parentId)) {
+      best = def;
+      bestScore = score;
+    }
+  }
+  if (!best) return { region: UNKNOWN_REGION_ID };
+  return best.parentId ? { region: best.parentId, subRegion: best.id } : { region: best.id };
+};
+
+// Sub-region when set, otherwise the top-level region
+export const getLeafRegionId = (a: { region: string, subRegion?: string }) => a.subRegion || a.region;
+
+export const getRegionLabel = (id: string, regions: RegionIndex) => {
+  const def = regions[id];
+  if (!def) return id;
+  const parent = def.parentId ? regions[def.parentId] : undefined;
+  return parent ? `${parent.name} · ${def.name}` : def.name;
+};
+
+// Dark text on light fills, white otherwise
+export const readableTextColor = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (isNaN(value)) return '#ffffff';
+  const [r, g, b] = [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+  return (0.299 * r + 0.587 * g + 0.114 * b) / 255 > 0.6 ? '#1e293b' : '#ffffff';
+};
+
+export const getRegionStyle = (id: string, regions: RegionIndex): { backgroundColor: string, color: string } => {
+  const color = regions[id]?.color || '#e2e8f0';
+  return { backgroundColor: color, color: readableTextColor(color) };
+};
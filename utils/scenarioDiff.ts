@@ -0,0 +1,162 @@
+
+import { AirportDataset, FlightInfo, RegionDefinition, WorkspaceSnapshot } from '../types';
+import { AirportIndex } from './airports';
+import { BankOptions, buildHubBank } from './bank';
+import { consolidateSlots, getTwoWaySummary } from './connectivity';
+import { getHubProfile } from './hub';
+import { todayISO } from './season';
+import { checkSnapshotSources } from './snapshot';
+import { getMins } from './time';
+
+/**
+ * Scenario comparison. Each side is a snapshot (the live workspace is passed as one too); both
+ * are evaluated against the loaded datasets with their own MCT, window and filters, and the
+ * differences are reported per hub.
+ */
+
+export interface BlockChange {
+  kind: 'added' | 'removed' | 'retimed';
+  type: 'arr' | 'dep';
+  flight: FlightInfo; // As in scenario B, or A when removed
+  before?: string;
+  after?: string;
+  deltaMins?: number; // Retimed only; shortest way round the clock
+}
+
+export interface OdChange {
+  origin: string;
+  destination: string;
+  before: number; // Connection count
+  after: number;
+}
+
+export interface SynergyChange {
+  ports: [string, string];
+  before: number;
+  after: number;
+}
+
+export interface HubDiff {
+  datasetId: string;
+  code: string;
+  blocks: BlockChange[];
+  od: OdChange[];
+  synergy: SynergyChange[];
+}
+
+export interface DiffContext {
+  regions: RegionDefinition[];
+  airports: AirportIndex;
+  live: WorkspaceSnapshot; // Supplies view state missing from older snapshots
+}
+
+interface HubConnectivity {
+  od: Record<string, number>; // "ORG-DST" -> connections
+  synergy: Record<string, number>; // "AAA-BBB" (sorted) -> score
+}
+
+const flattenBlocks = (slots: WorkspaceSnapshot['manualBlocks'][string] | undefined) => {
+  const result = new Map<string, { type: 'arr' | 'dep', flight: FlightInfo }>();
+  Object.values(slots || {}).forEach(slot => {
+    (slot.arrivals || []).forEach(f => result.set(`arr-${f.id}`, { type: 'arr', flight: f }));
+    (slot.departures || []).forEach(f => result.set(`dep-${f.id}`, { type: 'dep', flight: f }));
+  });
+  return result;
+};
+
+const wrapDelta = (mins: number) => ((mins % 1440) + 1440 + 720) % 1440 - 720;
+
+const diffBlocks = (before: WorkspaceSnapshot['manualBlocks'][string] | undefined, after: WorkspaceSnapshot['manualBlocks'][string] | undefined): BlockChange[] => {
+  const a = flattenBlocks(before);
+  const b = flattenBlocks(after);
+  const changes: BlockChange[] = [];
+  b.forEach((entry, key) => {
+    const prev = a.get(key);
+    if (!prev) changes.push({ kind: 'added', ...entry, after: entry.flight.exactTime });
+    else if (prev.flight.exactTime !== entry.flight.exactTime) {
+      changes.push({
+        kind: 'retimed', ...entry, before: prev.flight.exactTime, after: entry.flight.exactTime,
+        deltaMins: wrapDelta(getMins(entry.flight.exactTime || '') - getMins(prev.flight.exactTime || ''))
+      });
+    }
+  });
+  a.forEach((entry, key) => { if (!b.has(key)) changes.push({ kind: 'removed', ...entry, before: entry.flight.exactTime }); });
+  return changes.sort((x, y) => getMins(x.after || x.before || '') - getMins(y.after || y.before || ''));
+};
+
+// Two-way summaries for every port in the bank; outbounds of port P towards Q are P-Q connections
+const analyzeHub = (dataset: AirportDataset, scenario: WorkspaceSnapshot, blocks: WorkspaceSnapshot['manualBlocks'], context: DiffContext): HubConnectivity => {
+  const profile = getHubProfile(dataset, context.airports);
+  const live = context.live;
+  const selectedWeek = scenario.selectedWeek !== undefined ? scenario.selectedWeek : live.selectedWeek ?? null;
+  const options: BankOptions = {
+    regions: context.regions,
+    airports: context.airports,
+    homeCountry: profile.homeCountry,
+    focusCode: profile.focusCode,
+    selectedRegions: scenario.selectedRegions,
+    hiddenSubRegions: scenario.hiddenSubRegions ?? live.hiddenSubRegions ?? [],
+    selectedAirlines: scenario.selectedAirlines ?? live.selectedAirlines ?? [],
+    marketFilter: scenario.marketFilter,
+    alwaysShowFocus: scenario.alwaysShowFocus ?? live.alwaysShowFocus ?? true,
+    selectedDay: scenario.selectedDay !== undefined ? scenario.selectedDay : live.selectedDay ?? null,
+    selectedWeek,
+    timeDisplay: 'local',
+    displayOffset: 0,
+    displayDate: selectedWeek || todayISO()
+  };
+
+  const slots = consolidateSlots(buildHubBank(dataset, blocks[dataset.id], options));
+  const ports = new Set(slots.flatMap(s => [...s.arrivals, ...s.departures].map(f => f.code)));
+  const result: HubConnectivity = { od: {}, synergy: {} };
+  // Manual blocks carry codes like "DEL 6E NEW"; they count towards their station
+  const station = (code: string) => code.split(' ')[0];
+  ports.forEach(port => {
+    getTwoWaySummary(slots, port, {
+      mct: scenario.mct, maxConnectionWindow: scenario.maxConnectionWindow, selectedDay: options.selectedDay,
+      homeCountry: profile.homeCountry, airports: context.airports, mctRules: scenario.mctRules ?? live.mctRules, hubCode: dataset.code,
+      connectivityMode: scenario.connectivityMode ?? live.connectivityMode, carrierAgreements: scenario.carrierAgreements ?? live.carrierAgreements,
+      maxCircuity: scenario.maxCircuity !== undefined ? scenario.maxCircuity : live.maxCircuity
+    })
+      .forEach(conn => {
+        const [from, to] = [station(port), station(conn.code)];
+        if (from === to) return;
+        if (conn.outbounds.length > 0) result.od[`${from}-${to}`] = (result.od[`${from}-${to}`] || 0) + conn.outbounds.length;
+        if (from < to) result.synergy[`${from}-${to}`] = (result.synergy[`${from}-${to}`] || 0) + conn.synergyScore;
+      });
+  });
+  return result;
+};
+
+const changedKeys = (a: Record<string, number>, b: Record<string, number>) =>
+  Array.from(new Set([...Object.keys(a), ...Object.keys(b)]))
+    .filter(k => Math.abs((a[k] || 0) - (b[k] || 0)) > 0.05)
+    .sort((x, y) => Math.abs((b[y] || 0) - (a[y] || 0)) - Math.abs((b[x] || 0) - (a[x] || 0)));
+
+/**
+ * diffScenarios: Block, O&D connection and synergy changes from scenario A to B for every loaded
+ * hub that differs.
+ */
+export const diffScenarios = (a: WorkspaceSnapshot, b: WorkspaceSnapshot, datasets: AirportDataset[], context: DiffContext): HubDiff[] => {
+  const blocksA = checkSnapshotSources(a, datasets).manualBlocks;
+  const blocksB = checkSnapshotSources(b, datasets).manualBlocks;
+
+  return datasets.map(dataset => {
+    const connA = analyzeHub(dataset, a, blocksA, context);
+    const connB = analyzeHub(dataset, b, blocksB, context);
+    return {
+      datasetId: dataset.id,
+      code: dataset.code,
+      blocks: diffBlocks(blocksA[dataset.id], blocksB[dataset.id]),
+      od: changedKeys(connA.od, connB.od).map(k => {
+        const [origin, destination] = k.split('-');
+        return { origin, destination, before: connA.od[k] || 0, after: connB.od[k] || 0 };
+      }),
+      synergy: changedKeys(connA.synergy, connB.synergy).map(k => ({
+        ports: k.split('-') as [string, string],
+        before: connA.synergy[k] || 0,
+        after: connB.synergy[k] || 0
+      }))
+    };
+  }).filter(h => h.blocks.length > 0 || h.od.length > 0 || h.synergy.length > 0);
+};
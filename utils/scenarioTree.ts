@@ -0,0 +1,198 @@
+
+import { AirportDataset, DatasetFingerprint, FlightInfo, ScenarioChange, WorkspaceSnapshot } from '../types';
+import { fingerprintDataset, hasSourceRow } from './snapshot';
+import { ManualBlocks } from './storage';
+
+/**
+ * Scenario lineage. A scenario branched from another records its block edits relative to that
+ * parent, keyed by hub code rather than dataset id so they still apply after a hub's schedule is
+ * reloaded. Every scenario keeps its full blocks too; the change sets are what a rebase replays.
+ */
+
+export type ScenarioChangeSet = Record<string, ScenarioChange[]>;
+
+export interface ScenarioNode {
+  snapshot: WorkspaceSnapshot;
+  depth: number;
+}
+
+export interface RebaseConflict {
+  scenario: string; // Name
+  code: string;
+  change: ScenarioChange;
+  reason: string;
+}
+
+type HubSlots = ManualBlocks[string];
+
+interface IndexedBlock {
+  hour: number;
+  type: 'arr' | 'dep';
+  flight: FlightInfo;
+}
+
+// Snapshots without fingerprints fall back to the loaded datasets, then to the id itself
+const codeOf = (s: WorkspaceSnapshot, id: string, datasets: AirportDataset[]) =>
+  s.datasets?.[id]?.code || datasets.find(d => d.id === id)?.code || id;
+
+const blocksByCode = (s: WorkspaceSnapshot, datasets: AirportDataset[]): Record<string, HubSlots> =>
+  Object.fromEntries(Object.keys(s.manualBlocks).map(id => [codeOf(s, id, datasets), s.manualBlocks[id]]));
+
+const indexBlocks = (slots: HubSlots | undefined) => {
+  const result = new Map<string, IndexedBlock>();
+  Object.keys(slots || {}).forEach(k => {
+    const hour = parseInt(k);
+    (slots![hour].arrivals || []).forEach(flight => result.set(`arr-${flight.id}`, { hour, type: 'arr', flight }));
+    (slots![hour].departures || []).forEach(flight => result.set(`dep-${flight.id}`, { hour, type: 'dep', flight }));
+  });
+  return result;
+};
+
+const toSlots = (index: Map<string, IndexedBlock>): HubSlots => {
+  const result: HubSlots = {};
+  index.forEach(({ hour, type, flight }) => {
+    if (!result[hour]) result[hour] = { arrivals: [], departures: [] };
+    (type === 'arr' ? result[hour].arrivals : result[hour].departures).push(flight);
+  });
+  return result;
+};
+
+/**
+ * computeChangeSet: Block edits that turn `parent` into `child`. A root scenario is compared
+ * with an empty workspace, so all of its blocks are additions.
+ */
+export const computeChangeSet = (parent: WorkspaceSnapshot | undefined, child: WorkspaceSnapshot, datasets: AirportDataset[]): ScenarioChangeSet => {
+  const before = parent ? blocksByCode(parent, datasets) : {};
+  const after = blocksByCode(child, datasets);
+  const result: ScenarioChangeSet = {};
+  new Set([...Object.keys(before), ...Object.keys(after)]).forEach(code => {
+    const a = indexBlocks(before[code]);
+    const b = indexBlocks(after[code]);
+    const changes: ScenarioChange[] = [];
+    b.forEach((entry, key) => {
+      const prev = a.get(key);
+      if (!prev) changes.push({ op: 'add', ...entry });
+      else if (prev.flight !== entry.flight && (prev.hour !== entry.hour || JSON.stringify(prev.flight) !== JSON.stringify(entry.flight))) {
+        changes.push({ op: 'update', ...entry });
+      }
+    });
+    a.forEach((entry, key) => { if (!b.has(key)) changes.push({ op: 'remove', ...entry }); });
+    if (changes.length > 0) result[code] = changes;
+  });
+  return result;
+};
+
+// Scenarios saved before lineage was tracked have no change set; it is derived from the parent
+export const getChangeSet = (s: WorkspaceSnapshot, snapshots: WorkspaceSnapshot[], datasets: AirportDataset[]): ScenarioChangeSet =>
+  s.changes || computeChangeSet(snapshots.find(p => p.id === s.parentId), s, datasets);
+
+export const countChanges = (changes: ScenarioChangeSet) =>
+  Object.values(changes).reduce((n, list) => n + list.length, 0);
+
+/**
+ * buildScenarioTree: Scenarios in display order, each after its parent. Roots run newest first,
+ * branches oldest first. A scenario whose parent is gone is shown as a root.
+ */
+export const buildScenarioTree = (snapshots: WorkspaceSnapshot[]): ScenarioNode[] => {
+  const ids = new Set(snapshots.map(s => s.id));
+  const result: ScenarioNode[] = [];
+  const walk = (s: WorkspaceSnapshot, depth: number) => {
+    result.push({ snapshot: s, depth });
+    snapshots.filter(c => c.parentId === s.id).sort((a, b) => a.timestamp - b.timestamp).forEach(c => walk(c, depth + 1));
+  };
+  snapshots.filter(s => !s.parentId || !ids.has(s.parentId)).sort((a, b) => b.timestamp - a.timestamp).forEach(s => walk(s, 0));
+  return result;
+};
+
+// Whether `id` is `rootId` or one of its descendants
+export const isInBranch = (snapshots: WorkspaceSnapshot[], rootId: string, id: string) => {
+  const seen = new Set<string>();
+  let current = snapshots.find(s => s.id === id);
+  while (current && !seen.has(current.id)) {
+    if (current.id === rootId) return true;
+    seen.add(current.id);
+    current = snapshots.find(s => s.id === current!.parentId);
+  }
+  return false;
+};
+
+const applyChanges = (slots: HubSlots | undefined, changes: ScenarioChange[], dataset: AirportDataset | undefined) => {
+  const index = indexBlocks(slots);
+  const conflicts: { change: ScenarioChange, reason: string }[] = [];
+  changes.forEach(change => {
+    const key = `${change.type}-${change.flight.id}`;
+    if (change.op === 'remove') {
+      if (index.has(key)) index.delete(key);
+      else conflicts.push({ change, reason: 'Removed block is not in the new base' });
+      return;
+    }
+    if (change.op === 'update' && !index.has(key)) conflicts.push({ change, reason: 'Edited block is not in the new base; added as new' });
+    if (dataset && !hasSourceRow(dataset, change.flight, change.type)) conflicts.push({ change, reason: `No matching schedule row in ${dataset.fileName}` });
+    index.set(key, { hour: change.hour, type: change.type, flight: change.flight });
+  });
+  return { slots: toSlots(index), conflicts };
+};
+
+/**
+ * rebaseScenario: Moves a branch onto another scenario by replaying each scenario's change set
+ * on its new parent, descendants included. Hubs resolve to the loaded datasets, so rebasing onto
+ * a baseline captured from a reloaded schedule moves the branch to that schedule.
+ */
+export const rebaseScenario = (
+  snapshots: WorkspaceSnapshot[],
+  branchId: string,
+  ontoId: string,
+  datasets: AirportDataset[]
+): { snapshots: WorkspaceSnapshot[], conflicts: RebaseConflict[] } | { error: string } => {
+  const branch = snapshots.find(s => s.id === branchId);
+  const onto = snapshots.find(s => s.id === ontoId);
+  if (!branch || !onto) return { error: 'Scenario not found.' };
+  if (isInBranch(snapshots, branchId, ontoId)) return { error: `"${onto.name}" is part of the "${branch.name}" branch. Pick a scenario outside it.` };
+
+  const updated = new Map<string, WorkspaceSnapshot>();
+  const conflicts: RebaseConflict[] = [];
+  const timestamp = Date.now();
+
+  const replay = (node: WorkspaceSnapshot, parent: WorkspaceSnapshot) => {
+    const changes = getChangeSet(node, snapshots, datasets);
+    const blocks = blocksByCode(parent, datasets);
+    Object.keys(changes).forEach(code => {
+      const result = applyChanges(blocks[code], changes[code], datasets.find(d => d.code === code));
+      blocks[code] = result.slots;
+      result.conflicts.forEach(c => conflicts.push({ scenario: node.name, code, ...c }));
+    });
+
+    const manualBlocks: ManualBlocks = {};
+    const fingerprints: Record<string, DatasetFingerprint> = {};
+    Object.keys(blocks).forEach(code => {
+      const loaded = datasets.find(d => d.code === code);
+      const saved = [parent, node].flatMap(s => Object.entries(s.datasets || {})).find(([, f]) => f.code === code);
+      const id = loaded?.id || saved?.[0] || code;
+      manualBlocks[id] = blocks[code];
+      if (loaded) fingerprints[id] = fingerprintDataset(loaded);
+      else if (saved) fingerprints[id] = saved[1];
+    });
+
+    const rebased: WorkspaceSnapshot = { ...node, parentId: parent.id, changes, manualBlocks, datasets: fingerprints, timestamp };
+    updated.set(node.id, rebased);
+    snapshots.filter(s => s.parentId === node.id).forEach(child => replay(child, rebased));
+  };
+  replay(branch, onto);
+
+  return { snapshots: snapshots.map(s => updated.get(s.id) || s), conflicts };
+};
+
+/**
+ * removeScenario: Deletes a scenario; its children move up to its parent with their change sets
+ * recomputed against it.
+ */
+export const removeScenario = (snapshots: WorkspaceSnapshot[], id: string, datasets: AirportDataset[]): WorkspaceSnapshot[] => {
+  const removed = snapshots.find(s => s.id === id);
+  if (!removed) return snapshots;
+  const parent = snapshots.find(s => s.id === removed.parentId);
+  return snapshots.filter(s => s.id !== id).map(s => s.parentId !== id ? s : {
+    ...s,
+    parentId: parent?.id,
+    changes: computeChangeSet(parent, s, datasets)
+  });
+};
@@ -0,0 +1,81 @@
+
+import { AirportDataset, WorkspaceSnapshot } from '../types';
+import { ManualBlocks } from './storage';
+
+/**
+ * Persisted workspace schema. Data without a version is version 1. Each migration upgrades data
+ * by one version; anything written by a newer build is refused rather than guessed at.
+ */
+
+interface Migration {
+  dataset?: (d: any) => any;
+  manualBlocks?: (blocks: any) => any;
+  snapshot?: (s: any) => any;
+}
+
+// Keeps hour slots 0-23 with arrival/departure lists; anything else is dropped
+const normalizeDatasetBlocks = (slots: any) => {
+  const result: Record<number, any> = {};
+  Object.keys(slots || {}).forEach(k => {
+    const hour = parseInt(k);
+    if (isNaN(hour) || hour < 0 || hour > 23) return;
+    const slot = slots[k] || {};
+    result[hour] = {
+      arrivals: Array.isArray(slot.arrivals) ? slot.arrivals : [],
+      departures: Array.isArray(slot.departures) ? slot.departures : []
+    };
+  });
+  return result;
+};
+
+const normalizeBlocks = (blocks: any) => {
+  const result: Record<string, any> = {};
+  Object.keys(blocks || {}).forEach(id => { result[id] = normalizeDatasetBlocks(blocks[id]); });
+  return result;
+};
+
+const MIGRATIONS: Migration[] = [
+  // 1 → 2: manual blocks are keyed by hour with both lists present; snapshots gain sub-region visibility
+  {
+    manualBlocks: normalizeBlocks,
+    snapshot: s => ({ ...s, hiddenSubRegions: s.hiddenSubRegions || [], manualBlocks: normalizeBlocks(s.manualBlocks) })
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.length + 1;
+
+export const newerVersionMessage = (what: string, version: number) =>
+  `This ${what} was saved by a newer version of AeroHub (schema v${version}; this build reads up to v${SCHEMA_VERSION}). Update the app to open it. Nothing was changed.`;
+
+const runMigrations = <T>(value: any, from: number, part: keyof Migration): T =>
+  MIGRATIONS.slice(from - 1).reduce((acc, m) => m[part] ? m[part]!(acc) : acc, value);
+
+const migrateSnapshotData = (s: any): WorkspaceSnapshot => ({
+  ...runMigrations<WorkspaceSnapshot>(s, s.schemaVersion || 1, 'snapshot'),
+  schemaVersion: SCHEMA_VERSION
+});
+
+/**
+ * migrateWorkspace: Upgrades stored datasets and manual blocks from `version`, and each snapshot
+ * from its own version. Snapshots from a newer build are left untouched and refused when opened.
+ */
+export const migrateWorkspace = (
+  data: { datasets: any[], manualBlocks: any, snapshots: any[] },
+  version: number
+): { datasets: AirportDataset[], manualBlocks: ManualBlocks, snapshots: WorkspaceSnapshot[] } | { error: string } => {
+  if (version > SCHEMA_VERSION) return { error: newerVersionMessage('workspace', version) };
+  return {
+    datasets: data.datasets.map(d => runMigrations<AirportDataset>(d, version, 'dataset')),
+    manualBlocks: runMigrations<ManualBlocks>(data.manualBlocks, version, 'manualBlocks'),
+    snapshots: data.snapshots.map(s => (s.schemaVersion || 1) > SCHEMA_VERSION ? s : migrateSnapshotData(s))
+  };
+};
+
+/**
+ * migrateSnapshot: Upgrades one snapshot before it is applied.
+ */
+export const migrateSnapshot = (s: any): { snapshot: WorkspaceSnapshot } | { error: string } => {
+  const version = s?.schemaVersion || 1;
+  if (version > SCHEMA_VERSION) return { error: newerVersionMessage(`scenario "${s.name}"`, version) };
+  return { snapshot: migrateSnapshotData(s) };
+};
@@ -0,0 +1,111 @@
+
+/**
+ * Calendar helpers for schedule validity periods and IATA seasons.
+ * Dates are handled as ISO "YYYY-MM-DD" strings in UTC so they never drift with the browser's zone.
+ */
+
+const DAY_MS = 86400000;
+
+const parseISO = (iso: string) => {
+  const [y, m, d] = iso.split('-').map(Number);
+  return Date.UTC(y, m - 1, d);
+};
+
+const toISO = (ms: number) => new Date(ms).toISOString().slice(0, 10);
+
+export const todayISO = () => new Date().toISOString().slice(0, 10);
+
+export const addDays = (iso: string, days: number) => toISO(parseISO(iso) + days * DAY_MS);
+
+// ISO weekday, 1 = Monday
+export const isoWeekday = (iso: string) => ((new Date(parseISO(iso)).getUTCDay() + 6) % 7) + 1;
+
+export const startOfWeek = (iso: string) => addDays(iso, 1 - isoWeekday(iso));
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * normalizeDate: Accepts "2025-03-30", "30/03/2025", "30-MAR-2025" or "30MAR25"; returns ISO or null.
+ */
+export const normalizeDate = (value: string | undefined | null): string | null => {
+  if (!value) return null;
+  const v = value.trim().toUpperCase();
+  let y: number, m: number, d: number;
+  let match = v.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  if (match) {
+    [y, m, d] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+  } else if ((match = v.match(/^(\d{1,2})[/.](\d{1,2})[/.](\d{2,4})$/))) {
+    [d, m, y] = [parseInt(match[1]), parseInt(match[2]), parseInt(match[3])];
+  } else if ((match = v.match(/^(\d{1,2})[- ]?([A-Z]{3})[- ]?(\d{2,4})$/))) {
+    [d, m, y] = [parseInt(match[1]), MONTHS.indexOf(match[2]) + 1, parseInt(match[3])];
+  } else {
+    return null;
+  }
+  if (y < 100) y += 2000;
+  if (m < 1 || m > 12 || d < 1 || d > 31) return null;
+  const ms = Date.UTC(y, m - 1, d);
+  if (new Date(ms).getUTCDate() !== d) return null;
+  return toISO(ms);
+};
+
+/**
+ * getActiveDaysInWeek: The operating days that fall inside the validity period during the week
+ * starting on `weekStart` (a Monday). Open-ended validity bounds are unlimited.
+ */
+export const getActiveDaysInWeek = (days: string, from: string | undefined, to: string | undefined, weekStart: string): string =>
+  days.split('').filter(d => {
+    const date = addDays(weekStart, parseInt(d) - 1);
+    return (!from || date >= from) && (!to || date <= to);
+  }).join('');
+
+/**
+ * getWeekOperation: Days a row operates in the given week and the share of its weekly figures that
+ * falls in that week. A row with no day pattern is assumed daily and stays pattern-less when fully active.
+ */
+export const getWeekOperation = (days: string, from: string | undefined, to: string | undefined, weekStart: string) => {
+  const pattern = days || '1234567';
+  const active = getActiveDaysInWeek(pattern, from, to, weekStart);
+  return { days: days || active.length < 7 ? active : '', share: active.length / pattern.length };
+};
+
+export const isValidOn = (date: string, from?: string, to?: string) => (!from || date >= from) && (!to || date <= to);
+
+// Last Sunday of a month (month is 1-based)
+const lastSunday = (year: number, month: number) => {
+  const lastDay = toISO(Date.UTC(year, month, 0));
+  return addDays(lastDay, -(isoWeekday(lastDay) % 7));
+};
+
+export interface IataSeason {
+  code: string; // e.g. "S25", "W25"
+  start: string;
+  end: string;
+}
+
+/**
+ * getIataSeason: Summer runs from the last Sunday of March to the Saturday before the last Sunday
+ * of October; winter covers the rest and is named after the year it starts in.
+ */
+export const getIataSeason = (date: string): IataSeason => {
+  const year = parseInt(date.slice(0, 4));
+  const summerStart = lastSunday(year, 3);
+  const winterStart = lastSunday(year, 10);
+  const yy = (n: number) => (n % 100).toString().padStart(2, '0');
+  if (date >= summerStart && date < winterStart) {
+    return { code: `S${yy(year)}`, start: summerStart, end: addDays(winterStart, -1) };
+  }
+  if (date >= winterStart) {
+    return { code: `W${yy(year)}`, start: winterStart, end: addDays(lastSunday(year + 1, 3), -1) };
+  }
+  return { code: `W${yy(year - 1)}`, start: lastSunday(year - 1, 10), end: addDays(summerStart, -1) };
+};
+
+export const shiftSeason = (season: IataSeason, direction: 1 | -1) =>
+  getIataSeason(direction === 1 ? addDays(season.end, 1) : addDays(season.start, -1));
+
+// Monday-based weeks overlapping the season
+export const listSeasonWeeks = (season: IataSeason): string[] => {
+  const weeks: string[] = [];
+  for (let w = startOfWeek(season.start); w <= season.end; w = addDays(w, 7)) weeks.push(w);
+  return weeks;
+};
@@ -0,0 +1,128 @@
+
+import { AirportDataset, DatasetFingerprint, FlightInfo, WorkspaceSnapshot } from '../types';
+import { ManualBlocks } from './storage';
+
+/**
+ * Snapshot source checks. A snapshot records a fingerprint of every dataset it was captured
+ * against; on restore, blocks are matched back to the loaded datasets and any that no longer
+ * have a source are reported as orphaned.
+ */
+
+export interface OrphanedBlock {
+  hour: number;
+  type: 'arr' | 'dep';
+  flight: FlightInfo;
+}
+
+export interface SnapshotSourceIssue {
+  datasetId: string; // Id the snapshot's blocks are stored under
+  code: string;
+  fileName?: string;
+  status: 'missing' | 'changed';
+  currentFileName?: string;
+  orphaned: OrphanedBlock[];
+}
+
+export interface SnapshotSourceCheck {
+  manualBlocks: ManualBlocks; // Re-keyed to the loaded datasets
+  issues: SnapshotSourceIssue[];
+  orphanCount: number;
+}
+
+// FNV-1a over the serialized rows; enough to tell whether a source file changed
+const hashString = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export const fingerprintDataset = (d: AirportDataset): DatasetFingerprint => ({
+  code: d.code,
+  fileName: d.fileName,
+  rows: d.data.length,
+  hash: hashString(JSON.stringify(d.data))
+});
+
+export const fingerprintDatasets = (datasets: AirportDataset[]): Record<string, DatasetFingerprint> =>
+  Object.fromEntries(datasets.map(d => [d.id, fingerprintDataset(d)]));
+
+// Whether the schedule row a moved block was taken from still exists; blocks drawn from the palette have no source row
+export const hasSourceRow = (dataset: AirportDataset, flight: FlightInfo, type: 'arr' | 'dep') => {
+  const [station, airline] = flight.code.split(' ').map(p => p.toUpperCase());
+  if (station === 'NEW') return true;
+  const side = type === 'arr' ? 'arrival' : 'departure';
+  const carrier = flight.airline?.toUpperCase() || (airline !== 'NEW' ? airline : undefined);
+  return dataset.data.some(row =>
+    row[`${side}Code`]?.toUpperCase() === station && (!carrier || row[`${side}Airline`]?.toUpperCase().includes(carrier))
+  );
+};
+
+const listBlocks = (slots: ManualBlocks[string]): OrphanedBlock[] =>
+  Object.keys(slots || {}).flatMap(k => {
+    const hour = parseInt(k);
+    return [
+      ...(slots[hour].arrivals || []).map(flight => ({ hour, type: 'arr' as const, flight })),
+      ...(slots[hour].departures || []).map(flight => ({ hour, type: 'dep' as const, flight }))
+    ];
+  });
+
+/**
+ * checkSnapshotSources: Matches a snapshot's blocks to the loaded datasets. Blocks stored under a
+ * dataset that is no longer loaded move to a loaded dataset for the same hub when there is one.
+ * Snapshots without fingerprints can only detect missing datasets.
+ */
+export const checkSnapshotSources = (snapshot: WorkspaceSnapshot, datasets: AirportDataset[]): SnapshotSourceCheck => {
+  const manualBlocks: ManualBlocks = {};
+  const issues: SnapshotSourceIssue[] = [];
+
+  Object.keys(snapshot.manualBlocks).forEach(id => {
+    const slots = snapshot.manualBlocks[id];
+    const blocks = listBlocks(slots);
+    const saved = snapshot.datasets?.[id];
+    const byId = datasets.find(d => d.id === id);
+    // Reloading a file gives the dataset a new id; its hub code still identifies it
+    const dataset = byId || (saved ? datasets.find(d => d.code === saved.code) : undefined);
+
+    if (!dataset) {
+      manualBlocks[id] = slots;
+      if (blocks.length > 0) issues.push({ datasetId: id, code: saved?.code || id, fileName: saved?.fileName, status: 'missing', orphaned: blocks });
+      return;
+    }
+
+    manualBlocks[dataset.id] = slots;
+    const changed = saved ? fingerprintDataset(dataset).hash !== saved.hash : false;
+    if (!changed) return;
+    issues.push({
+      datasetId: id,
+      code: dataset.code,
+      fileName: saved?.fileName,
+      status: 'changed',
+      currentFileName: dataset.fileName,
+      orphaned: blocks.filter(b => !hasSourceRow(dataset, b.flight, b.type))
+    });
+  });
+
+  return { manualBlocks, issues, orphanCount: issues.reduce((n, i) => n + i.orphaned.length, 0) };
+};
+
+// Blocks with the orphans removed; emptied hours and datasets are dropped
+export const dropOrphanedBlocks = (check: SnapshotSourceCheck, datasets: AirportDataset[]): ManualBlocks => {
+  const loaded = new Set(datasets.map(d => d.id));
+  const orphans = new Set(check.issues.flatMap(i => i.orphaned.map(o => o.flight)));
+  const result: ManualBlocks = {};
+  Object.keys(check.manualBlocks).filter(id => loaded.has(id)).forEach(id => {
+    const slots: ManualBlocks[string] = {};
+    Object.keys(check.manualBlocks[id]).forEach(k => {
+      const hour = parseInt(k);
+      const slot = check.manualBlocks[id][hour];
+      const arrivals = (slot.arrivals || []).filter(f => !orphans.has(f));
+      const departures = (slot.departures || []).filter(f => !orphans.has(f));
+      if (arrivals.length > 0 || departures.length > 0) slots[hour] = { arrivals, departures };
+    });
+    if (Object.keys(slots).length > 0) result[id] = slots;
+  });
+  return result;
+};
@@ -0,0 +1,462 @@
+
+import { AirportDataset, ImportIssue, ImportReport, MalformedTime, TimeMode } from '../types';
+import { getMins, minsToTime, shiftDays } from './time';
+import { addDays } from './season';
+import { AirportIndex } from './airports';
+
+/**
+ * IATA SSIM Chapter 7 reader.
+ * Only the records needed to rebuild a hub bank are interpreted:
+ * type 2 (carrier: time mode, season, validity) and type 3 (flight leg).
+ */
+
+export interface SsimLeg {
+  line: number;
+  airline: string;
+  flightNo: string;
+  itineraryVariation: string;
+  legSequence: number;
+  serviceType: string;
+  periodFrom: string; // ISO date, '' when open
+  periodTo: string;
+  days: string; // Operating days of the leg departure, e.g. "135"; the period is also the leg's
+  departureStation: string;
+  std: string; // Passenger STD, HH:mm in the file's time mode
+  departureUtcOffset: number; // Minutes east of UTC
+  arrivalStation: string;
+  sta: string;
+  arrivalUtcOffset: number;
+  departureDateVariation: number; // Days from the flight's first-leg departure to this leg's departure
+  arrivalDateVariation: number; // Days between leg departure and arrival, in the file's time mode
+  departureTerminal: string; // Passenger terminal, '' when not given
+  arrivalTerminal: string;
+  equipment: string;
+  seats: number;
+}
+
+export interface SsimSchedule {
+  timeMode: TimeMode;
+  airline?: string;
+  season?: string;
+  legs: SsimLeg[];
+  issues: ImportIssue[];
+  malformedTimes: MalformedTime[];
+}
+
+// Passenger-carrying service types (scheduled, additional and charter)
+const PASSENGER_SERVICE_TYPES = new Set(['J', 'S', 'G', 'B', 'Q', 'R', 'C', 'O']);
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * parseSsimDate: "27OCT24" -> "2024-10-27"; "00XXX00" (open end) -> "".
+ */
+export const parseSsimDate = (value: string): string => {
+  const match = value.trim().toUpperCase().match(/^(\d{2})([A-Z]{3})(\d{2})$/);
+  if (!match) return '';
+  const month = MONTHS.indexOf(match[2]);
+  if (month === -1) return '';
+  return `20${match[3]}-${(month + 1).toString().padStart(2, '0')}-${match[1]}`;
+};
+
+// "+0530" / "-0300" -> minutes east of UTC
+const parseUtcVariation = (value: string): number | null => {
+  const match = value.trim().match(/^([+-])(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const mins = parseInt(match[2]) * 60 + parseInt(match[3]);
+  return match[1] === '-' ? -mins : mins;
+};
+
+// "1030" -> "10:30"; 2400 is accepted as end-of-day midnight
+const parseHhmm = (value: string): string | null => {
+  const match = value.trim().match(/^(\d{2})(\d{2})$/);
+  if (!match) return null;
+  const h = parseInt(match[1]);
+  const m = parseInt(match[2]);
+  if (h > 24 || m > 59 || (h === 24 && m > 0)) return null;
+  return `${(h % 24).toString().padStart(2, '0')}:${match[2]}`;
+};
+
+// Date variation byte: "0"-"9" days later, "A" the day before; blank is the same day
+const parseDateVariation = (value: string): number | null => {
+  if (value === ' ' || value === '0') return 0;
+  if (value.toUpperCase() === 'A') return -1;
+  return /^[1-9]$/.test(value) ? parseInt(value) : null;
+};
+
+// Aircraft configuration/version, e.g. "J30Y250" -> 280
+const parseSeatConfiguration = (value: string): number =>
+  (value.match(/[A-Z](\d{1,3})/g) || [] as string[]).reduce((sum, cabin) => sum + parseInt(cabin.slice(1)), 0);
+
+/**
+ * isSsimFile: Header record "1AIRLINE STANDARD SCHEDULE DATA SET" or any fixed-width type 3 record.
+ */
+export const isSsimFile = (text: string): boolean => {
+  const lines = text.split(/\r\n|\r|\n/).filter(l => l.trim().length > 0).slice(0, 20);
+  return lines.some(l => l.startsWith('1AIRLINE STANDARD SCHEDULE DATA SET'))
+    || lines.some(l => l.length >= 194 && l[0] === '3' && /^[A-Z0-9]{2}/.test(l.slice(2, 4)) && /^\d{4}$/.test(l.slice(39, 43)));
+};
+
+export const parseSsim = (text: string): SsimSchedule => {
+  const schedule: SsimSchedule = { timeMode: 'utc', legs: [], issues: [], malformedTimes: [] };
+
+  text.split(/\r\n|\r|\n/).forEach((raw, i) => {
+    const line = i + 1;
+    const rec = raw.padEnd(200, ' ');
+    const type = rec[0];
+
+    if (type === '2') {
+      schedule.timeMode = rec[1] === 'L' ? 'local' : 'utc';
+      schedule.airline = rec.slice(2, 5).trim();
+      schedule.season = rec.slice(10, 13).trim() || undefined;
+      return;
+    }
+    if (type !== '3') return;
+
+    const airline = rec.slice(2, 5).trim();
+    const flightNo = rec.slice(5, 9).trim().replace(/^0+(?=\d)/, '');
+    const serviceType = rec[13];
+    const departureStation = rec.slice(36, 39).trim().toUpperCase();
+    const arrivalStation = rec.slice(54, 57).trim().toUpperCase();
+    const std = parseHhmm(rec.slice(39, 43));
+    const sta = parseHhmm(rec.slice(61, 65));
+    const depVariation = parseUtcVariation(rec.slice(47, 52));
+    const arrVariation = parseUtcVariation(rec.slice(65, 70));
+    const days = (rec.slice(28, 35).match(/[1-7]/g) || []).join('');
+    const stdDateVariation = parseDateVariation(rec[192]);
+    const staDateVariation = parseDateVariation(rec[193]);
+
+    const label = `${airline}${flightNo} ${departureStation}-${arrivalStation}`;
+    if (!airline || !flightNo || departureStation.length !== 3 || arrivalStation.length !== 3) {
+      schedule.issues.push({ line, reason: 'Incomplete flight leg record' });
+      return;
+    }
+    if (!std || !sta) {
+      if (!std) schedule.malformedTimes.push({ line, field: 'STD', value: rec.slice(39, 43) });
+      if (!sta) schedule.malformedTimes.push({ line, field: 'STA', value: rec.slice(61, 65) });
+      schedule.issues.push({ line, reason: `${label}: malformed STD/STA "${rec.slice(39, 43)}" / "${rec.slice(61, 65)}"` });
+      return;
+    }
+    if (depVariation === null || arrVariation === null) {
+      schedule.issues.push({ line, reason: `${label}: malformed UTC/local time variation` });
+      return;
+    }
+    if (stdDateVariation === null || staDateVariation === null) {
+      schedule.issues.push({ line, reason: `${label}: malformed date variation "${rec.slice(192, 194)}"` });
+      return;
+    }
+    if (!days) {
+      schedule.issues.push({ line, reason: `${label}: no days of operation` });
+      return;
+    }
+    if (!PASSENGER_SERVICE_TYPES.has(serviceType)) {
+      schedule.issues.push({ line, reason: `${label}: non-passenger service type "${serviceType}"` });
+      return;
+    }
+
+    // Days and period are those of the flight's first leg; move them to this leg's departure date
+    const periodFrom = parseSsimDate(rec.slice(14, 21));
+    const periodTo = parseSsimDate(rec.slice(21, 28));
+    schedule.legs.push({
+      line,
+      airline,
+      flightNo,
+      itineraryVariation: rec.slice(9, 11).trim(),
+      legSequence: parseInt(rec.slice(11, 13)) || 1,
+      serviceType,
+      periodFrom: periodFrom && addDays(periodFrom, stdDateVariation),
+      periodTo: periodTo && addDays(periodTo, stdDateVariation),
+      days: shiftDays(days, stdDateVariation),
+      departureStation,
+      std,
+      departureUtcOffset: depVariation,
+      arrivalStation,
+      sta,
+      arrivalUtcOffset: arrVariation,
+      departureDateVariation: stdDateVariation,
+      arrivalDateVariation: staDateVariation - stdDateVariation,
+      departureTerminal: rec.slice(52, 54).trim().toUpperCase(),
+      arrivalTerminal: rec.slice(70, 72).trim().toUpperCase(),
+      equipment: rec.slice(72, 75).trim(),
+      seats: parseSeatConfiguration(rec.slice(172, 192))
+    });
+  });
+
+  return schedule;
+};
+
+/**
+ * listSsimStations: Movement count per station, busiest first, for hub selection.
+ */
+export const listSsimStations = (schedule: SsimSchedule): { code: string, arrivals: number, departures: number }[] => {
+  const counts: Record<string, { code: string, arrivals: number, departures: number }> = {};
+  schedule.legs.forEach(leg => {
+    if (!counts[leg.departureStation]) counts[leg.departureStation] = { code: leg.departureStation, arrivals: 0, departures: 0 };
+    if (!counts[leg.arrivalStation]) counts[leg.arrivalStation] = { code: leg.arrivalStation, arrivals: 0, departures: 0 };
+    counts[leg.departureStation].departures++;
+    counts[leg.arrivalStation].arrivals++;
+  });
+  return Object.values(counts).sort((a, b) => (b.arrivals + b.departures) - (a.arrivals + a.departures));
+};
+
+// Converts a station time in the file's time mode to station-local clock time and day shift
+const toLocal = (time: string, utcOffset: number, timeMode: TimeMode) => {
+  const mins = getMins(time) + (timeMode === 'utc' ? utcOffset : 0);
+  return { time: minsToTime(mins), dayShift: Math.floor(mins / 1440) };
+};
+
+const shiftPeriodDate = (iso: string, dayShift: number) => iso && dayShift ? addDays(iso, dayShift) : iso;
+
+/**
+ * buildSsimHubDataset: Splits the legs touching the hub into arrival and departure rows,
+ * in hub-local time, shaped like parsed CSV rows so processedHubData treats them identically.
+ */
+export const buildSsimHubDataset = (schedule: SsimSchedule, hubCode: string, fileName: string, airports: AirportIndex): { dataset: AirportDataset | null, report: ImportReport } => {
+  const rows: any[] = [];
+  const unknownCounts: Record<string, number> = {};
+  const noteStation = (code: string) => {
+    if (!airports[code]) unknownCounts[code] = (unknownCounts[code] || 0) + 1;
+  };
+
+  schedule.legs.forEach(leg => {
+    if (leg.arrivalStation === hubCode) {
+      const origin = toLocal(leg.std, leg.departureUtcOffset, schedule.timeMode);
+      const hub = toLocal(leg.sta, leg.arrivalUtcOffset, schedule.timeMode);
+      const dayShift = leg.arrivalDateVariation + hub.dayShift;
+      const days = shiftDays(leg.days, dayShift);
+      noteStation(leg.departureStation);
+      rows.push({
+        arrivalAirline: leg.airline,
+        arrivalFlightNo: leg.flightNo,
+        arrivalCode: leg.departureStation,
+        arrivalDays: days,
+        arrivalFreq: days.length,
+        arrivalSeats: leg.seats * days.length,
+        arrivalPax: 0,
+        arrivalTime: origin.time,
+        arrivalEquipment: leg.equipment,
+        arrivalTerminal: leg.arrivalTerminal,
+        hub_time: hub.time,
+        departureCode: '',
+        departureTime: '',
+        departureDays: '',
+        departureFreq: 0,
+        departureSeats: 0,
+        departurePax: 0,
+        departureFlightNo: '',
+        departureAirline: '',
+        // Validity follows the hub-side dates, like the day pattern
+        effectiveFrom: shiftPeriodDate(leg.periodFrom, dayShift),
+        effectiveTo: shiftPeriodDate(leg.periodTo, dayShift),
+        hubUtcOffset: leg.arrivalUtcOffset,
+        originUtcOffset: leg.departureUtcOffset
+      });
+    }
+    if (leg.departureStation === hubCode) {
+      const hub = toLocal(leg.std, leg.departureUtcOffset, schedule.timeMode);
+      const destination = toLocal(leg.sta, leg.arrivalUtcOffset, schedule.timeMode);
+      const days = shiftDays(leg.days, hub.dayShift);
+      noteStation(leg.arrivalStation);
+      rows.push({
+        arrivalAirline: '',
+        arrivalFlightNo: '',
+        arrivalCode: '',
+        arrivalDays: '',
+        arrivalFreq: 0,
+        arrivalSeats: 0,
+        arrivalPax: 0,
+        arrivalTime: '',
+        hub_time: hub.time,
+        departureCode: leg.arrivalStation,
+        departureTime: destination.time,
+        departureDays: days,
+        departureFreq: days.length,
+        departureSeats: leg.seats * days.length,
+        departurePax: 0,
+        departureFlightNo: leg.flightNo,
+        departureAirline: leg.airline,
+        departureEquipment: leg.equipment,
+        departureTerminal: leg.departureTerminal,
+        effectiveFrom: shiftPeriodDate(leg.periodFrom, hub.dayShift),
+        effectiveTo: shiftPeriodDate(leg.periodTo, hub.dayShift),
+        hubUtcOffset: leg.departureUtcOffset,
+        destinationUtcOffset: leg.arrivalUtcOffset
+      });
+    }
+  });
+
+  const report: ImportReport = {
+    fileName,
+    totalRows: rows.length + schedule.issues.length,
+    acceptedRows: rows.length,
+    rejected: schedule.issues,
+    malformedTimes: schedule.malformedTimes,
+    unknownAirports: Object.entries(unknownCounts)
+      .map(([code, count]) => ({ code, count }))
+      .sort((a, b) => b.count - a.count),
+    timeMode: schedule.timeMode
+  };
+
+  const dataset: AirportDataset | null = rows.length > 0 ? {
+    id: Math.random().toString(36).substr(2, 9),
+    code: hubCode,
+    fileName,
+    data: rows,
+    source: 'ssim',
+    timeMode: schedule.timeMode
+  } : null;
+
+  return { dataset, report };
+};
+
+/**
+ * SSIM writer. Legs are written in local time (time mode "L") as 200-byte records,
+ * with zero-filler records closing each record group on a block of five.
+ */
+
+export interface SsimExportLeg {
+  airline: string;
+  flightNo: string;
+  departureStation: string;
+  std: string; // Local HH:mm
+  departureUtcOffset: number;
+  arrivalStation: string;
+  sta: string;
+  arrivalUtcOffset: number;
+  days: string; // Operating days of the leg departure
+  periodFrom: string; // ISO date
+  periodTo: string; // ISO date, '' when open
+  equipment?: string;
+  seatsPerFlight?: number;
+  departureTerminal?: string;
+  arrivalTerminal?: string;
+}
+
+export const formatSsimDate = (iso: string): string => {
+  const match = iso.match(/^\d{2}(\d{2})-(\d{2})-(\d{2})$/);
+  if (!match) return '00XXX00';
+  return `${match[3]}${MONTHS[parseInt(match[2]) - 1]}${match[1]}`;
+};
+
+const formatUtcVariation = (mins: number) => {
+  const abs = Math.abs(mins);
+  return `${mins < 0 ? '-' : '+'}${Math.floor(abs / 60).toString().padStart(2, '0')}${(abs % 60).toString().padStart(2, '0')}`;
+};
+
+const formatSsimDays = (days: string) => '1234567'.split('').map(d => days.includes(d) ? d : ' ').join('');
+
+// Builds a 200-byte record from 1-based field positions
+const buildRecord = (fields: [number, string][]): string => {
+  const chars = Array(200).fill(' ');
+  fields.forEach(([pos, value]) => value.split('').forEach((c, i) => { if (pos - 1 + i < 200) chars[pos - 1 + i] = c; }));
+  return chars.join('');
+};
+
+/**
+ * getArrivalDateVariation: Local-date difference between a leg's departure and arrival.
+ */
+export const getArrivalDateVariation = (std: string, departureUtcOffset: number, sta: string, arrivalUtcOffset: number): number => {
+  const depUtc = getMins(std) - departureUtcOffset;
+  const arrUtc = getMins(sta) - arrivalUtcOffset;
+  const blockMins = (((arrUtc - depUtc) % 1440) + 1440) % 1440;
+  return Math.floor((depUtc + blockMins + arrivalUtcOffset) / 1440);
+};
+
+/**
+ * sequenceSsimLegs: Gives every leg a unique flight / itinerary variation / leg sequence key.
+ * A flight's legs are chained station to station within each period of operation; each chain is
+ * one itinerary variation, numbered across all periods of the flight, and its legs are numbered
+ * in flying order. Exact duplicate legs are written once.
+ */
+export const sequenceSsimLegs = (legs: SsimExportLeg[]): { leg: SsimExportLeg, itineraryVariation: number, legSequence: number }[] => {
+  const flights: Record<string, Record<string, SsimExportLeg[]>> = {};
+  const seen = new Set<string>();
+  legs.forEach(leg => {
+    const flightKey = `${leg.airline}|${leg.flightNo.padStart(4, '0').slice(-4)}`;
+    const legKey = [flightKey, leg.departureStation, leg.std, leg.arrivalStation, leg.sta, leg.days, leg.periodFrom, leg.periodTo].join('|');
+    if (seen.has(legKey)) return;
+    seen.add(legKey);
+    const periodKey = `${leg.periodFrom}|${leg.periodTo}`;
+    if (!flights[flightKey]) flights[flightKey] = {};
+    (flights[flightKey][periodKey] = flights[flightKey][periodKey] || []).push(leg);
+  });
+
+  const sequenced: { leg: SsimExportLeg, itineraryVariation: number, legSequence: number }[] = [];
+  Object.values(flights).forEach(periods => {
+    let itineraryVariation = 0;
+    Object.values(periods).forEach(periodLegs => {
+      const remaining = [...periodLegs];
+      while (remaining.length > 0) {
+        // Start from a leg nothing else feeds into, so the chain runs in flying order
+        const start = remaining.find(l => !remaining.some(o => o !== l && o.arrivalStation === l.departureStation)) || remaining[0];
+        const chain = [start];
+        remaining.splice(remaining.indexOf(start), 1);
+        let next: SsimExportLeg | undefined;
+        while ((next = remaining.find(l => l.departureStation === chain[chain.length - 1].arrivalStation && !chain.some(c => c.departureStation === l.departureStation)))) {
+          chain.push(next);
+          remaining.splice(remaining.indexOf(next), 1);
+        }
+        itineraryVariation++;
+        chain.forEach((leg, i) => sequenced.push({ leg, itineraryVariation, legSequence: i + 1 }));
+      }
+    });
+  });
+  return sequenced;
+};
+
+// Date variation byte; "A" is the day before
+const formatDateVariation = (days: number) => days < 0 ? 'A' : Math.min(9, days).toString();
+
+export const serializeSsim = (legs: SsimExportLeg[], options: { airline: string, season?: string, title?: string }): string => {
+  const records: string[] = [];
+  let serial = 0;
+  const push = (fields: [number, string][]) => {
+    serial++;
+    records.push(buildRecord(fields).slice(0, 194) + serial.toString().padStart(6, '0'));
+  };
+  const closeBlock = () => {
+    while (records.length % 5 !== 0) records.push('0'.repeat(200));
+  };
+
+  const today = new Date().toISOString().slice(0, 10);
+  const periodFrom = legs.map(l => l.periodFrom).filter(Boolean).sort()[0] || today;
+  const periodTo = legs.some(l => !l.periodTo) ? '' : (legs.map(l => l.periodTo).sort().reverse()[0] || '');
+  const airline = options.airline.padEnd(3, ' ').slice(0, 3);
+
+  push([[1, '1AIRLINE STANDARD SCHEDULE DATA SET']]);
+  closeBlock();
+
+  push([
+    [1, '2'], [2, 'L'], [3, airline],
+    [11, (options.season || '').slice(0, 3)],
+    [15, formatSsimDate(periodFrom)], [22, formatSsimDate(periodTo)],
+    [29, formatSsimDate(today)],
+    [36, (options.title || '').slice(0, 29)]
+  ]);
+  closeBlock();
+
+  sequenceSsimLegs(legs).forEach(({ leg, itineraryVariation, legSequence }) => {
+    const arrivalDateVariation = getArrivalDateVariation(leg.std, leg.departureUtcOffset, leg.sta, leg.arrivalUtcOffset);
+    const std = leg.std.replace(':', '');
+    const sta = leg.sta.replace(':', '');
+    push([
+      [1, '3'], [3, leg.airline.padEnd(3, ' ').slice(0, 3)], [6, leg.flightNo.padStart(4, '0').slice(-4)],
+      [10, (itineraryVariation % 100).toString().padStart(2, '0')], [12, legSequence.toString().padStart(2, '0').slice(-2)], [14, 'J'],
+      [15, formatSsimDate(leg.periodFrom || periodFrom)], [22, formatSsimDate(leg.periodTo)],
+      [29, formatSsimDays(leg.days)],
+      [37, leg.departureStation], [40, std], [44, std], [48, formatUtcVariation(leg.departureUtcOffset)], [53, (leg.departureTerminal || '').slice(0, 2)],
+      [55, leg.arrivalStation], [58, sta], [62, sta], [66, formatUtcVariation(leg.arrivalUtcOffset)], [71, (leg.arrivalTerminal || '').slice(0, 2)],
+      [73, (leg.equipment || '').slice(0, 3)],
+      [128, itineraryVariation >= 100 ? Math.floor(itineraryVariation / 100).toString().slice(-1) : ''],
+      [173, leg.seatsPerFlight ? `Y${Math.min(999, leg.seatsPerFlight)}` : ''],
+      [193, `0${formatDateVariation(arrivalDateVariation)}`]
+    ]);
+  });
+  closeBlock();
+
+  const lastSerial = serial;
+  push([[1, '5'], [3, airline], [7, formatSsimDate(today)], [188, lastSerial.toString().padStart(6, '0')], [194, 'E']]);
+  closeBlock();
+
+  return records.join('\n') + '\n';
+};
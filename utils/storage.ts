@@ -0,0 +1,173 @@
+
+import { AirportDataset, FlightInfo, WorkspaceSnapshot } from '../types';
+import { SCHEMA_VERSION, migrateWorkspace } from './schema';
+
+/**
+ * Workspace persistence in IndexedDB. Datasets, manual blocks (keyed by dataset id) and snapshots
+ * live in separate stores and are written incrementally: only records whose object identity
+ * changed since the last save are put, and records that disappeared are deleted.
+ */
+
+export type ManualBlocks = Record<string, Record<number, { arrivals: FlightInfo[], departures: FlightInfo[] }>>;
+
+export interface StoredWorkspace {
+  datasets: AirportDataset[];
+  manualBlocks: ManualBlocks;
+  snapshots: WorkspaceSnapshot[];
+}
+
+const DB_NAME = 'aerohub';
+const DB_VERSION = 1;
+
+type StoreName = 'datasets' | 'manualBlocks' | 'snapshots' | 'meta';
+
+// Keys used before the move to IndexedDB; read once, then removed
+const LEGACY_KEYS = {
+  datasets: 'aerohub_datasets_v2',
+  manualBlocks: 'aerohub_manual_blocks_v2',
+  snapshots: 'aerohub_snapshots_v2'
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains('datasets')) db.createObjectStore('datasets', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('snapshots')) db.createObjectStore('snapshots', { keyPath: 'id' });
+        if (!db.objectStoreNames.contains('manualBlocks')) db.createObjectStore('manualBlocks');
+        if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta');
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const readAll = async <T>(store: StoreName): Promise<T[]> => {
+  const db = await openDb();
+  return promisify(db.transaction(store).objectStore(store).getAll() as IDBRequest<T[]>);
+};
+
+const readKeyed = async <T>(store: StoreName): Promise<Record<string, T>> => {
+  const db = await openDb();
+  const os = db.transaction(store).objectStore(store);
+  const [keys, values] = await Promise.all([promisify(os.getAllKeys()), promisify(os.getAll())]);
+  const result: Record<string, T> = {};
+  keys.forEach((k, i) => { result[String(k)] = values[i]; });
+  return result;
+};
+
+/**
+ * writeChanges: Applies puts and deletes to one store in a single transaction. Keyed entries are
+ * used for stores without a key path.
+ */
+const writeChanges = async (store: StoreName, puts: { key?: string, value: unknown }[], deletes: string[]) => {
+  if (puts.length === 0 && deletes.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const os = tx.objectStore(store);
+  puts.forEach(p => p.key === undefined ? os.put(p.value) : os.put(p.value, p.key));
+  deletes.forEach(k => os.delete(k));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const saveListChanges = <T extends { id: string }>(store: 'datasets' | 'snapshots', prev: T[], next: T[]) => {
+  const prevById = new Map(prev.map(p => [p.id, p]));
+  const nextIds = new Set(next.map(n => n.id));
+  return writeChanges(
+    store,
+    next.filter(n => prevById.get(n.id) !== n).map(value => ({ value })),
+    prev.filter(p => !nextIds.has(p.id)).map(p => p.id)
+  );
+};
+
+export const saveManualBlockChanges = (prev: ManualBlocks, next: ManualBlocks) =>
+  writeChanges(
+    'manualBlocks',
+    Object.keys(next).filter(k => prev[k] !== next[k]).map(key => ({ key, value: next[key] })),
+    Object.keys(prev).filter(k => !(k in next))
+  );
+
+/**
+ * migrateLegacyStorage: Moves the localStorage workspace into IndexedDB the first time it runs.
+ * The legacy keys are only removed once the copy has been committed.
+ */
+const migrateLegacyStorage = async () => {
+  const db = await openDb();
+  const done = await promisify(db.transaction('meta').objectStore('meta').get('legacyMigrated'));
+  if (done) return;
+
+  const parse = <T>(key: string, fallback: T): T => {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? JSON.parse(raw) : fallback;
+    } catch {
+      return fallback;
+    }
+  };
+  const datasets = parse<AirportDataset[]>(LEGACY_KEYS.datasets, []);
+  const snapshots = parse<WorkspaceSnapshot[]>(LEGACY_KEYS.snapshots, []);
+  const manualBlocks = parse<ManualBlocks>(LEGACY_KEYS.manualBlocks, {});
+
+  await saveListChanges('datasets', [], datasets);
+  await saveListChanges('snapshots', [], snapshots);
+  await saveManualBlockChanges({}, manualBlocks);
+  await writeChanges('meta', [{ key: 'legacyMigrated', value: Date.now() }], []);
+  Object.values(LEGACY_KEYS).forEach(k => localStorage.removeItem(k));
+};
+
+/**
+ * loadWorkspace: Reads the stored workspace, upgrading it to the current schema first. Rejects
+ * with a readable message when the data comes from a newer build.
+ */
+export const loadWorkspace = async (): Promise<StoredWorkspace> => {
+  await migrateLegacyStorage();
+  const db = await openDb();
+  const version: number = (await promisify(db.transaction('meta').objectStore('meta').get('schemaVersion'))) || 1;
+  const [datasets, manualBlocks, snapshots] = await Promise.all([
+    readAll<any>('datasets'),
+    readKeyed<any>('manualBlocks'),
+    readAll<any>('snapshots')
+  ]);
+
+  const migrated = migrateWorkspace({ datasets, manualBlocks, snapshots }, version);
+  if ('error' in migrated) throw new Error(migrated.error);
+  if (version < SCHEMA_VERSION) {
+    await saveListChanges('datasets', [], migrated.datasets);
+    await saveListChanges('snapshots', [], migrated.snapshots);
+    await saveManualBlockChanges({}, migrated.manualBlocks);
+    await writeChanges('meta', [{ key: 'schemaVersion', value: SCHEMA_VERSION }], []);
+  }
+  return { ...migrated, snapshots: migrated.snapshots.sort((a, b) => b.timestamp - a.timestamp) };
+};
+
+export interface StorageUsage {
+  usage: number; // Bytes
+  quota: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  if (bytes < 1024 ** 3) return `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+  return `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+};
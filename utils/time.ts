@@ -0,0 +1,81 @@
+
+/**
+ * Time helpers shared by the importers and the hub engine.
+ */
+
+const TIME_PATTERN = /^(\d{1,2}):?(\d{2})(?::\d{2})?$/;
+
+/**
+ * normalizeTime: Coerces "9:05", "0905" or "09:05:00" into "09:05".
+ * Returns null when the value is not a valid 24h clock time.
+ */
+export const normalizeTime = (value: string | undefined | null): string | null => {
+  if (!value) return null;
+  const match = value.trim().match(TIME_PATTERN);
+  if (!match) return null;
+  const h = parseInt(match[1]);
+  const m = parseInt(match[2]);
+  if (h > 23 || m > 59) return null;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
+
+/**
+ * parseDays: Extracts the operating-day set from a days-of-operation field.
+ * Accepts SSIM-style patterns ("1.3.5..", "1 3 5   ", "135") and "Daily".
+ * Returns the sorted ISO weekday digits (1 = Monday) as a compact string, e.g. "135".
+ */
+export const parseDays = (value: string | undefined | null): string => {
+  if (!value) return '';
+  if (/^\s*daily\s*$/i.test(value)) return '1234567';
+  const digits = new Set(value.match(/[1-7]/g) || []);
+  return Array.from(digits).sort().join('');
+};
+
+export const getMins = (timeStr: string) => {
+  if (!timeStr || !timeStr.includes(':')) return 0;
+  const [h, m] = timeStr.split(':').map(Number);
+  return h * 60 + m;
+};
+
+export const minsToTime = (mins: number) => {
+  const normalized = ((mins % 1440) + 1440) % 1440;
+  const h = Math.floor(normalized / 60);
+  const m = Math.round(normalized % 60);
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
+
+/**
+ * shiftDays: Moves an operating-day set by whole days (e.g. +1 for an arrival after midnight).
+ */
+export const shiftDays = (days: string, offset: number): string => {
+  if (!offset) return days;
+  return days.split('')
+    .map(d => ((((parseInt(d) - 1 + offset) % 7) + 7) % 7) + 1)
+    .sort()
+    .join('');
+};
+
+/**
+ * operatesOn: Whether a flight with the given day set runs on ISO weekday `day`.
+ * An empty set means the source had no day pattern, so the flight is assumed to run every day.
+ */
+export const operatesOn = (days: string | undefined, day: number): boolean => !days || days.includes(day.toString());
+
+// Union of two day sets; an unknown ('') pattern on either side keeps the result unknown
+export const unionDays = (a: string | undefined, b: string | undefined): string => {
+  if (a === undefined) return b || '';
+  if (b === undefined) return a;
+  if (!a || !b) return '';
+  return Array.from(new Set((a + b).split(''))).sort().join('');
+};
+
+/**
+ * getConnectingDays: Arrival days on which the departure also operates, on the same day
+ * or, for a connection that crosses midnight, on the following day.
+ * Unknown patterns are treated as daily.
+ */
+export const getConnectingDays = (arrDays: string | undefined, depDays: string | undefined, overnight: boolean): string =>
+  '1234567'.split('').filter(d => {
+    const day = parseInt(d);
+    return operatesOn(arrDays, day) && operatesOn(depDays, overnight ? (day % 7) + 1 : day);
+  }).join('');
@@ -0,0 +1,125 @@
+
+import { FlightInfo } from '../types';
+import { addDays, todayISO } from './season';
+import { getMins, minsToTime, shiftDays } from './time';
+import { AirportIndex, DEFAULT_AIRPORT_INDEX } from './airports';
+
+/**
+ * UTC offsets for airports. Offsets are minutes east of UTC and always resolved for a date,
+ * so DST changes between validity periods are honoured.
+ */
+
+const formatters: Record<string, Intl.DateTimeFormat> = {};
+
+/**
+ * getZoneOffset: Offset of an IANA zone at noon UTC on the given date, or null for an unknown zone.
+ */
+export const getZoneOffset = (timeZone: string, isoDate: string): number | null => {
+  try {
+    if (!formatters[timeZone]) {
+      formatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+        timeZone, hourCycle: 'h23', year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'
+      });
+    }
+    const [y, m, d] = isoDate.split('-').map(Number);
+    const instant = Date.UTC(y, m - 1, d, 12);
+    const parts: Record<string, number> = {};
+    formatters[timeZone].formatToParts(new Date(instant)).forEach(p => { if (p.type !== 'literal') parts[p.type] = parseInt(p.value); });
+    const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    return Math.round((wallClock - instant) / 60000);
+  } catch {
+    return null;
+  }
+};
+
+export const getAirportUtcOffset = (code: string, isoDate: string = todayISO(), airports: AirportIndex = DEFAULT_AIRPORT_INDEX): number | null => {
+  const zone = airports[(code || '').toUpperCase()]?.tz;
+  return zone ? getZoneOffset(zone, isoDate) : null;
+};
+
+export const formatUtcOffset = (mins: number) => {
+  const abs = Math.abs(mins);
+  return `UTC${mins < 0 ? '-' : '+'}${Math.floor(abs / 60).toString().padStart(2, '0')}:${(abs % 60).toString().padStart(2, '0')}`;
+};
+
+// Moves a clock time by a number of minutes, reporting how many days it crossed
+export const shiftClock = (time: string, deltaMins: number) => {
+  const mins = getMins(time) + deltaMins;
+  return { time: minsToTime(mins), dayShift: Math.floor(mins / 1440) };
+};
+
+// The reference date is kept inside the row's validity period so the offset matches when it operates
+const clampToValidity = (date: string, row: any) => {
+  if (row.effectiveFrom && date < row.effectiveFrom) return row.effectiveFrom;
+  if (row.effectiveTo && date > row.effectiveTo) return row.effectiveTo;
+  return date;
+};
+
+/**
+ * getRowUtcOffset: Explicit offset stored on the row (SSIM, UTC imports) or the airport's zone
+ * offset around `date`. Null when neither is known.
+ */
+export const getRowUtcOffset = (row: any, station: 'hub' | 'origin' | 'destination', hubCode: string, date: string = todayISO(), airports: AirportIndex = DEFAULT_AIRPORT_INDEX): number | null => {
+  const stored = row[`${station}UtcOffset`];
+  if (typeof stored === 'number') return stored;
+  const code = station === 'hub' ? hubCode : station === 'origin' ? row.arrivalCode : row.departureCode;
+  return getAirportUtcOffset(code, clampToValidity(date, row), airports);
+};
+
+/**
+ * localizeUtcRows: Converts rows whose times are in UTC to station-local times, like SSIM imports.
+ * Hub days and validity dates follow the hub's local date. Offsets are resolved at each row's
+ * first valid date (or today) and stored on the row. Stations without a known zone keep UTC times
+ * and are returned so the import report can list them.
+ */
+export const localizeUtcRows = (rows: any[], hubCode: string, airports: AirportIndex = DEFAULT_AIRPORT_INDEX): { rows: any[], missingZones: string[] } => {
+  const missing = new Set<string>();
+  const localized = rows.map(row => {
+    const next = { ...row };
+    const date = row.effectiveFrom || todayISO();
+    const hubOffset = getAirportUtcOffset(hubCode, date, airports);
+    if (hubOffset === null) {
+      missing.add(hubCode);
+    } else {
+      const hub = shiftClock(row.hub_time, hubOffset);
+      next.hub_time = hub.time;
+      next.hubUtcOffset = hubOffset;
+      if (hub.dayShift) {
+        next.arrivalDays = shiftDays(row.arrivalDays || '', hub.dayShift);
+        next.departureDays = shiftDays(row.departureDays || '', hub.dayShift);
+        if (row.effectiveFrom) next.effectiveFrom = addDays(row.effectiveFrom, hub.dayShift);
+        if (row.effectiveTo) next.effectiveTo = addDays(row.effectiveTo, hub.dayShift);
+      }
+    }
+    ([['arrivalCode', 'arrivalTime', 'originUtcOffset'], ['departureCode', 'departureTime', 'destinationUtcOffset']] as const).forEach(([codeKey, timeKey, offsetKey]) => {
+      if (!row[codeKey]) return;
+      const offset = getAirportUtcOffset(row[codeKey], date, airports);
+      if (offset === null) {
+        missing.add(row[codeKey].toUpperCase());
+        return;
+      }
+      next[offsetKey] = offset;
+      if (row[timeKey]) next[timeKey] = shiftClock(row[timeKey], offset).time;
+    });
+    return next;
+  });
+  return { rows: localized, missingZones: Array.from(missing).sort() };
+};
+
+/**
+ * shiftFlightClock: Moves a chart block between hub-local and UTC display. Anchor and merged
+ * member times move with it so retiming deltas are unaffected.
+ */
+export const shiftFlightClock = (f: FlightInfo, deltaMins: number): FlightInfo => {
+  if (!deltaMins) return f;
+  const shift = (time?: string) => time ? shiftClock(time, deltaMins).time : time;
+  const exact = f.exactTime ? shiftClock(f.exactTime, deltaMins) : null;
+  const next: any = {
+    ...f,
+    exactTime: shift(f.exactTime),
+    originalHubTime: shift(f.originalHubTime),
+    days: exact && f.days ? shiftDays(f.days, exact.dayShift) : f.days
+  };
+  if ((f as any).mergedFlights) next.mergedFlights = (f as any).mergedFlights.map((m: FlightInfo) => shiftFlightClock(m, deltaMins));
+  return next;
+};